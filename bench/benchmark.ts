@@ -0,0 +1,54 @@
+import { BigInteger } from "big-integer";
+import BigMath from "../src/BigMath";
+import Paillier from "../src/Paillier";
+import VoteEncoder from "../src/VoteEncoder";
+import ZkpCommitment from "../src/ZkpCommitment";
+
+/**
+ * Compares the throughput of encryption, proof generation and verification
+ * with the native bigint backend and the big-integer package.
+ * Usage: npm run bench -- [iterations] [bits...]
+ */
+
+let iterations = Number(process.argv[2] || 10);
+let sizes = process.argv.length > 3 ? process.argv.slice(3).map(Number) : [2048, 3072];
+
+function measure(name: string, fn: () => void): number {
+    let start = process.hrtime.bigint();
+    for (let i = 0; i < iterations; i++) fn();
+    let ms = Number(process.hrtime.bigint() - start) / 1e6;
+    let opsPerSec = (iterations * 1000) / ms;
+    console.log(`    ${name}: ${(ms / iterations).toFixed(1)} ms/op, ${opsPerSec.toFixed(2)} op/s`);
+    return opsPerSec;
+}
+
+let native = BigMath.isNativeBigInt();
+for (let bits of sizes) {
+    console.log(`Generating ${bits} bit key pair...`);
+    let [pub, priv] = Paillier.generateKeyPair(bits);
+    let valid = VoteEncoder.getSingleChoicePermutations(4, VoteEncoder.getBitsPerChoice(1000));
+    let m = valid[1];
+    let [c, commitment] = Paillier.encryptWithZkp(m, valid, pub, "bench");
+    let batch = new Array<[BigInteger, BigInteger[], ZkpCommitment]>();
+    for (let i = 0; i < 10; i++) batch.push([c, valid, commitment]);
+
+    let results: { [backend: string]: number[] } = {};
+    for (let backend of native ? ["native", "big-integer"] : ["big-integer"]) {
+        BigMath.useNativeBigInt(backend == "native");
+        console.log(`  ${bits} bits, ${backend}, ${iterations} iterations`);
+        results[backend] = [
+            measure("encrypt", () => Paillier.encrypt(m, pub)),
+            measure("encryptWithZkp", () => Paillier.encryptWithZkp(m, valid, pub, "bench")),
+            measure("verifyZkp", () => Paillier.verifyZkp(c, valid, commitment, pub, "bench")),
+            measure("batchVerifyZkp of 10", () => Paillier.batchVerifyZkp(batch, pub, "bench")),
+            measure("decrypt", () => Paillier.decrypt(c, pub, priv)),
+        ];
+    }
+    BigMath.useNativeBigInt(native);
+
+    if (results["native"]) {
+        let ratios = results["native"].map((ops, i) => (ops / results["big-integer"][i]).toFixed(2) + "x");
+        console.log(`  ${bits} bits, native to big-integer throughput: ${ratios.join(" ")}`);
+    }
+    if (!Paillier.decrypt(c, pub, priv).equals(m)) throw new Error("Benchmark self check failed");
+}
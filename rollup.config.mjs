@@ -20,9 +20,6 @@ export default [
             file: pkg.browser,
             format: "umd",
             sourcemap: "inline",
-            globals: {
-                crypto: "crypto",
-            },
         },
         plugins: [
             typescript({
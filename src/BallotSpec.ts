@@ -0,0 +1,48 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import ElectionParameters from "./ElectionParameters";
+import VoteEncoder from "./VoteEncoder";
+
+/**
+ * Describes which ballots are accepted in an election: the valid encoded messages and the context the proofs are bound to
+ */
+export default class BallotSpec {
+    public valid: BigInteger[];
+    public context: string;
+
+    /**
+     * @param {BigInteger[]} valid - list of valid messages
+     * @param {string} [context=""] - election context the proofs are bound to
+     */
+    constructor(valid: BigInteger[], context: string = "") {
+        if (valid.length == 0) throw new RangeError("No valid messages");
+        this.valid = valid;
+        this.context = context;
+    }
+
+    /**
+     * Creates a spec accepting a single choice vote in any of the bins
+     * @param {ElectionParameters} params - The election parameters
+     * @param {string} [context=""] - election context the proofs are bound to
+     * @returns {BallotSpec} The ballot spec
+     */
+    public static singleChoice(params: ElectionParameters, context: string = ""): BallotSpec {
+        let valid = VoteEncoder.getSingleChoicePermutations(params.numChoices, params.bitsPerChoice, params.numBins);
+        return new BallotSpec(valid, context);
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("BallotSpec");
+        o.valid = WireFormat.encodeBigIntArray(this.valid);
+        o.context = this.context;
+        return o;
+    }
+
+    public static from(o: any): BallotSpec {
+        WireFormat.checkHeader(o, "BallotSpec");
+        return new BallotSpec(
+            WireFormat.decodeBigIntArray(o.valid, "valid"),
+            WireFormat.decodeString(o.context, "context"),
+        );
+    }
+}
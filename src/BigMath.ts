@@ -1,12 +1,26 @@
 import { BigInteger, default as bigInt } from "big-integer";
-import { randomBytes, createHash } from "crypto";
+import Platform from "./Platform";
+import Bytes from "./Bytes";
+import RandomSource from "./RandomSource";
+import CryptoRandomSource from "./CryptoRandomSource";
 
 /**
  * Utility class for manipulating BigIntegers
  */
 export default class BigMath {
+    /**
+     * Whether the hot arithmetic (modPow, isProbablePrime) runs on the platform's native bigint
+     */
+    private static native: boolean = typeof BigInt === "function";
+
+    /**
+     * Where all the randomness of the library comes from
+     */
+    private static randomSource: RandomSource = new CryptoRandomSource();
+
     /**
      * Modifies the toJSON function of BigInteger to return base64 string instead
+     * @deprecated Use the toJSON of the objects or WireFormat.encodeBigInt and WireFormat.encodeCiphertext
      * @param {BigInteger} bn - BigInteger
      */
     public static makeStringifyToBase64(bn: BigInteger) {
@@ -21,7 +35,7 @@ export default class BigMath {
      * @returns {BigInteger} BigInteger if successful
      */
     public static base64ToBigInt(b64: string): BigInteger {
-        let b = BigMath.reverseBuffer(Buffer.from(b64, "base64"));
+        let b = BigMath.reverseBuffer(Bytes.fromBase64(b64));
         let bn = BigMath.bufferToBigInt(b);
         return bn;
     }
@@ -29,27 +43,24 @@ export default class BigMath {
     /**
      * Converts BigInteger to the bytes representing it
      * @param {BigInteger} bn - BigInteger
-     * @returns {Buffer} Buffer if successfull
+     * @returns {Uint8Array} Bytes if successfull
      */
-    public static bigIntToBuffer(bn: BigInteger): Buffer {
+    public static bigIntToBuffer(bn: BigInteger): Uint8Array {
         let ba = bn.toArray(256);
         if (ba.value[0] >= 0x80) {
             ba.value.splice(0, 0, 0);
         }
-        let buf = BigMath.reverseBuffer(Buffer.from(ba.value));
+        let buf = BigMath.reverseBuffer(Uint8Array.from(ba.value));
         return buf;
     }
 
     /**
      * Creates SHA256 hash from a BigInteger
      * @param {BigInteger} bn - BigInteger
-     * @returns {Buffer} Hash bytes
+     * @returns {Uint8Array} Hash bytes
      */
-    public static hashFromBigInt(bn: BigInteger): Buffer {
-        let hash = createHash("sha256");
-        let buf = BigMath.bigIntToBuffer(bn);
-        hash.update(buf);
-        return BigMath.reverseBuffer(hash.digest());
+    public static hashFromBigInt(bn: BigInteger): Uint8Array {
+        return BigMath.reverseBuffer(Platform.sha256([BigMath.bigIntToBuffer(bn)]));
     }
 
     /**
@@ -64,16 +75,10 @@ export default class BigMath {
     /**
      * Creates SHA256 hash from a list of BigIntegers
      * @param {Array<BigInteger>} list - BigIntegers
-     * @returns {Buffer} Hash bytes
-     */
-    public static hashFromBigIntArray(list: Array<BigInteger>): Buffer {
-        let hash = createHash("sha256");
-        for (let i: number = 0; i < list.length; i++) {
-            let bn: BigInteger = list[i];
-            let buf = BigMath.bigIntToBuffer(bn);
-            hash.update(buf);
-        }
-        let dig = hash.digest();
+     * @returns {Uint8Array} Hash bytes
+     */
+    public static hashFromBigIntArray(list: Array<BigInteger>): Uint8Array {
+        let dig = Platform.sha256(list.map((bn) => BigMath.bigIntToBuffer(bn)));
         if (dig[dig.length - 1] < 0x80) {
             dig[dig.length - 1] |= 0x80;
         }
@@ -83,20 +88,29 @@ export default class BigMath {
     /**
      * Creates SHA256 hash from a list of BigIntegers and converts it to BigInteger
      * @param {Array<BigInteger>} list - BigIntegers
-     * @returns {Buffer} Hash bytes as BigInteger
+     * @returns {BigInteger} Hash bytes as BigInteger
      */
     public static bigIntHashFromBigIntArray(list: Array<BigInteger>): BigInteger {
         let bn: BigInteger = BigMath.bufferToBigInt(BigMath.hashFromBigIntArray(list));
         return bn;
     }
 
+    /**
+     * Creates SHA256 hash from the concatenation of byte arrays
+     * @param {Array<Uint8Array>} list - byte arrays
+     * @returns {Uint8Array} Hash bytes
+     */
+    public static sha256(list: Array<Uint8Array>): Uint8Array {
+        return Platform.sha256(list);
+    }
+
     /**
      * Converts a BigInteger to Base64 encoded string
      * @param {BigInteger} bn - BigInteger
      * @returns {string} Base64 encoded BigInteger
      */
     public static bigIntToBase64(bn: BigInteger): string {
-        let b64 = BigMath.bigIntToBuffer(bn).toString("base64");
+        let b64 = Bytes.toBase64(BigMath.bigIntToBuffer(bn));
         return b64;
     }
 
@@ -114,12 +128,12 @@ export default class BigMath {
     }
 
     /**
-     * Reverses a Buffer
-     * @param {Buffer} buf - A buffer
-     * @returns {Buffer} Reversed buffer
+     * Reverses a byte array
+     * @param {Uint8Array} buf - A byte array
+     * @returns {Uint8Array} Reversed byte array
      */
-    public static reverseBuffer(buf: Buffer): Buffer {
-        let reversed = Buffer.allocUnsafe(buf.length);
+    public static reverseBuffer(buf: Uint8Array): Uint8Array {
+        let reversed = new Uint8Array(buf.length);
 
         let i, j: number;
         for (i = 0, j = buf.length - 1; i <= j; ++i, --j) {
@@ -131,22 +145,20 @@ export default class BigMath {
     }
 
     /**
-     * Hexify a buffer of bytes
-     * @param {Buffer} buf - A buffer
+     * Hexify a byte array
+     * @param {Uint8Array} buffer - A byte array
      * @returns {string} A hex string
      */
-    public static bufferToHex(buffer: Buffer): string {
-        return Array.from(new Uint8Array(buffer))
-            .map((b) => b.toString(16).padStart(2, "0"))
-            .join("");
+    public static bufferToHex(buffer: Uint8Array): string {
+        return Bytes.toHex(buffer);
     }
 
     /**
-     * Converts a buffer to BigInteger
-     * @param {Buffer} b - A buffer
+     * Converts a byte array to BigInteger
+     * @param {Uint8Array} b - A byte array
      * @returns {BigInteger} A BigInteger
      */
-    public static bufferToBigInt(b: Buffer): BigInteger {
+    public static bufferToBigInt(b: Uint8Array): BigInteger {
         return bigInt(this.bufferToHex(b), 16);
     }
 
@@ -186,34 +198,434 @@ export default class BigMath {
     }
 
     /**
-     * Generates a random BigInteger number of specified bits. Depends on the crypto library.
+     * Checks if the arithmetic runs on the platform's native bigint
+     * @returns {boolean} true if native bigint is used
+     */
+    public static isNativeBigInt(): boolean {
+        return BigMath.native;
+    }
+
+    /**
+     * Switches the arithmetic between the platform's native bigint and the big-integer package.
+     * Native bigint is used by default when the platform supports it.
+     * @param {boolean} enabled - true to use native bigint
+     */
+    public static useNativeBigInt(enabled: boolean) {
+        if (enabled && typeof BigInt !== "function") throw new Error("Native bigint is not supported by the platform");
+        BigMath.native = enabled;
+    }
+
+    /**
+     * Converts a BigInteger to native bigint
+     * @param {BigInteger} bn - BigInteger
+     * @returns {bigint} The native bigint
+     */
+    public static toNative(bn: BigInteger): bigint {
+        // big-integer prints decimal with the native toString, other radixes digit by digit
+        return BigInt(bn.toString());
+    }
+
+    /**
+     * Converts a native bigint to BigInteger
+     * @param {bigint} value - native bigint
+     * @returns {BigInteger} The BigInteger
+     */
+    public static fromNative(value: bigint): BigInteger {
+        return bigInt(value);
+    }
+
+    /**
+     * Calculates base^exp mod m. Negative exponents use the modular inverse of the base.
+     * @param {BigInteger} base - the base
+     * @param {BigInteger} exp - the exponent
+     * @param {BigInteger} m - the modulus
+     * @returns {BigInteger} base^exp mod m
+     */
+    public static modPow(base: BigInteger, exp: BigInteger, m: BigInteger): BigInteger {
+        if (!BigMath.native) return base.modPow(exp, m);
+        if (m.isZero()) throw new Error("Cannot take modPow with modulus 0");
+        if (exp.isNegative()) {
+            base = base.modInv(m);
+            exp = exp.negate();
+        }
+        return BigMath.fromNative(
+            BigMath.nativeModPow(BigMath.toNative(base), BigMath.toNative(exp), BigMath.toNative(m)),
+        );
+    }
+
+    /**
+     * Calculates the product of bases[i]^exps[i] mod m. On native bigint the values are converted once
+     * and the exponentiations share their squarings.
+     * @param {BigInteger[]} bases - the bases
+     * @param {BigInteger[]} exps - the exponents, negative ones use the modular inverse of the base
+     * @param {BigInteger} m - the modulus
+     * @returns {BigInteger} prod bases[i]^exps[i] mod m
+     */
+    public static multiModPow(bases: BigInteger[], exps: BigInteger[], m: BigInteger): BigInteger {
+        if (bases.length != exps.length) throw new RangeError("The numbers of bases and exponents differ");
+        if (m.isZero()) throw new Error("Cannot take modPow with modulus 0");
+        bases = bases.map((base, i) => (exps[i].isNegative() ? base.modInv(m) : base));
+        exps = exps.map((exp) => exp.abs());
+        if (!BigMath.native) {
+            let result = bigInt.one.mod(m);
+            for (let i = 0; i < bases.length; i++) result = result.multiply(bases[i].modPow(exps[i], m)).mod(m);
+            return result;
+        }
+        return BigMath.fromNative(
+            BigMath.nativeMultiModPow(bases.map(BigMath.toNative), exps.map(BigMath.toNative), BigMath.toNative(m)),
+        );
+    }
+
+    /**
+     * Tests if a number is a probable prime with trial division by the first primes and Miller-Rabin
+     * with k random bases.
+     * @param {BigInteger} n - the number
+     * @param {number} [k=50] - Number of Miller-Rabin rounds
+     * @param {RandomSource} [source] - source of the bases, the one of useRandomSource by default
+     * @returns {boolean} true if probably prime
+     */
+    public static isProbablePrime(n: BigInteger, k: number = 50, source?: RandomSource): boolean {
+        if (!BigMath.native) return n.isProbablePrime(k);
+        let value = BigMath.toNative(n.abs());
+        let zero = BigInt(0);
+        let one = BigInt(1);
+        let two = BigInt(2);
+        if (value < two) return false;
+        for (let prime of FirstPrimes) {
+            let p = BigInt(prime);
+            if (value == p) return true;
+            if (value % p == zero) return false;
+        }
+
+        // n - 1 = d * 2^s
+        let nPrev = value - one;
+        let d = nPrev;
+        let s = 0;
+        while (d % two == zero) {
+            d = d / two;
+            s++;
+        }
+
+        let bits = n.bitLength().toJSNumber();
+        for (let i = 0; i < k; i++) {
+            // Random base in [2, n - 2]
+            let a =
+                (BigMath.toNative(BigMath.generateRandom(Math.ceil(bits / 8) * 8 + 64, source)) % (value - BigInt(3))) +
+                two;
+            let x = BigMath.nativeModPow(a, d, value);
+            if (x == one || x == nPrev) continue;
+            let composite = true;
+            for (let j = 1; j < s && composite; j++) {
+                x = (x * x) % value;
+                if (x == nPrev) composite = false;
+            }
+            if (composite) return false;
+        }
+        return true;
+    }
+
+    /**
+     * Sliding window exponentiation on native bigint for a non-negative exponent
+     */
+    private static nativeModPow(base: bigint, exp: bigint, m: bigint): bigint {
+        let zero = BigInt(0);
+        let one = BigInt(1);
+        if (m == one) return zero;
+        base = base % m;
+        if (base < zero) base += m;
+
+        let bits = exp.toString(2);
+        let w = bits.length > 512 ? 6 : bits.length > 128 ? 5 : bits.length > 32 ? 4 : 1;
+        // odd[i] = base^(2i + 1)
+        let square = (base * base) % m;
+        let odd = [base];
+        for (let i = 1; i < 1 << (w - 1); i++) odd.push((odd[i - 1] * square) % m);
+
+        let result = one;
+        let i = 0;
+        while (i < bits.length) {
+            if (bits[i] == "0") {
+                result = (result * result) % m;
+                i++;
+                continue;
+            }
+            // The longest window of at most w bits that ends with 1
+            let j = Math.min(i + w, bits.length);
+            while (bits[j - 1] == "0") j--;
+            for (let k = i; k < j; k++) result = (result * result) % m;
+            result = (result * odd[(parseInt(bits.slice(i, j), 2) - 1) >> 1]) % m;
+            i = j;
+        }
+        return result;
+    }
+
+    /**
+     * Interleaved fixed window multi-exponentiation on native bigint for non-negative exponents
+     */
+    private static nativeMultiModPow(bases: bigint[], exps: bigint[], m: bigint): bigint {
+        let zero = BigInt(0);
+        let one = BigInt(1);
+        if (m == one) return zero;
+
+        let length = 0;
+        for (let exp of exps) length = Math.max(length, exp.toString(2).length);
+        let w = length > 512 ? 5 : 4;
+        let mask = BigInt((1 << w) - 1);
+        // tables[i][d] = bases[i]^d
+        let tables = bases.map((base) => {
+            base = base % m;
+            if (base < zero) base += m;
+            let table = [one];
+            for (let d = 1; d < 1 << w; d++) table.push((table[d - 1] * base) % m);
+            return table;
+        });
+
+        let result = one;
+        for (let j = Math.ceil(length / w) - 1; j >= 0; j--) {
+            for (let k = 0; k < w; k++) result = (result * result) % m;
+            let shift = BigInt(j * w);
+            for (let i = 0; i < exps.length; i++) {
+                let digit = Number((exps[i] >> shift) & mask);
+                if (digit != 0) result = (result * tables[i][digit]) % m;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Generates a random BigInteger number of specified bits. Depends on the random source.
      * @param {number} bits - How many bits of randomness to generate
+     * @param {RandomSource} [source] - source of the randomness, the one of useRandomSource by default
      * @returns {BigInteger} A random BigInteger
      */
-    public static generateRandom(bits: number): BigInteger {
-        let bytes = bits / 8;
-        let rndBuf = randomBytes(bytes);
+    public static generateRandom(bits: number, source?: RandomSource): BigInteger {
+        let bytes = Math.floor(bits / 8);
+        let rndBuf = BigMath.randomBytes(bytes, source);
         return BigMath.bufferToBigInt(rndBuf);
     }
 
     /**
-     * Generates a random probable prime.
+     * Generates random bytes with the random source
+     * @param {number} length - number of bytes
+     * @param {RandomSource} [source] - source of the randomness, the one of useRandomSource by default
+     * @returns {Uint8Array} Random bytes
+     */
+    public static randomBytes(length: number, source: RandomSource = BigMath.randomSource): Uint8Array {
+        let bytes = source.randomBytes(length);
+        if (bytes.length != length) throw new Error("Random source returned a wrong number of bytes");
+        return bytes;
+    }
+
+    /**
+     * Replaces the default source of the randomness, e.g. with an HSM or a SeededRandomSource in tests.
+     * Prefer passing the source to the functions that take one, the default is shared by all callers.
+     * @param {RandomSource} [source] - the random source, the CSPRNG of the crypto library by default
+     */
+    public static useRandomSource(source: RandomSource = new CryptoRandomSource()) {
+        BigMath.randomSource = source;
+    }
+
+    /**
+     * @returns {RandomSource} The current random source
+     */
+    public static getRandomSource(): RandomSource {
+        return BigMath.randomSource;
+    }
+
+    /**
+     * Generates a random probable prime of exactly the specified number of bits.
+     * The two most significant bits are set, so the product of two such primes has exactly 2 * bits bits.
      * More info on [probable primes](https://en.wikipedia.org/wiki/Probable_prime)
      * @param {number} bits - How many bits of randomness to generate
      * @param {number} k - Number of tests
+     * @param {RandomSource} [source] - source of the randomness, the one of useRandomSource by default
      * @returns {BigInteger} A random prime BigInteger
      */
-    public static generateRandomPrime(bits: number, k: number = 50): BigInteger {
-        if (bits < 2) throw new RangeError("Bits must be at least 2");
+    public static generateRandomPrime(bits: number, k: number = 50, source?: RandomSource): BigInteger {
+        return BigMath.searchPrime(bits, k, 2, 1, false, source);
+    }
+
+    /**
+     * Generates a random Blum prime p ≡ 3 mod 4 of exactly the specified number of bits.
+     * The two most significant bits are set, so the product of two such primes has exactly 2 * bits bits.
+     * @param {number} bits - How many bits of randomness to generate
+     * @param {number} k - Number of tests
+     * @param {RandomSource} [source] - source of the randomness, the one of useRandomSource by default
+     * @returns {BigInteger} A random Blum prime BigInteger
+     */
+    public static generateBlumPrime(bits: number, k: number = 50, source?: RandomSource): BigInteger {
+        return BigMath.searchPrime(bits, k, 4, 3, false, source);
+    }
+
+    /**
+     * Generates a random safe prime p = 2q + 1 where q is prime, of exactly the specified number of bits.
+     * The two most significant bits are set, so the product of two such primes has exactly 2 * bits bits.
+     * Safe primes are also Blum primes. This is much slower than generating a random prime.
+     * @param {number} bits - How many bits of randomness to generate
+     * @param {number} k - Number of tests
+     * @param {RandomSource} [source] - source of the randomness, the one of useRandomSource by default
+     * @returns {BigInteger} A random safe prime BigInteger
+     */
+    public static generateSafePrime(bits: number, k: number = 50, source?: RandomSource): BigInteger {
+        return BigMath.searchPrime(bits, k, 4, 3, true, source);
+    }
+
+    /**
+     * Async version of generateBlumPrime and generateSafePrime. Yields to the event loop after every tested candidate.
+     * @param {number} bits - How many bits of randomness to generate
+     * @param {boolean} [safe=false] - Generate a safe prime
+     * @param {AbortSignal} [signal] - Rejects with the reason of the signal when aborted
+     * @param {(tested: number) => void} [onCandidate] - Called with the number of candidates tested so far
+     * @param {number} k - Number of tests
+     * @param {RandomSource} [source] - source of the randomness, the one of useRandomSource by default
+     * @returns {Promise<BigInteger>} A random Blum or safe prime BigInteger
+     */
+    public static generatePrimeAsync(
+        bits: number,
+        safe: boolean = false,
+        signal?: AbortSignal,
+        onCandidate?: (tested: number) => void,
+        k: number = 50,
+        source?: RandomSource,
+    ): Promise<BigInteger> {
+        return new Promise<BigInteger>((resolve, reject) => {
+            let tested = 0;
+            let next = () => {
+                try {
+                    if (signal && signal.aborted) return reject(BigMath.abortReason(signal));
+                    let prime = search();
+                    tested++;
+                    if (onCandidate) onCandidate(tested);
+                    if (prime !== null) return resolve(prime);
+                } catch (e) {
+                    return reject(e);
+                }
+                setTimeout(next, 0);
+            };
+            let search = BigMath.primeSearch(bits, k, 4, 3, safe, source);
+            next();
+        });
+    }
 
-        let possible: BigInteger = bigInt.zero;
-        let found: boolean = false;
+    /**
+     * The reason of an aborted signal, or an error if the platform doesn't set it
+     */
+    private static abortReason(signal: AbortSignal): any {
+        return signal.reason !== undefined ? signal.reason : new Error("Aborted");
+    }
 
-        while (!found) {
-            possible = BigMath.generateRandom(bits);
-            found = possible.isProbablePrime(k);
+    /**
+     * Checks if a number is divisible by one of the first primes, other than the number itself
+     * @param {BigInteger} n - the number
+     * @returns {boolean} true if a small factor is found
+     */
+    public static hasSmallFactor(n: BigInteger): boolean {
+        for (let prime of FirstPrimes) {
+            if (n.notEquals(prime) && n.isDivisibleBy(prime)) return true;
         }
-        return possible;
+        return false;
+    }
+
+    /**
+     * Calculates the Jacobi symbol (a/n)
+     * @param {BigInteger} a - the number
+     * @param {BigInteger} n - odd positive modulus
+     * @returns {number} 1, -1 or 0 if a and n aren't coprime
+     */
+    public static jacobi(a: BigInteger, n: BigInteger): number {
+        if (n.isNegative() || n.isEven()) throw new RangeError("Jacobi symbol needs an odd positive modulus");
+        a = BigMath.positiveMod(a, n);
+        let t = 1;
+        while (!a.isZero()) {
+            while (a.isEven()) {
+                a = a.shiftRight(1);
+                let r = n.and(7).toJSNumber();
+                if (r == 3 || r == 5) t = -t;
+            }
+            [a, n] = [n, a];
+            if (a.and(3).toJSNumber() == 3 && n.and(3).toJSNumber() == 3) t = -t;
+            a = a.mod(n);
+        }
+        return n.equals(bigInt.one) ? t : 0;
+    }
+
+    /**
+     * Searches for a prime p ≡ rest mod step, sieving the candidates with the first primes.
+     * For safe primes (p - 1) / 2 is sieved and tested as well.
+     */
+    private static searchPrime(
+        bits: number,
+        k: number,
+        step: number,
+        rest: number,
+        safe: boolean,
+        source?: RandomSource,
+    ): BigInteger {
+        let next = BigMath.primeSearch(bits, k, step, rest, safe, source);
+        let prime: BigInteger | null = null;
+        while (prime === null) prime = next();
+        return prime;
+    }
+
+    /**
+     * Starts a search of a prime p ≡ rest mod step, sieving the candidates with the first primes.
+     * For safe primes (p - 1) / 2 is sieved and tested as well.
+     * @returns {() => BigInteger | null} Tests the next candidate that passes the sieve, returns it if it is a prime
+     */
+    private static primeSearch(
+        bits: number,
+        k: number,
+        step: number,
+        rest: number,
+        safe: boolean,
+        source?: RandomSource,
+    ): () => BigInteger | null {
+        if (bits < 4 || (safe && bits < 6)) throw new RangeError("Bits must be at least " + (safe ? 6 : 4));
+        let top = bigInt.one.shiftLeft(bits - 1).add(bigInt.one.shiftLeft(bits - 2));
+        let mask = bigInt.one.shiftLeft(bits - 2).minus(bigInt.one);
+        // Sieve only with primes less than the candidates so the small primes themselves aren't removed
+        let sievePrimes = FirstPrimes.filter((prime) => prime > 2 && bigInt(prime).bitLength().toJSNumber() < bits - 2);
+        let two = bigInt(2);
+        let range = 1 << 16;
+        let start = bigInt.zero;
+        let residues: number[] = [];
+        let delta = range;
+
+        return () => {
+            while (true) {
+                if (delta >= range) {
+                    let random = BigMath.generateRandom(Math.ceil(bits / 8) * 8, source).and(mask);
+                    start = top.add(random.minus(random.mod(step)).add(rest));
+                    residues = sievePrimes.map((prime) => start.mod(prime).toJSNumber());
+                    delta = 0;
+                }
+                let d = delta;
+                delta += step;
+
+                let sieved = false;
+                for (let i = 0; i < sievePrimes.length && !sieved; i++) {
+                    let r = (residues[i] + d) % sievePrimes[i];
+                    // p = 0 mod prime or for safe primes (p - 1) / 2 = 0 mod prime
+                    sieved = r == 0 || (safe && r == 1);
+                }
+                if (sieved) continue;
+
+                let candidate = start.add(d);
+                if (candidate.bitLength().toJSNumber() != bits) {
+                    delta = range;
+                    continue;
+                }
+                if (!safe) return BigMath.isProbablePrime(candidate, k, source) ? candidate : null;
+
+                // Quick Fermat tests of both numbers before the full tests
+                let q = candidate.shiftRight(1);
+                if (BigMath.modPow(two, q.minus(bigInt.one), q).notEquals(bigInt.one)) return null;
+                if (BigMath.modPow(two, candidate.minus(bigInt.one), candidate).notEquals(bigInt.one)) return null;
+                return BigMath.isProbablePrime(q, k, source) && BigMath.isProbablePrime(candidate, k, source)
+                    ? candidate
+                    : null;
+            }
+        };
     }
 
     /**
@@ -231,15 +643,16 @@ export default class BigMath {
      * Generates a coprime to a prime such as gcd(a,b)=1
      * @param {BigInteger} a - a prime
      * @param {number} bits - A prime of how many bits to generate
+     * @param {RandomSource} [source] - source of the randomness, the one of useRandomSource by default
      * @returns {boolean} A coprime
      */
-    public static generateCoprime(a: BigInteger, bits: number): BigInteger {
+    public static generateCoprime(a: BigInteger, bits: number, source?: RandomSource): BigInteger {
         if (bits < 8) throw new RangeError("Bits must be at least 8");
 
         let possible: BigInteger;
         let tries: number = 0;
         do {
-            possible = BigMath.generateRandom(bits);
+            possible = BigMath.generateRandom(bits, source);
             if (++tries > 1000) throw new Error("Cannot find coprime of " + a.toString());
         } while (!BigMath.isCoprime(possible, a));
 
@@ -0,0 +1,89 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import BinaryWriter from "./BinaryWriter";
+import Bytes from "./Bytes";
+
+/**
+ * Reader of the compact binary format written by BinaryWriter
+ */
+export default class BinaryReader {
+    private buf: Uint8Array;
+    private offset: number;
+
+    /**
+     * Checks the magic bytes, the type code and the format version
+     * @param {Uint8Array} buf - the bytes
+     * @param {number} type - expected type code
+     */
+    constructor(buf: Uint8Array, type: number) {
+        this.buf = buf;
+        this.offset = 0;
+        let magic = this.read(BinaryWriter.MAGIC.length);
+        if (!Bytes.equals(magic, BinaryWriter.MAGIC)) throw new TypeError("Not in the binary format");
+        let header = this.read(2);
+        if (header[0] != type) throw new TypeError(`Expected type ${type} but got ${header[0]}`);
+        if (header[1] != BinaryWriter.FORMAT) throw new RangeError(`Unsupported binary format ${header[1]}`);
+    }
+
+    /**
+     * @returns {number} The integer
+     */
+    public readUInt32(): number {
+        return Bytes.toUInt32(this.read(4));
+    }
+
+    /**
+     * @returns {Uint8Array} The bytes prefixed with their length
+     */
+    public readBytes(): Uint8Array {
+        return this.read(this.readUInt32());
+    }
+
+    /**
+     * @returns {BigInteger} The BigInteger
+     */
+    public readBigInt(): BigInteger {
+        let bytes = this.readBytes();
+        return bytes.length == 0 ? bigInt.zero : bigInt.fromArray(Array.from(bytes), 256);
+    }
+
+    /**
+     * @returns {BigInteger[]} The list of BigIntegers
+     */
+    public readBigIntArray(): BigInteger[] {
+        let length = this.readUInt32();
+        let result = new Array<BigInteger>();
+        for (let i = 0; i < length; i++) {
+            result.push(this.readBigInt());
+        }
+        return result;
+    }
+
+    /**
+     * @returns {string} The UTF-8 string
+     */
+    public readString(): string {
+        return Bytes.toUtf8(this.readBytes());
+    }
+
+    /**
+     * Checks if there are more fields, e.g. optional fields at the end
+     * @returns {boolean} true if there are bytes left
+     */
+    public hasMore(): boolean {
+        return this.offset < this.buf.length;
+    }
+
+    /**
+     * Throws if there are bytes left after the last field
+     */
+    public end() {
+        if (this.offset != this.buf.length) throw new RangeError("Unexpected data after the end");
+    }
+
+    private read(length: number): Uint8Array {
+        if (this.offset + length > this.buf.length) throw new RangeError("Unexpected end of data");
+        let result = this.buf.subarray(this.offset, this.offset + length);
+        this.offset += length;
+        return result;
+    }
+}
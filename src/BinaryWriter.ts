@@ -0,0 +1,79 @@
+import { BigInteger } from "big-integer";
+import Bytes from "./Bytes";
+
+/**
+ * Writer of the compact binary format.
+ * The data starts with the magic bytes "PHE", the type code and the format version.
+ * Integers are 32 bit big-endian, BigIntegers and strings are prefixed with their length in bytes.
+ */
+export default class BinaryWriter {
+    public static readonly MAGIC: Uint8Array = Bytes.fromUtf8("PHE");
+    public static readonly FORMAT: number = 1;
+
+    private parts: Uint8Array[];
+
+    /**
+     * @param {number} type - type code of the encoded object
+     */
+    constructor(type: number) {
+        this.parts = [BinaryWriter.MAGIC, Uint8Array.from([type, BinaryWriter.FORMAT])];
+    }
+
+    /**
+     * Writes a non-negative integer
+     * @param {number} value - the value
+     * @returns {BinaryWriter} The writer
+     */
+    public writeUInt32(value: number): BinaryWriter {
+        this.parts.push(Bytes.fromUInt32(value));
+        return this;
+    }
+
+    /**
+     * Writes bytes prefixed with their length
+     * @param {Uint8Array} value - the bytes
+     * @returns {BinaryWriter} The writer
+     */
+    public writeBytes(value: Uint8Array): BinaryWriter {
+        this.writeUInt32(value.length);
+        this.parts.push(value);
+        return this;
+    }
+
+    /**
+     * Writes a non-negative BigInteger as big-endian bytes
+     * @param {BigInteger} value - the value
+     * @returns {BinaryWriter} The writer
+     */
+    public writeBigInt(value: BigInteger): BinaryWriter {
+        if (value.isNegative()) throw new RangeError("Negative numbers are not supported");
+        return this.writeBytes(value.isZero() ? new Uint8Array(0) : Uint8Array.from(value.toArray(256).value));
+    }
+
+    /**
+     * Writes a list of BigIntegers prefixed with its length
+     * @param {BigInteger[]} values - the values
+     * @returns {BinaryWriter} The writer
+     */
+    public writeBigIntArray(values: BigInteger[]): BinaryWriter {
+        this.writeUInt32(values.length);
+        values.forEach((value) => this.writeBigInt(value));
+        return this;
+    }
+
+    /**
+     * Writes an UTF-8 string
+     * @param {string} value - the value
+     * @returns {BinaryWriter} The writer
+     */
+    public writeString(value: string): BinaryWriter {
+        return this.writeBytes(Bytes.fromUtf8(value));
+    }
+
+    /**
+     * @returns {Uint8Array} All bytes written so far
+     */
+    public toBuffer(): Uint8Array {
+        return Bytes.concat(this.parts);
+    }
+}
@@ -0,0 +1,161 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import BigMath from "./BigMath";
+import Transcript from "./Transcript";
+import RsaPublicKey from "./RsaPublicKey";
+import RsaPrivateKey from "./RsaPrivateKey";
+import EligibilityToken from "./EligibilityToken";
+import ZkpCommitment from "./ZkpCommitment";
+import RandomSource from "./RandomSource";
+
+/**
+ * Chaum's RSA blind signatures with a full-domain hash, used to issue anonymous eligibility tokens.
+ * The voter blinds the token id, a hash of the encrypted ballot, the signer signs it after checking who the voter is,
+ * and the voter unblinds the signature. The signer can't link the token to the blinded request,
+ * so the Aggregator learns only that the ballot comes from an eligible voter.
+ * The token is valid for that ballot only, so a token that leaks can't be used to cast another ballot.
+ * The signing key must be used for tokens only, and all voters must get the same public key.
+ * See the tests for how to use examples
+ */
+export default class BlindSignature {
+    /**
+     * The public exponent
+     */
+    public static readonly E: number = 65537;
+
+    /**
+     * Generates a key pair of the signer
+     * @param {number} [bits=2048] - number of bits of the modulus
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[RsaPublicKey, RsaPrivateKey]} The public and the private key
+     */
+    public static generateKeyPair(bits: number = 2048, source?: RandomSource): [RsaPublicKey, RsaPrivateKey] {
+        if (bits % 16 > 0 || bits < 512) throw new RangeError("Key must be at least 512 bits");
+        let e = bigInt(this.E);
+        let p: BigInteger, q: BigInteger;
+        do {
+            p = BigMath.generateRandomPrime(bits / 2, 50, source);
+            q = BigMath.generateRandomPrime(bits / 2, 50, source);
+        } while (p.equals(q) || p.minus(bigInt.one).isDivisibleBy(e) || q.minus(bigInt.one).isDivisibleBy(e));
+
+        let lambda = bigInt.lcm(p.minus(bigInt.one), q.minus(bigInt.one));
+        return [new RsaPublicKey(p.multiply(q), e), new RsaPrivateKey(e.modInv(lambda))];
+    }
+
+    /**
+     * The token id of an encrypted ballot, the voter encrypts the vote before requesting the token
+     * @param {BigInteger} c - encrypted vote
+     * @param {ZkpCommitment} commitment - proof that the vote is valid
+     * @returns {string} Hex string of the 256 bit hash of the ballot
+     */
+    public static ballotTokenId(c: BigInteger, commitment: ZkpCommitment): string {
+        return new Transcript("phe-voting-js/eligibility-token/v1")
+            .appendBigInt("c", c)
+            .appendBigIntArray("a", commitment.a)
+            .appendBigIntArray("e", commitment.e)
+            .appendBigIntArray("z", commitment.z)
+            .challenge()
+            .toString(16);
+    }
+
+    /**
+     * Blinds a message for the signer, done by the voter
+     * @param {string} message - the message, e.g. a token id
+     * @param {RsaPublicKey} pub - public key of the signer
+     * @param {string} [context=""] - election context the signature is bound to
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, BigInteger]} The blinded message for the signer and the secret blinding factor r
+     */
+    public static blind(
+        message: string,
+        pub: RsaPublicKey,
+        context: string = "",
+        source?: RandomSource,
+    ): [BigInteger, BigInteger] {
+        let r: BigInteger;
+        do {
+            r = BigMath.generateCoprime(pub.n, Math.ceil(pub.n.bitLength().toJSNumber() / 8) * 8, source);
+        } while (r.greaterOrEquals(pub.n) || r.lesserOrEquals(bigInt.one));
+
+        let blinded = this.hash(message, pub, context)
+            .multiply(BigMath.modPow(r, pub.e, pub.n))
+            .mod(pub.n);
+        return [blinded, r];
+    }
+
+    /**
+     * Signs a blinded message, done by the signer after checking that the voter is eligible and didn't get a token yet
+     * @param {BigInteger} blinded - the blinded message
+     * @param {RsaPublicKey} pub - public key of the signer
+     * @param {RsaPrivateKey} priv - private key of the signer
+     * @returns {BigInteger} The blind signature
+     */
+    public static sign(blinded: BigInteger, pub: RsaPublicKey, priv: RsaPrivateKey): BigInteger {
+        if (blinded.lesserOrEquals(bigInt.zero) || blinded.greaterOrEquals(pub.n))
+            throw new RangeError("Blinded message is out of range");
+        return BigMath.modPow(blinded, priv.d, pub.n);
+    }
+
+    /**
+     * Removes the blinding factor from the blind signature and checks the result, done by the voter
+     * @param {BigInteger} blindSignature - signature of the blinded message
+     * @param {BigInteger} r - the blinding factor returned by blind
+     * @param {string} message - the message that was blinded
+     * @param {RsaPublicKey} pub - public key of the signer
+     * @param {string} [context=""] - election context the signature is bound to
+     * @returns {BigInteger} The signature of the message
+     */
+    public static unblind(
+        blindSignature: BigInteger,
+        r: BigInteger,
+        message: string,
+        pub: RsaPublicKey,
+        context: string = "",
+    ): BigInteger {
+        let signature = blindSignature.multiply(r.modInv(pub.n)).mod(pub.n);
+        if (!this.verify(message, signature, pub, context)) throw new Error("Invalid blind signature");
+        return signature;
+    }
+
+    /**
+     * Verifies the signature of a message
+     * @param {string} message - the message
+     * @param {BigInteger} signature - the signature
+     * @param {RsaPublicKey} pub - public key of the signer
+     * @param {string} [context=""] - election context the signature must be bound to
+     * @returns {boolean} true if correct
+     */
+    public static verify(message: string, signature: BigInteger, pub: RsaPublicKey, context: string = ""): boolean {
+        if (signature.lesserOrEquals(bigInt.zero) || signature.greaterOrEquals(pub.n)) return false;
+        return BigMath.modPow(signature, pub.e, pub.n).equals(this.hash(message, pub, context));
+    }
+
+    /**
+     * Verifies the signature of an eligibility token
+     * @param {EligibilityToken} token - the token
+     * @param {RsaPublicKey} pub - public key of the signer
+     * @param {string} [context=""] - election context the token must be bound to
+     * @returns {boolean} true if correct
+     */
+    public static verifyToken(token: EligibilityToken, pub: RsaPublicKey, context: string = ""): boolean {
+        return this.verify(token.tokenId, token.signature, pub, context);
+    }
+
+    /**
+     * Full-domain hash of the message into Z*n, 128 bits longer than n before the reduction so the result is uniform
+     */
+    private static hash(message: string, pub: RsaPublicKey, context: string): BigInteger {
+        let blocks = Math.ceil((pub.n.bitLength().toJSNumber() + 128) / 256);
+        let h = bigInt.zero;
+        for (let i = 0; i < blocks; i++) {
+            let block = new Transcript("phe-voting-js/blind-signature/v1")
+                .appendBigInt("n", pub.n)
+                .appendBigInt("e", pub.e)
+                .appendString("context", context)
+                .appendString("message", message)
+                .appendBigInt("block", bigInt(i))
+                .challenge();
+            h = h.shiftLeft(256).add(block);
+        }
+        return h.mod(pub.n);
+    }
+}
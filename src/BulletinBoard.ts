@@ -0,0 +1,301 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import BigMath from "./BigMath";
+import Paillier from "./Paillier";
+import PublicKey from "./PublicKey";
+import PrivateKey from "./PrivateKey";
+import Transcript from "./Transcript";
+import CastBallot from "./CastBallot";
+import SignedTreeHead from "./SignedTreeHead";
+import InclusionProof from "./InclusionProof";
+import ConsistencyProof from "./ConsistencyProof";
+import WireFormat from "./WireFormat";
+import BinaryWriter from "./BinaryWriter";
+import BinaryReader from "./BinaryReader";
+import Bytes from "./Bytes";
+
+/**
+ * Append-only bulletin board of cast ballots stored in a Merkle log.
+ * The board signs its tree heads, gives voters inclusion proofs for their ballots
+ * and anyone consistency proofs that no ballot was dropped or altered between two tree heads.
+ * https://www.rfc-editor.org/rfc/rfc6962 (Certificate Transparency)
+ * See the tests for how to use examples
+ */
+export default class BulletinBoard {
+    public ballots: CastBallot[];
+    // levels[h][i] is the hash of the complete subtree of the leaves [i * 2^h, (i + 1) * 2^h), levels[0] the leaves
+    private levels: Uint8Array[][];
+    private pub: PublicKey;
+    private priv: PrivateKey;
+
+    /**
+     * @param {PublicKey} pub - public key of the board
+     * @param {PrivateKey} priv - private key of the board to sign the tree heads
+     */
+    constructor(pub: PublicKey, priv: PrivateKey) {
+        this.ballots = new Array<CastBallot>();
+        this.levels = [new Array<Uint8Array>()];
+        this.pub = pub;
+        this.priv = priv;
+    }
+
+    /**
+     * Appends a ballot to the board
+     * @param {CastBallot} ballot - the cast ballot
+     * @returns {number} Index of the ballot
+     */
+    public append(ballot: CastBallot): number {
+        this.ballots.push(ballot);
+        // Hashes every complete subtree that the leaf finishes once
+        let node = BulletinBoard.leafHash(ballot);
+        for (let h = 0; ; h++) {
+            if (this.levels.length == h) this.levels.push(new Array<Uint8Array>());
+            let level = this.levels[h];
+            level.push(node);
+            if (level.length % 2 == 1) break;
+            node = BulletinBoard.nodeHash(level[level.length - 2], node);
+        }
+        return this.ballots.length - 1;
+    }
+
+    /**
+     * Signs the current size and root hash of the board
+     * @returns {SignedTreeHead} The signed tree head
+     */
+    public getTreeHead(): SignedTreeHead {
+        let treeSize = this.levels[0].length;
+        let rootHash = BigMath.bufferToHex(this.rootOf(0, treeSize));
+        let sig = Paillier.createSignature(
+            BulletinBoard.treeHeadMessage(treeSize, rootHash, this.pub),
+            this.pub,
+            this.priv,
+        );
+        return new SignedTreeHead(treeSize, rootHash, sig);
+    }
+
+    /**
+     * Creates a proof that the ballot at index is included in the tree of treeSize leaves
+     * @param {number} index - index of the ballot
+     * @param {number} [treeSize] - size of the tree, the current size by default
+     * @returns {InclusionProof} The inclusion proof
+     */
+    public getInclusionProof(index: number, treeSize: number = this.levels[0].length): InclusionProof {
+        if (treeSize < 1 || treeSize > this.levels[0].length) throw new RangeError("Invalid tree size");
+        if (index < 0 || index >= treeSize) throw new RangeError("Invalid ballot index");
+        let path = this.path(index, 0, treeSize).map((hash) => BigMath.bufferToHex(hash));
+        return new InclusionProof(index, treeSize, path);
+    }
+
+    /**
+     * Creates a proof that the tree of fromSize leaves is a prefix of the tree of toSize leaves
+     * @param {number} fromSize - size of the older tree
+     * @param {number} [toSize] - size of the newer tree, the current size by default
+     * @returns {ConsistencyProof} The consistency proof
+     */
+    public getConsistencyProof(fromSize: number, toSize: number = this.levels[0].length): ConsistencyProof {
+        if (toSize > this.levels[0].length) throw new RangeError("Invalid tree size");
+        if (fromSize < 1 || fromSize > toSize) throw new RangeError("Invalid tree sizes");
+        let path = this.subproof(fromSize, 0, toSize, true).map((hash) => BigMath.bufferToHex(hash));
+        return new ConsistencyProof(fromSize, toSize, path);
+    }
+
+    /**
+     * Encodes all ballots of the board in the compact binary format
+     * @returns {Uint8Array} The bytes
+     */
+    public toBytes(): Uint8Array {
+        let writer = new BinaryWriter(WireFormat.BULLETIN_BOARD).writeUInt32(this.ballots.length);
+        this.ballots.forEach((ballot) => writer.writeBytes(ballot.toBytes()));
+        return writer.toBuffer();
+    }
+
+    /**
+     * Restores a board from the ballots in the compact binary format
+     * @param {Uint8Array} buf - The bytes
+     * @param {PublicKey} pub - public key of the board
+     * @param {PrivateKey} priv - private key of the board to sign the tree heads
+     * @returns {BulletinBoard} The bulletin board
+     */
+    public static fromBytes(buf: Uint8Array, pub: PublicKey, priv: PrivateKey): BulletinBoard {
+        let reader = new BinaryReader(buf, WireFormat.BULLETIN_BOARD);
+        let board = new BulletinBoard(pub, priv);
+        let length = reader.readUInt32();
+        for (let i = 0; i < length; i++) {
+            board.append(CastBallot.fromBytes(reader.readBytes()));
+        }
+        reader.end();
+        return board;
+    }
+
+    /**
+     * Verifies the signature of a tree head
+     * @param {SignedTreeHead} head - the signed tree head
+     * @param {PublicKey} pub - public key of the board
+     * @returns {boolean} true if valid
+     */
+    public static verifyTreeHead(head: SignedTreeHead, pub: PublicKey): boolean {
+        let m = this.treeHeadMessage(head.treeSize, head.rootHash, pub);
+        return Paillier.verifySignature(m, head.signature, pub);
+    }
+
+    /**
+     * Verifies that a ballot is included in the tree of a signed tree head
+     * @param {CastBallot} ballot - the cast ballot
+     * @param {InclusionProof} proof - the inclusion proof
+     * @param {SignedTreeHead} head - the signed tree head
+     * @param {PublicKey} pub - public key of the board
+     * @returns {boolean} true if valid
+     */
+    public static verifyInclusion(
+        ballot: CastBallot,
+        proof: InclusionProof,
+        head: SignedTreeHead,
+        pub: PublicKey,
+    ): boolean {
+        if (proof.treeSize != head.treeSize || proof.index < 0 || proof.index >= proof.treeSize) return false;
+        if (!this.verifyTreeHead(head, pub)) return false;
+
+        // RFC 9162 2.1.3.2
+        let fn = proof.index;
+        let sn = proof.treeSize - 1;
+        let r = this.leafHash(ballot);
+        for (let hex of proof.path) {
+            let p = Bytes.fromHex(hex);
+            if (sn == 0) return false;
+            if (fn % 2 == 1 || fn == sn) {
+                r = this.nodeHash(p, r);
+                while (fn % 2 == 0 && fn != 0) {
+                    fn = Math.floor(fn / 2);
+                    sn = Math.floor(sn / 2);
+                }
+            } else {
+                r = this.nodeHash(r, p);
+            }
+            fn = Math.floor(fn / 2);
+            sn = Math.floor(sn / 2);
+        }
+        return sn == 0 && BigMath.bufferToHex(r) == head.rootHash;
+    }
+
+    /**
+     * Verifies that the board only appended ballots between two signed tree heads
+     * @param {ConsistencyProof} proof - the consistency proof
+     * @param {SignedTreeHead} from - the older signed tree head
+     * @param {SignedTreeHead} to - the newer signed tree head
+     * @param {PublicKey} pub - public key of the board
+     * @returns {boolean} true if valid
+     */
+    public static verifyConsistency(
+        proof: ConsistencyProof,
+        from: SignedTreeHead,
+        to: SignedTreeHead,
+        pub: PublicKey,
+    ): boolean {
+        if (proof.fromSize != from.treeSize || proof.toSize != to.treeSize) return false;
+        if (proof.fromSize < 1 || proof.fromSize > proof.toSize) return false;
+        if (!this.verifyTreeHead(from, pub) || !this.verifyTreeHead(to, pub)) return false;
+        if (proof.fromSize == proof.toSize) return proof.path.length == 0 && from.rootHash == to.rootHash;
+
+        // RFC 9162 2.1.4.2
+        let path = proof.path.map((hex) => Bytes.fromHex(hex));
+        // The old tree is a complete subtree, its root is the first node of the path
+        if ((proof.fromSize & (proof.fromSize - 1)) == 0) path.unshift(Bytes.fromHex(from.rootHash));
+        if (path.length == 0) return false;
+
+        let fn = proof.fromSize - 1;
+        let sn = proof.toSize - 1;
+        while (fn % 2 == 1) {
+            fn = Math.floor(fn / 2);
+            sn = Math.floor(sn / 2);
+        }
+        let fr = path[0];
+        let sr = path[0];
+        for (let i = 1; i < path.length; i++) {
+            if (sn == 0) return false;
+            if (fn % 2 == 1 || fn == sn) {
+                fr = this.nodeHash(path[i], fr);
+                sr = this.nodeHash(path[i], sr);
+                while (fn % 2 == 0 && fn != 0) {
+                    fn = Math.floor(fn / 2);
+                    sn = Math.floor(sn / 2);
+                }
+            } else {
+                sr = this.nodeHash(sr, path[i]);
+            }
+            fn = Math.floor(fn / 2);
+            sn = Math.floor(sn / 2);
+        }
+        return sn == 0 && BigMath.bufferToHex(fr) == from.rootHash && BigMath.bufferToHex(sr) == to.rootHash;
+    }
+
+    /**
+     * Merkle tree hash of the leaves [lo, hi), only the last O(log n) nodes aren't cached
+     */
+    private rootOf(lo: number, hi: number): Uint8Array {
+        let size = hi - lo;
+        if (size == 0) return BigMath.sha256([]);
+        if ((size & (size - 1)) == 0 && lo % size == 0) {
+            let h = 0;
+            while (1 << h < size) h++;
+            return this.levels[h][lo / size];
+        }
+        let k = BulletinBoard.splitPoint(hi - lo);
+        return BulletinBoard.nodeHash(this.rootOf(lo, lo + k), this.rootOf(lo + k, hi));
+    }
+
+    /**
+     * Audit path of the leaf m in the subtree [lo, hi)
+     */
+    private path(m: number, lo: number, hi: number): Uint8Array[] {
+        if (hi - lo <= 1) return [];
+        let k = BulletinBoard.splitPoint(hi - lo);
+        if (m < k) return this.path(m, lo, lo + k).concat([this.rootOf(lo + k, hi)]);
+        return this.path(m - k, lo + k, hi).concat([this.rootOf(lo, lo + k)]);
+    }
+
+    /**
+     * Consistency path between the first m leaves and the subtree [lo, hi)
+     */
+    private subproof(m: number, lo: number, hi: number, complete: boolean): Uint8Array[] {
+        if (m == hi - lo) return complete ? [] : [this.rootOf(lo, hi)];
+        let k = BulletinBoard.splitPoint(hi - lo);
+        if (m <= k) return this.subproof(m, lo, lo + k, complete).concat([this.rootOf(lo + k, hi)]);
+        return this.subproof(m - k, lo + k, hi, false).concat([this.rootOf(lo, lo + k)]);
+    }
+
+    /**
+     * The largest power of two less than n
+     */
+    private static splitPoint(n: number): number {
+        let k = 1;
+        while (k * 2 < n) k *= 2;
+        return k;
+    }
+
+    private static leafHash(ballot: CastBallot): Uint8Array {
+        let parts = [Bytes.fromUtf8(ballot.ballotId), BigMath.bigIntToBuffer(ballot.c)];
+        parts.push(BigMath.bigIntToBuffer(bigInt(ballot.commitment.version)));
+        for (let list of [ballot.commitment.a, ballot.commitment.e, ballot.commitment.z]) {
+            parts.push(BigMath.bigIntToBuffer(bigInt(list.length)));
+            list.forEach((value) => parts.push(BigMath.bigIntToBuffer(value)));
+        }
+
+        // Every part is prefixed with its length so that different ballots can't produce the same leaf
+        let data = new Array<Uint8Array>();
+        for (let part of parts) {
+            data.push(Bytes.fromUInt32(part.length), part);
+        }
+        return BigMath.sha256([Uint8Array.from([0x00])].concat(data));
+    }
+
+    private static nodeHash(left: Uint8Array, right: Uint8Array): Uint8Array {
+        return BigMath.sha256([Uint8Array.from([0x01]), left, right]);
+    }
+
+    private static treeHeadMessage(treeSize: number, rootHash: string, pub: PublicKey): BigInteger {
+        return new Transcript("phe-voting-js/tree-head/v1")
+            .appendBigInt("n", pub.n)
+            .appendBigInt("treeSize", bigInt(treeSize))
+            .appendString("rootHash", rootHash)
+            .challenge();
+    }
+}
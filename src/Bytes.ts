@@ -0,0 +1,131 @@
+/**
+ * Conversions of byte arrays that give the same results on every platform, without the Node.js Buffer
+ */
+export default class Bytes {
+    private static readonly BASE64 = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+    /**
+     * @param {string} s - a string
+     * @returns {Uint8Array} The UTF-8 bytes of the string
+     */
+    public static fromUtf8(s: string): Uint8Array {
+        return new TextEncoder().encode(s);
+    }
+
+    /**
+     * @param {Uint8Array} bytes - UTF-8 bytes
+     * @returns {string} The string, invalid sequences are replaced with U+FFFD
+     */
+    public static toUtf8(bytes: Uint8Array): string {
+        return new TextDecoder().decode(bytes);
+    }
+
+    /**
+     * @param {Uint8Array} bytes - the bytes
+     * @returns {string} The padded base64 string
+     */
+    public static toBase64(bytes: Uint8Array): string {
+        let result = "";
+        for (let i = 0; i < bytes.length; i += 3) {
+            let chunk = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+            result += Bytes.BASE64[(chunk >> 18) & 63] + Bytes.BASE64[(chunk >> 12) & 63];
+            result += i + 1 < bytes.length ? Bytes.BASE64[(chunk >> 6) & 63] : "=";
+            result += i + 2 < bytes.length ? Bytes.BASE64[chunk & 63] : "=";
+        }
+        return result;
+    }
+
+    /**
+     * Decodes a base64 string, the padding is optional. Decoding stops at the first invalid character.
+     * @param {string} b64 - the base64 string
+     * @returns {Uint8Array} The bytes
+     */
+    public static fromBase64(b64: string): Uint8Array {
+        let result = new Array<number>();
+        let bits = 0;
+        let count = 0;
+        for (let i = 0; i < b64.length; i++) {
+            let value = Bytes.BASE64.indexOf(b64[i]);
+            if (value < 0) break;
+            bits = (bits << 6) | value;
+            count += 6;
+            if (count >= 8) {
+                count -= 8;
+                result.push((bits >> count) & 0xff);
+            }
+        }
+        return Uint8Array.from(result);
+    }
+
+    /**
+     * @param {Uint8Array} bytes - the bytes
+     * @returns {string} Lower case hex string
+     */
+    public static toHex(bytes: Uint8Array): string {
+        let result = "";
+        for (let i = 0; i < bytes.length; i++) result += (bytes[i] < 16 ? "0" : "") + bytes[i].toString(16);
+        return result;
+    }
+
+    /**
+     * Decodes a hex string. Decoding stops at the first invalid pair of characters.
+     * @param {string} hex - the hex string
+     * @returns {Uint8Array} The bytes
+     */
+    public static fromHex(hex: string): Uint8Array {
+        let result = new Array<number>();
+        for (let i = 0; i + 1 < hex.length; i += 2) {
+            let pair = hex.substr(i, 2);
+            if (!/^[0-9a-fA-F]{2}$/.test(pair)) break;
+            result.push(parseInt(pair, 16));
+        }
+        return Uint8Array.from(result);
+    }
+
+    /**
+     * @param {Uint8Array[]} list - byte arrays
+     * @returns {Uint8Array} The concatenation of the byte arrays
+     */
+    public static concat(list: Uint8Array[]): Uint8Array {
+        let result = new Uint8Array(list.reduce((length, bytes) => length + bytes.length, 0));
+        let offset = 0;
+        for (let bytes of list) {
+            result.set(bytes, offset);
+            offset += bytes.length;
+        }
+        return result;
+    }
+
+    /**
+     * @param {Uint8Array} a - byte array
+     * @param {Uint8Array} b - byte array
+     * @returns {boolean} true if the arrays have the same bytes
+     */
+    public static equals(a: Uint8Array, b: Uint8Array): boolean {
+        if (a.length != b.length) return false;
+        for (let i = 0; i < a.length; i++) {
+            if (a[i] != b[i]) return false;
+        }
+        return true;
+    }
+
+    /**
+     * @param {number} value - non-negative 32 bit integer
+     * @returns {Uint8Array} The 4 bytes of the integer in big-endian
+     */
+    public static fromUInt32(value: number): Uint8Array {
+        if (!Number.isSafeInteger(value) || value < 0 || value > 0xffffffff)
+            throw new RangeError(`The value ${value} is out of the 32 bit range`);
+        return Uint8Array.from([value >>> 24, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]);
+    }
+
+    /**
+     * @param {Uint8Array} bytes - the bytes
+     * @param {number} [offset=0] - where the integer starts
+     * @returns {number} The 32 bit big-endian integer
+     */
+    public static toUInt32(bytes: Uint8Array, offset: number = 0): number {
+        if (offset + 4 > bytes.length) throw new RangeError("Unexpected end of data");
+        return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+    }
+}
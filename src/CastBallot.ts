@@ -0,0 +1,56 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import BinaryWriter from "./BinaryWriter";
+import BinaryReader from "./BinaryReader";
+import ZkpCommitment from "./ZkpCommitment";
+
+/**
+ * An encrypted ballot as cast by a voter together with the proof of its validity
+ */
+export default class CastBallot {
+    public ballotId: string;
+    public c: BigInteger;
+    public commitment: ZkpCommitment;
+
+    constructor(ballotId: string, c: BigInteger, commitment: ZkpCommitment) {
+        this.ballotId = ballotId;
+        this.c = c;
+        this.commitment = commitment;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("CastBallot");
+        o.ballotId = this.ballotId;
+        o.c = WireFormat.encodeBigInt(this.c);
+        o.commitment = this.commitment;
+        return o;
+    }
+
+    public toBytes(): Uint8Array {
+        return new BinaryWriter(WireFormat.CAST_BALLOT)
+            .writeString(this.ballotId)
+            .writeBigInt(this.c)
+            .writeBytes(this.commitment.toBytes())
+            .toBuffer();
+    }
+
+    public static from(o: any): CastBallot {
+        WireFormat.checkHeader(o, "CastBallot");
+        return new CastBallot(
+            WireFormat.decodeString(o.ballotId, "ballotId"),
+            WireFormat.decodeBigInt(o.c, "c"),
+            ZkpCommitment.from(o.commitment),
+        );
+    }
+
+    public static fromBytes(buf: Uint8Array): CastBallot {
+        let reader = new BinaryReader(buf, WireFormat.CAST_BALLOT);
+        let ballot = new CastBallot(
+            reader.readString(),
+            reader.readBigInt(),
+            ZkpCommitment.fromBytes(reader.readBytes()),
+        );
+        reader.end();
+        return ballot;
+    }
+}
@@ -0,0 +1,34 @@
+import WireFormat from "./WireFormat";
+
+/**
+ * Proof that the Merkle tree of fromSize leaves is a prefix of the tree of toSize leaves,
+ * i.e. that the bulletin board only appended ballots between the two tree heads
+ */
+export default class ConsistencyProof {
+    public fromSize: number;
+    public toSize: number;
+    public path: string[];
+
+    constructor(fromSize: number, toSize: number, path: string[]) {
+        this.fromSize = fromSize;
+        this.toSize = toSize;
+        this.path = path;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("ConsistencyProof");
+        o.fromSize = this.fromSize;
+        o.toSize = this.toSize;
+        o.path = this.path;
+        return o;
+    }
+
+    public static from(o: any): ConsistencyProof {
+        WireFormat.checkHeader(o, "ConsistencyProof");
+        return new ConsistencyProof(
+            WireFormat.decodeInteger(o.fromSize, "fromSize"),
+            WireFormat.decodeInteger(o.toSize, "toSize"),
+            WireFormat.decodeArray(o.path, "path", (hash) => WireFormat.decodeString(hash, "path")),
+        );
+    }
+}
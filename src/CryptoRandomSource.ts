@@ -0,0 +1,11 @@
+import Platform from "./Platform";
+import RandomSource from "./RandomSource";
+
+/**
+ * The default random source, the CSPRNG of the platform: the Node.js crypto module or WebCrypto getRandomValues
+ */
+export default class CryptoRandomSource implements RandomSource {
+    public randomBytes(length: number): Uint8Array {
+        return Platform.randomBytes(length);
+    }
+}
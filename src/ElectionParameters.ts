@@ -0,0 +1,138 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import PublicKey from "./PublicKey";
+import VoteEncoder from "./VoteEncoder";
+import WireFormat from "./WireFormat";
+
+/**
+ * Sizing of an election: the number of choices and bins and the bits reserved per choice.
+ * The bits per choice are computed from the worst case tally so that a slot never overflows into the next one.
+ * The method tells how the votes are counted: single choice (also multiple choice and weighted), Borda count
+ * where a slot can reach (numChoices - 1) * voters, or Condorcet with a slot for every pair of choices.
+ */
+export default class ElectionParameters {
+    public numChoices: number;
+    public maxVotes: number;
+    public numBins: number;
+    public bitsPerChoice: number;
+    public method: "single" | "borda" | "condorcet";
+
+    /**
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} maxVotes - The maximum value of a slot: the number of voters or the total weight for weighted voting
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @param {string} [method="single"] - How the votes are counted: "single", "borda" or "condorcet"
+     */
+    constructor(
+        numChoices: number,
+        maxVotes: number,
+        numBins: number = 0,
+        method: "single" | "borda" | "condorcet" = "single",
+    ) {
+        if (numChoices < 2) throw new RangeError("Invalid choices");
+        if (maxVotes < 1 || !Number.isSafeInteger(maxVotes)) throw new RangeError("Invalid number of votes");
+        if (numBins < 0) throw new RangeError("Invalid bins");
+        if (["single", "borda", "condorcet"].indexOf(method) < 0) throw new RangeError(`Invalid method ${method}`);
+        this.numChoices = numChoices;
+        this.maxVotes = maxVotes;
+        this.numBins = numBins;
+        this.bitsPerChoice = VoteEncoder.getBitsPerChoice(maxVotes);
+        this.method = method;
+    }
+
+    /**
+     * Creates the parameters for Borda count, where the slot of a choice can reach (numChoices - 1) * numVoters
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} numVoters - The maximum number of voters
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @returns {ElectionParameters} The parameters
+     */
+    public static borda(numChoices: number, numVoters: number, numBins: number = 0): ElectionParameters {
+        if (numVoters < 1) throw new RangeError("Invalid number of votes");
+        return new ElectionParameters(numChoices, (numChoices - 1) * numVoters, numBins, "borda");
+    }
+
+    /**
+     * Creates the parameters for pairwise (Condorcet) preferences, with a slot for every pair of choices
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} numVoters - The maximum number of voters
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @returns {ElectionParameters} The parameters
+     */
+    public static condorcet(numChoices: number, numVoters: number, numBins: number = 0): ElectionParameters {
+        return new ElectionParameters(numChoices, numVoters, numBins, "condorcet");
+    }
+
+    /**
+     * Calculates the bits required to encode all choices in all bins
+     * @returns {number} Number of bits
+     */
+    public getTotalVotesBits(): number {
+        return VoteEncoder.getTotalVotesBits(this.getSlots(), this.numBins, this.bitsPerChoice);
+    }
+
+    /**
+     * Checks if the worst case tally fits in the message space of a public key
+     * @param {PublicKey} pub - public key
+     * @returns {boolean} True if the tally fits
+     */
+    public fitsKey(pub: PublicKey): boolean {
+        // Every message must be less than n, so it has to be shorter than n
+        return this.getTotalVotesBits() < pub.n.bitLength().toJSNumber();
+    }
+
+    /**
+     * Throws if the worst case tally doesn't fit in the message space of a public key
+     * @param {PublicKey} pub - public key
+     */
+    public validateKey(pub: PublicKey) {
+        if (!this.fitsKey(pub))
+            throw new RangeError(
+                `${this.getTotalVotesBits()} bits are required but the key is ${pub.n.bitLength()} bits long`,
+            );
+    }
+
+    /**
+     * Throws if a decrypted tally shows overflow: a slot above maxVotes or bits beyond the last slot
+     * @param {BigInteger} encoded - The encoded big integer
+     */
+    public checkOverflow(encoded: BigInteger) {
+        let numSlots = this.getSlots() * Math.max(this.numBins, 1);
+        if (encoded.isNegative() || encoded.shiftRight(numSlots * this.bitsPerChoice).notEquals(bigInt.zero))
+            throw new RangeError("Overflow detected beyond the last choice");
+
+        let mask = bigInt.one.shiftLeft(this.bitsPerChoice).minus(bigInt.one);
+        for (let slot = 0; slot < numSlots; slot++) {
+            let value = encoded.shiftRight(slot * this.bitsPerChoice).and(mask);
+            if (value.greater(this.maxVotes)) throw new RangeError(`Overflow detected in slot ${slot}`);
+        }
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("ElectionParameters");
+        o.numChoices = this.numChoices;
+        o.maxVotes = this.maxVotes;
+        o.numBins = this.numBins;
+        o.method = this.method;
+        return o;
+    }
+
+    public static from(o: any): ElectionParameters {
+        WireFormat.checkHeader(o, "ElectionParameters");
+        let method = WireFormat.decodeString(o.method, "method");
+        if (method != "single" && method != "borda" && method != "condorcet")
+            throw new RangeError(`Invalid method ${method}`);
+        return new ElectionParameters(
+            WireFormat.decodeInteger(o.numChoices, "numChoices"),
+            WireFormat.decodeInteger(o.maxVotes, "maxVotes"),
+            WireFormat.decodeInteger(o.numBins, "numBins"),
+            method,
+        );
+    }
+
+    /**
+     * Number of slots in a bin: a slot for every choice, or for every pair of choices with Condorcet
+     */
+    private getSlots(): number {
+        return this.method == "condorcet" ? this.numChoices * this.numChoices : this.numChoices;
+    }
+}
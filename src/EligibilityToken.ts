@@ -0,0 +1,35 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * A one-time token that lets a voter cast a ballot without revealing who the voter is.
+ * The signature is a blind signature of the signer on the token id, see BlindSignature.ballotTokenId
+ */
+export default class EligibilityToken {
+    public tokenId: string;
+    public signature: BigInteger;
+
+    /**
+     * @param {string} tokenId - id of the ballot the token is issued for
+     * @param {BigInteger} signature - unblinded signature on the token id
+     */
+    constructor(tokenId: string, signature: BigInteger) {
+        this.tokenId = tokenId;
+        this.signature = signature;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("EligibilityToken");
+        o.tokenId = this.tokenId;
+        o.signature = WireFormat.encodeBigInt(this.signature);
+        return o;
+    }
+
+    public static from(o: any): EligibilityToken {
+        WireFormat.checkHeader(o, "EligibilityToken");
+        return new EligibilityToken(
+            WireFormat.decodeString(o.tokenId, "tokenId"),
+            WireFormat.decodeBigInt(o.signature, "signature"),
+        );
+    }
+}
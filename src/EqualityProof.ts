@@ -0,0 +1,39 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * A zero-knowledge proof that two values have the same discrete logarithm to two bases,
+ * e.g. that a partial decryption is made with the key share behind a verification key
+ */
+export default class EqualityProof {
+    public a: BigInteger;
+    public b: BigInteger;
+    public e: BigInteger;
+    public z: BigInteger;
+
+    constructor(a: BigInteger, b: BigInteger, e: BigInteger, z: BigInteger) {
+        this.a = a;
+        this.b = b;
+        this.e = e;
+        this.z = z;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("EqualityProof");
+        o.a = WireFormat.encodeBigInt(this.a);
+        o.b = WireFormat.encodeBigInt(this.b);
+        o.e = WireFormat.encodeBigInt(this.e);
+        o.z = WireFormat.encodeBigInt(this.z);
+        return o;
+    }
+
+    public static from(o: any): EqualityProof {
+        WireFormat.checkHeader(o, "EqualityProof");
+        return new EqualityProof(
+            WireFormat.decodeBigInt(o.a, "a"),
+            WireFormat.decodeBigInt(o.b, "b"),
+            WireFormat.decodeBigInt(o.e, "e"),
+            WireFormat.decodeBigInt(o.z, "z"),
+        );
+    }
+}
@@ -0,0 +1,33 @@
+import WireFormat from "./WireFormat";
+
+/**
+ * Audit path proving that a ballot is the leaf at index in the Merkle tree of treeSize leaves
+ */
+export default class InclusionProof {
+    public index: number;
+    public treeSize: number;
+    public path: string[];
+
+    constructor(index: number, treeSize: number, path: string[]) {
+        this.index = index;
+        this.treeSize = treeSize;
+        this.path = path;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("InclusionProof");
+        o.index = this.index;
+        o.treeSize = this.treeSize;
+        o.path = this.path;
+        return o;
+    }
+
+    public static from(o: any): InclusionProof {
+        WireFormat.checkHeader(o, "InclusionProof");
+        return new InclusionProof(
+            WireFormat.decodeInteger(o.index, "index"),
+            WireFormat.decodeInteger(o.treeSize, "treeSize"),
+            WireFormat.decodeArray(o.path, "path", (hash) => WireFormat.decodeString(hash, "path")),
+        );
+    }
+}
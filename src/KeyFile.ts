@@ -0,0 +1,260 @@
+import BigMath from "./BigMath";
+import Platform from "./Platform";
+import Bytes from "./Bytes";
+import WireFormat from "./WireFormat";
+import PublicKey from "./PublicKey";
+import PrivateKey from "./PrivateKey";
+import Paillier from "./Paillier";
+
+/**
+ * Password protected file format for a PrivateKey together with its PublicKey and a key id.
+ * The encryption key is derived from the password with scrypt and the private key is encrypted with AES-256-GCM.
+ * The header (version, key id, public key and KDF parameters) is authenticated as well.
+ * See the tests for how to use examples
+ */
+export default class KeyFile {
+    public static readonly VERSION: number = 1;
+    /**
+     * Default scrypt cost parameter N
+     */
+    public static readonly DEFAULT_COST: number = 1 << 15;
+    /**
+     * Upper bounds of the scrypt parameters N, r and p accepted from a key file
+     */
+    public static readonly MAX_COST: number = 1 << 20;
+    public static readonly MAX_BLOCK_SIZE: number = 32;
+    public static readonly MAX_PARALLELIZATION: number = 16;
+    /**
+     * Upper bound of 128 * N * r * p, the memory of a single scrypt run times the number of runs
+     */
+    public static readonly MAX_WORK: number = 1 << 30;
+    /**
+     * Lengths in bytes of the salt, the AES-GCM nonce and tag and the key check
+     */
+    private static readonly SALT_LENGTH: number = 16;
+    private static readonly IV_LENGTH: number = 12;
+    private static readonly TAG_LENGTH: number = 16;
+    private static readonly KEY_CHECK_LENGTH: number = 32;
+
+    public version: number;
+    public keyId: string;
+    public pub: PublicKey;
+    public kdf: string;
+    public cost: number;
+    public blockSize: number;
+    public parallelization: number;
+    public salt: string;
+    public iv: string;
+    public keyCheck: string;
+    public ciphertext: string;
+    public tag: string;
+
+    constructor(
+        version: number,
+        keyId: string,
+        pub: PublicKey,
+        kdf: string,
+        cost: number,
+        blockSize: number,
+        parallelization: number,
+        salt: string,
+        iv: string,
+        keyCheck: string,
+        ciphertext: string,
+        tag: string,
+    ) {
+        this.version = version;
+        this.keyId = keyId;
+        this.pub = pub;
+        this.kdf = kdf;
+        this.cost = cost;
+        this.blockSize = blockSize;
+        this.parallelization = parallelization;
+        this.salt = salt;
+        this.iv = iv;
+        this.keyCheck = keyCheck;
+        this.ciphertext = ciphertext;
+        this.tag = tag;
+    }
+
+    /**
+     * Encrypts a private key with a password
+     * @param {PublicKey} pub - public key
+     * @param {PrivateKey} priv - private key
+     * @param {string} password - the password
+     * @param {string} [keyId] - id of the key, derived from the public key by default
+     * @param {number} [cost=KeyFile.DEFAULT_COST] - scrypt cost parameter N, a power of 2
+     * @returns {KeyFile} The key file
+     */
+    public static encrypt(
+        pub: PublicKey,
+        priv: PrivateKey,
+        password: string,
+        keyId: string = KeyFile.keyIdOf(pub),
+        cost: number = KeyFile.DEFAULT_COST,
+    ): KeyFile {
+        if (!this.matches(pub, priv)) throw new Error("Private key doesn't match the public key");
+        let crypto = this.nodeCrypto();
+        let salt = BigMath.randomBytes(this.SALT_LENGTH);
+        let iv = BigMath.randomBytes(this.IV_LENGTH);
+        let file = new KeyFile(
+            this.VERSION,
+            keyId,
+            pub,
+            "scrypt",
+            cost,
+            8,
+            1,
+            Bytes.toBase64(salt),
+            Bytes.toBase64(iv),
+            "",
+            "",
+            "",
+        );
+
+        let [encKey, checkKey] = file.deriveKeys(password);
+        file.keyCheck = Bytes.toBase64(this.keyCheckOf(checkKey));
+
+        let cipher = crypto.createCipheriv("aes-256-gcm", encKey, iv);
+        cipher.setAAD(file.header());
+        let ciphertext = Bytes.concat([cipher.update(Bytes.fromUtf8(JSON.stringify(priv))), cipher.final()]);
+        file.ciphertext = Bytes.toBase64(ciphertext);
+        file.tag = Bytes.toBase64(cipher.getAuthTag());
+        return file;
+    }
+
+    /**
+     * Decrypts the private key with a password
+     * @param {string} password - the password
+     * @returns {PrivateKey} The private key
+     */
+    public decrypt(password: string): PrivateKey {
+        if (this.version != KeyFile.VERSION) throw new Error(`Unsupported key file version ${this.version}`);
+        if (this.kdf != "scrypt") throw new Error(`Unsupported key derivation function ${this.kdf}`);
+
+        let keyCheck = WireFormat.decodeBytes(this.keyCheck, "keyCheck", KeyFile.KEY_CHECK_LENGTH);
+        let iv = WireFormat.decodeBytes(this.iv, "iv", KeyFile.IV_LENGTH);
+        let tag = WireFormat.decodeBytes(this.tag, "tag", KeyFile.TAG_LENGTH);
+        let ciphertext = WireFormat.decodeBytes(this.ciphertext, "ciphertext");
+
+        let crypto = KeyFile.nodeCrypto();
+        let [encKey, checkKey] = this.deriveKeys(password);
+        if (!crypto.timingSafeEqual(keyCheck, KeyFile.keyCheckOf(checkKey))) throw new Error("Wrong password");
+
+        let plaintext: Uint8Array;
+        try {
+            let decipher = crypto.createDecipheriv("aes-256-gcm", encKey, iv);
+            decipher.setAAD(this.header());
+            decipher.setAuthTag(tag);
+            plaintext = Bytes.concat([decipher.update(ciphertext), decipher.final()]);
+        } catch (e) {
+            throw new Error("Key file is corrupted or tampered");
+        }
+        let priv = PrivateKey.from(JSON.parse(Bytes.toUtf8(plaintext)));
+        if (!KeyFile.matches(this.pub, priv)) throw new Error("Private key doesn't match the public key");
+        return priv;
+    }
+
+    /**
+     * Derives the default key id from a public key
+     * @param {PublicKey} pub - public key
+     * @returns {string} The key id
+     */
+    public static keyIdOf(pub: PublicKey): string {
+        let hash = BigMath.sha256([BigMath.bigIntToBuffer(pub.n), BigMath.bigIntToBuffer(pub.g)]);
+        return BigMath.bufferToHex(hash.slice(0, 8));
+    }
+
+    /**
+     * Derives the encryption key and the key used to check the password
+     */
+    private deriveKeys(password: string): [Uint8Array, Uint8Array] {
+        if (!Number.isSafeInteger(this.cost) || this.cost < 2 || this.cost > KeyFile.MAX_COST)
+            throw new RangeError("Invalid scrypt cost");
+        if ((this.cost & (this.cost - 1)) != 0) throw new RangeError("Invalid scrypt cost");
+        if (!Number.isSafeInteger(this.blockSize) || this.blockSize < 1 || this.blockSize > KeyFile.MAX_BLOCK_SIZE)
+            throw new RangeError("Invalid scrypt block size");
+        let p = this.parallelization;
+        if (!Number.isSafeInteger(p) || p < 1 || p > KeyFile.MAX_PARALLELIZATION)
+            throw new RangeError("Invalid scrypt parallelization");
+        if (128 * this.cost * this.blockSize * p > KeyFile.MAX_WORK)
+            throw new RangeError("scrypt parameters exceed the memory and time limit");
+
+        let salt = WireFormat.decodeBytes(this.salt, "salt", KeyFile.SALT_LENGTH);
+        let key = KeyFile.nodeCrypto().scryptSync(password, salt, 64, {
+            N: this.cost,
+            r: this.blockSize,
+            p: this.parallelization,
+            maxmem: 256 * this.cost * this.blockSize,
+        });
+        return [new Uint8Array(key.subarray(0, 32)), new Uint8Array(key.subarray(32))];
+    }
+
+    /**
+     * All fields except the encrypted key, authenticated by AES-GCM
+     */
+    private header(): Uint8Array {
+        return Bytes.fromUtf8(
+            JSON.stringify([
+                this.version,
+                this.keyId,
+                this.pub,
+                this.kdf,
+                this.cost,
+                this.blockSize,
+                this.parallelization,
+                this.salt,
+                this.keyCheck,
+            ]),
+        );
+    }
+
+    /**
+     * Checks that the private key decrypts a random message encrypted with the public key
+     */
+    private static matches(pub: PublicKey, priv: PrivateKey): boolean {
+        let m = BigMath.generateRandom(pub.n.bitLength().toJSNumber()).mod(pub.n);
+        try {
+            return Paillier.decrypt(Paillier.encrypt(m, pub), pub, priv).equals(m);
+        } catch (e) {
+            return false;
+        }
+    }
+
+    private static keyCheckOf(checkKey: Uint8Array): Uint8Array {
+        return Platform.hmacSha256(checkKey, Bytes.fromUtf8("phe-voting-js/key-check/v1"));
+    }
+
+    /**
+     * Key files need scrypt and AES-GCM of the Node.js crypto module
+     */
+    private static nodeCrypto(): typeof import("crypto") {
+        let crypto = Platform.nodeModule("crypto");
+        if (crypto === undefined) throw new Error("Key files are only supported on Node.js");
+        return crypto;
+    }
+
+    public static from(o: any): KeyFile {
+        if (o === null || typeof o != "object" || Array.isArray(o)) throw new TypeError("KeyFile must be an object");
+        // The encoded fields are kept as they are, the header authenticates them as strings
+        WireFormat.decodeBytes(o.salt, "salt", this.SALT_LENGTH);
+        WireFormat.decodeBytes(o.iv, "iv", this.IV_LENGTH);
+        WireFormat.decodeBytes(o.keyCheck, "keyCheck", this.KEY_CHECK_LENGTH);
+        WireFormat.decodeBytes(o.ciphertext, "ciphertext");
+        WireFormat.decodeBytes(o.tag, "tag", this.TAG_LENGTH);
+        return new KeyFile(
+            WireFormat.decodeInteger(o.version, "version"),
+            WireFormat.decodeString(o.keyId, "keyId"),
+            PublicKey.from(o.pub),
+            WireFormat.decodeString(o.kdf, "kdf"),
+            o.cost,
+            o.blockSize,
+            o.parallelization,
+            o.salt,
+            o.iv,
+            o.keyCheck,
+            o.ciphertext,
+            o.tag,
+        );
+    }
+}
@@ -0,0 +1,37 @@
+import RandomSource from "./RandomSource";
+
+/**
+ * Progress of an async key generation, reported after every tested prime candidate
+ */
+export interface KeyGenerationProgress {
+    /**
+     * The prime being searched for
+     */
+    phase: "p" | "q";
+    /**
+     * Number of candidates tested so far in the whole key generation
+     */
+    candidates: number;
+}
+
+/**
+ * Options of Paillier.generateKeyPairAsync
+ */
+export default interface KeyGenerationOptions {
+    /**
+     * Use safe primes, much slower
+     */
+    safe?: boolean;
+    /**
+     * Called after every tested prime candidate
+     */
+    onProgress?: (progress: KeyGenerationProgress) => void;
+    /**
+     * Cancels the key generation, which then rejects with the reason of the signal
+     */
+    signal?: AbortSignal;
+    /**
+     * Source of the randomness, the one of BigMath.useRandomSource by default
+     */
+    random?: RandomSource;
+}
@@ -0,0 +1,38 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * A share of the decryption key in the threshold Paillier system held by a single trustee
+ */
+export default class KeyShare {
+    public index: number;
+    public s: BigInteger;
+    public threshold: number;
+    public numShares: number;
+
+    constructor(index: number, s: BigInteger, threshold: number, numShares: number) {
+        this.index = index;
+        this.s = s;
+        this.threshold = threshold;
+        this.numShares = numShares;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("KeyShare");
+        o.index = this.index;
+        o.s = WireFormat.encodeBigInt(this.s);
+        o.threshold = this.threshold;
+        o.numShares = this.numShares;
+        return o;
+    }
+
+    public static from(o: any): KeyShare {
+        WireFormat.checkHeader(o, "KeyShare");
+        return new KeyShare(
+            WireFormat.decodeInteger(o.index, "index"),
+            WireFormat.decodeBigInt(o.s, "s"),
+            WireFormat.decodeInteger(o.threshold, "threshold"),
+            WireFormat.decodeInteger(o.numShares, "numShares"),
+        );
+    }
+}
@@ -0,0 +1,208 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import BigMath from "./BigMath";
+import Transcript from "./Transcript";
+import RandomSource from "./RandomSource";
+import WireFormat from "./WireFormat";
+import ZkpCommitment from "./ZkpCommitment";
+import RingSignature from "./RingSignature";
+
+/**
+ * Linkable spontaneous anonymous group signatures (LSAG, Liu, Wei and Wong 2004) in the subgroup of quadratic residues
+ * of the 2048 bit MODP group of RFC 3526. Voters sign their ballots with the public list of eligible voter keys
+ * as the ring, so no registration authority has to be online. The link tag h^x, where h is derived from the context,
+ * is the same for all signatures of a voter in an election, so a second ballot of the same voter is detected.
+ * https://eprint.iacr.org/2004/027.pdf
+ * See the tests for how to use examples
+ */
+export default class LinkableRingSignature {
+    /**
+     * The safe prime p of the group
+     */
+    public static readonly P: BigInteger = bigInt(
+        "ffffffffffffffffc90fdaa22168c234c4c6628b80dc1cd129024e088a67cc74020bbea63b139b22514a08798e3404dd" +
+            "ef9519b3cd3a431b302b0a6df25f14374fe1356d6d51c245e485b576625e7ec6f44c42e9a637ed6b0bff5cb6f406b7ed" +
+            "ee386bfb5a899fa5ae9f24117c4b1fe649286651ece45b3dc2007cb8a163bf0598da48361c55d39a69163fa8fd24cf5f" +
+            "83655d23dca3ad961c62f356208552bb9ed529077096966d670c354e4abc9804f1746c08ca18217c32905e462e36ce3b" +
+            "e39e772c180e86039b2783a2ec07a28fb5c55df06f4c52c9de2bcbf6955817183995497cea956ae515d2261898fa0510" +
+            "15728e5a8aacaa68ffffffffffffffff",
+        16,
+    );
+
+    /**
+     * The prime order q = (p - 1) / 2 of the subgroup
+     */
+    public static readonly Q: BigInteger = LinkableRingSignature.P.minus(bigInt.one).shiftRight(1);
+
+    /**
+     * The generator of the subgroup
+     */
+    public static readonly G: BigInteger = bigInt(2);
+
+    /**
+     * Generates the key pair of a voter
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, BigInteger]} The public key y = g^x mod p and the private key x
+     */
+    public static generateKeyPair(source?: RandomSource): [BigInteger, BigInteger] {
+        let x = this.randomExponent(source);
+        return [BigMath.modPow(this.G, x, this.P), x];
+    }
+
+    /**
+     * Signs a message with a ring of public keys that contains the public key of the signer
+     * @param {string} message - the message
+     * @param {BigInteger[]} ring - public keys of the ring
+     * @param {BigInteger} priv - private key of the signer
+     * @param {string} [context=""] - context of the link tags, e.g. the election id
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {RingSignature} The signature
+     */
+    public static sign(
+        message: string,
+        ring: BigInteger[],
+        priv: BigInteger,
+        context: string = "",
+        source?: RandomSource,
+    ): RingSignature {
+        let pub = BigMath.modPow(this.G, priv, this.P);
+        let index = ring.findIndex((y) => y.equals(pub));
+        if (index < 0) throw new Error("The signer is not in the ring");
+        if (!ring.every((y) => this.isGroupElement(y))) throw new RangeError("Invalid public key in the ring");
+
+        let n = ring.length;
+        let h = this.linkBase(context);
+        let tag = BigMath.modPow(h, priv, this.P);
+        let c = new Array<BigInteger>(n);
+        let s = new Array<BigInteger>(n);
+
+        let u = this.randomExponent(source);
+        c[(index + 1) % n] = this.challenge(message, ring, tag, context, [
+            BigMath.modPow(this.G, u, this.P),
+            BigMath.modPow(h, u, this.P),
+        ]);
+        for (let k = 1; k < n; k++) {
+            let i = (index + k) % n;
+            s[i] = this.randomExponent(source);
+            c[(i + 1) % n] = this.challenge(message, ring, tag, context, this.commitments(ring[i], h, tag, s[i], c[i]));
+        }
+        s[index] = BigMath.positiveMod(u.minus(priv.multiply(c[index])), this.Q);
+
+        return new RingSignature(c[0], s, tag);
+    }
+
+    /**
+     * Verifies that the message is signed by the owner of one of the keys of the ring
+     * @param {string} message - the message
+     * @param {BigInteger[]} ring - public keys of the ring
+     * @param {RingSignature} signature - the signature
+     * @param {string} [context=""] - context of the link tags, e.g. the election id
+     * @returns {boolean} true if correct
+     */
+    public static verify(message: string, ring: BigInteger[], signature: RingSignature, context: string = ""): boolean {
+        if (ring.length == 0 || signature.s.length != ring.length) return false;
+        if (!ring.every((y) => this.isGroupElement(y)) || !this.isGroupElement(signature.tag)) return false;
+        if (!signature.s.every((si) => this.isExponent(si)) || !this.isExponent(signature.c)) return false;
+
+        let h = this.linkBase(context);
+        let c = signature.c;
+        for (let i = 0; i < ring.length; i++) {
+            let commitments = this.commitments(ring[i], h, signature.tag, signature.s[i], c);
+            c = this.challenge(message, ring, signature.tag, context, commitments);
+        }
+        return c.equals(signature.c);
+    }
+
+    /**
+     * Checks if both signatures are made by the same signer in the same context
+     * @param {RingSignature} a - a signature
+     * @param {RingSignature} b - another signature
+     * @returns {boolean} true if the link tags are the same
+     */
+    public static isLinked(a: RingSignature, b: RingSignature): boolean {
+        return a.isLinked(b);
+    }
+
+    /**
+     * The message a voter signs for a ballot
+     * @param {BigInteger} c - encrypted vote
+     * @param {ZkpCommitment} commitment - proof that the vote is valid
+     * @returns {string} The message
+     */
+    public static ballotMessage(c: BigInteger, commitment: ZkpCommitment): string {
+        return JSON.stringify([WireFormat.encodeBigInt(c), commitment]);
+    }
+
+    /**
+     * g^s y^c and h^s tag^c
+     */
+    private static commitments(
+        y: BigInteger,
+        h: BigInteger,
+        tag: BigInteger,
+        s: BigInteger,
+        c: BigInteger,
+    ): [BigInteger, BigInteger] {
+        return [
+            BigMath.modPow(this.G, s, this.P)
+                .multiply(BigMath.modPow(y, c, this.P))
+                .mod(this.P),
+            BigMath.modPow(h, s, this.P)
+                .multiply(BigMath.modPow(tag, c, this.P))
+                .mod(this.P),
+        ];
+    }
+
+    private static challenge(
+        message: string,
+        ring: BigInteger[],
+        tag: BigInteger,
+        context: string,
+        commitments: [BigInteger, BigInteger],
+    ): BigInteger {
+        return new Transcript("phe-voting-js/lsag/v1")
+            .appendString("context", context)
+            .appendBigIntArray("ring", ring)
+            .appendBigInt("tag", tag)
+            .appendString("message", message)
+            .appendBigInt("gs", commitments[0])
+            .appendBigInt("hs", commitments[1])
+            .challenge();
+    }
+
+    /**
+     * Hashes the context to an element h of the subgroup with unknown discrete logarithm
+     */
+    private static linkBase(context: string): BigInteger {
+        let blocks = Math.ceil((this.P.bitLength().toJSNumber() + 128) / 256);
+        let value = bigInt.zero;
+        for (let i = 0; i < blocks; i++) {
+            let block = new Transcript("phe-voting-js/lsag-link/v1")
+                .appendString("context", context)
+                .appendBigInt("block", bigInt(i))
+                .challenge();
+            value = value.shiftLeft(256).add(block);
+        }
+        // Squaring maps into the subgroup of quadratic residues
+        return BigMath.modPow(value.mod(this.P), bigInt(2), this.P);
+    }
+
+    /**
+     * Checks that y is an element of the subgroup other than 1
+     */
+    private static isGroupElement(y: BigInteger): boolean {
+        if (y.lesserOrEquals(bigInt.one) || y.greaterOrEquals(this.P)) return false;
+        return BigMath.modPow(y, this.Q, this.P).equals(bigInt.one);
+    }
+
+    private static isExponent(v: BigInteger): boolean {
+        return !v.isNegative() && v.lesser(this.Q);
+    }
+
+    private static randomExponent(source?: RandomSource): BigInteger {
+        let x: BigInteger;
+        do {
+            x = BigMath.generateRandom(this.P.bitLength().toJSNumber() + 64, source).mod(this.Q);
+        } while (x.isZero());
+        return x;
+    }
+}
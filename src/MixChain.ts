@@ -0,0 +1,116 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import PublicKey from "./PublicKey";
+import Mixnet from "./Mixnet";
+import MixStep from "./MixStep";
+import RandomnessPool from "./RandomnessPool";
+import RandomSource from "./RandomSource";
+
+/**
+ * A chain of mix servers where every server shuffles the output of the previous one.
+ * The link between the input and the final output stays hidden as long as one of the servers is honest.
+ * See the tests for how to use examples
+ */
+export default class MixChain {
+    public pub: PublicKey;
+    public context: string;
+    public input: BigInteger[];
+    public steps: MixStep[];
+
+    /**
+     * @param {PublicKey} pub - public key the messages are encrypted with
+     * @param {BigInteger[]} input - encrypted messages to mix
+     * @param {string} [context=""] - context the proofs are bound to, e.g. election id
+     * @param {MixStep[]} [steps=[]] - steps of the mix servers
+     */
+    constructor(pub: PublicKey, input: BigInteger[], context: string = "", steps: MixStep[] = []) {
+        this.pub = pub;
+        this.context = context;
+        this.input = input;
+        this.steps = steps;
+    }
+
+    /**
+     * @returns {BigInteger[]} The output of the last mix server, or the input if nothing is mixed yet
+     */
+    public getOutput(): BigInteger[] {
+        return this.steps.length > 0 ? this.steps[this.steps.length - 1].output : this.input;
+    }
+
+    /**
+     * Shuffles the current output as the next mix server and adds the step to the chain
+     * @param {string} serverId - id of the mix server
+     * @param {number} [rounds=Mixnet.DEFAULT_ROUNDS] - number of rounds of the proof
+     * @param {RandomnessPool} [pool] - precomputed randomness to take from
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {MixStep} The added step
+     */
+    public mix(
+        serverId: string,
+        rounds: number = Mixnet.DEFAULT_ROUNDS,
+        pool?: RandomnessPool,
+        source?: RandomSource,
+    ): MixStep {
+        let context = this.stepContext(this.steps.length, serverId);
+        let [output, proof] = Mixnet.shuffle(this.getOutput(), this.pub, context, rounds, pool, source);
+        let step = new MixStep(serverId, output, proof);
+        this.steps.push(step);
+        return step;
+    }
+
+    /**
+     * Verifies a step received from a mix server and adds it to the chain
+     * @param {MixStep} step - the step
+     * @param {number} [minRounds=Mixnet.DEFAULT_ROUNDS] - minimal number of rounds the proof must have
+     */
+    public append(step: MixStep, minRounds: number = Mixnet.DEFAULT_ROUNDS) {
+        if (!this.verifyStep(this.steps.length, this.getOutput(), step, minRounds))
+            throw new Error(`Invalid shuffle proof of ${step.serverId}`);
+        this.steps.push(step);
+    }
+
+    /**
+     * Verifies the proofs of all steps in the chain
+     * @param {number} [minRounds=Mixnet.DEFAULT_ROUNDS] - minimal number of rounds every proof must have
+     * @returns {boolean} true if correct
+     */
+    public verify(minRounds: number = Mixnet.DEFAULT_ROUNDS): boolean {
+        let input = this.input;
+        for (let i = 0; i < this.steps.length; i++) {
+            if (!this.verifyStep(i, input, this.steps[i], minRounds)) return false;
+            input = this.steps[i].output;
+        }
+        return true;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("MixChain");
+        o.pub = this.pub;
+        o.context = this.context;
+        o.input = WireFormat.encodeBigIntArray(this.input);
+        o.steps = this.steps;
+        return o;
+    }
+
+    public static from(o: any): MixChain {
+        WireFormat.checkHeader(o, "MixChain");
+        return new MixChain(
+            PublicKey.from(o.pub),
+            WireFormat.decodeBigIntArray(o.input, "input"),
+            WireFormat.decodeString(o.context, "context"),
+            WireFormat.decodeArray(o.steps, "steps", (v) => MixStep.from(v)),
+        );
+    }
+
+    private verifyStep(index: number, input: BigInteger[], step: MixStep, minRounds: number): boolean {
+        let context = this.stepContext(index, step.serverId);
+        return Mixnet.verifyShuffle(input, step.output, step.proof, this.pub, context, minRounds);
+    }
+
+    /**
+     * Binds the proof of every step to the chain, its position and the server
+     */
+    private stepContext(index: number, serverId: string): string {
+        return JSON.stringify([this.context, index, serverId]);
+    }
+}
@@ -0,0 +1,35 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import ShuffleProof from "./ShuffleProof";
+
+/**
+ * The output of a mix server in a mix chain together with its proof of shuffle
+ */
+export default class MixStep {
+    public serverId: string;
+    public output: BigInteger[];
+    public proof: ShuffleProof;
+
+    constructor(serverId: string, output: BigInteger[], proof: ShuffleProof) {
+        this.serverId = serverId;
+        this.output = output;
+        this.proof = proof;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("MixStep");
+        o.serverId = this.serverId;
+        o.output = WireFormat.encodeBigIntArray(this.output);
+        o.proof = this.proof;
+        return o;
+    }
+
+    public static from(o: any): MixStep {
+        WireFormat.checkHeader(o, "MixStep");
+        return new MixStep(
+            WireFormat.decodeString(o.serverId, "serverId"),
+            WireFormat.decodeBigIntArray(o.output, "output"),
+            ShuffleProof.from(o.proof),
+        );
+    }
+}
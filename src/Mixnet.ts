@@ -0,0 +1,217 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import BigMath from "./BigMath";
+import Bytes from "./Bytes";
+import PublicKey from "./PublicKey";
+import RandomnessPool from "./RandomnessPool";
+import RandomSource from "./RandomSource";
+import ShuffleProof from "./ShuffleProof";
+import Transcript from "./Transcript";
+
+/**
+ * Verifiable shuffle of Paillier ciphertexts. A mix server permutes and re-randomizes a list of ciphertexts
+ * and proves with a cut-and-choose proof that the output decrypts to the same messages,
+ * without revealing the permutation.
+ * See the tests for how to use examples
+ */
+export default class Mixnet {
+    /**
+     * Default number of rounds of the shuffle proof, the soundness error is 2^-rounds
+     */
+    public static readonly DEFAULT_ROUNDS: number = 128;
+
+    /**
+     * Permutes and re-randomizes a list of ciphertexts and generates a proof of the shuffle
+     * @param {BigInteger[]} list - encrypted messages
+     * @param {PublicKey} pub - public key the messages are encrypted with
+     * @param {string} [context=""] - context the proof is bound to, e.g. election and mix server id
+     * @param {number} [rounds=Mixnet.DEFAULT_ROUNDS] - number of rounds of the proof
+     * @param {RandomnessPool} [pool] - precomputed randomness to take from
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger[], ShuffleProof]} The shuffled ciphertexts and the proof
+     */
+    public static shuffle(
+        list: BigInteger[],
+        pub: PublicKey,
+        context: string = "",
+        rounds: number = Mixnet.DEFAULT_ROUNDS,
+        pool?: RandomnessPool,
+        source?: RandomSource,
+    ): [BigInteger[], ShuffleProof] {
+        if (!Number.isSafeInteger(rounds) || rounds < 1) throw new RangeError("Rounds must be positive");
+        if (!list.every((c) => this.isCiphertext(c, pub))) throw new RangeError("Ciphertext must be between 0 and n^2");
+
+        // output[j] = input[π(j)] * r[j]^n mod n^2
+        let [output, permutation, r] = this.reencrypt(list, pub, pool, source);
+
+        // shadow[j] = input[φ(j)] * s[j]^n mod n^2 for every round
+        let shadows = new Array<BigInteger[]>();
+        let shadowPermutations = new Array<number[]>();
+        let shadowMultipliers = new Array<BigInteger[]>();
+        for (let i = 0; i < rounds; i++) {
+            let [shadow, phi, s] = this.reencrypt(list, pub, pool, source);
+            shadows.push(shadow);
+            shadowPermutations.push(phi);
+            shadowMultipliers.push(s);
+        }
+
+        let bits = this.challengeBits(list, output, shadows, pub, context);
+        let permutations = new Array<number[]>();
+        let multipliers = new Array<BigInteger[]>();
+        for (let i = 0; i < rounds; i++) {
+            let phi = shadowPermutations[i];
+            let s = shadowMultipliers[i];
+            if (!bits[i]) {
+                // Open the shadow from the input
+                permutations.push(phi);
+                multipliers.push(s);
+                continue;
+            }
+
+            // Open the output from the shadow:
+            // output[j] = shadow[σ(j)] * t[j]^n where σ = φ^-1 ∘ π and t[j] = r[j] / s[σ(j)] mod n
+            let phiInv = new Array<number>(phi.length);
+            phi.forEach((k, j) => (phiInv[k] = j));
+            let sigma = permutation.map((k) => phiInv[k]);
+            let t = sigma.map((k, j) => r[j].multiply(s[k].modInv(pub.n)).mod(pub.n));
+            permutations.push(sigma);
+            multipliers.push(t);
+        }
+
+        return [output, new ShuffleProof(shadows, permutations, multipliers)];
+    }
+
+    /**
+     * Verifies the proof that a list of ciphertexts is a shuffle of another list
+     * @param {BigInteger[]} input - encrypted messages before the shuffle
+     * @param {BigInteger[]} output - encrypted messages after the shuffle
+     * @param {ShuffleProof} proof - the proof
+     * @param {PublicKey} pub - public key the messages are encrypted with
+     * @param {string} [context=""] - context the proof must be bound to
+     * @param {number} [minRounds=Mixnet.DEFAULT_ROUNDS] - minimal number of rounds the proof must have
+     * @returns {boolean} true if correct
+     */
+    public static verifyShuffle(
+        input: BigInteger[],
+        output: BigInteger[],
+        proof: ShuffleProof,
+        pub: PublicKey,
+        context: string = "",
+        minRounds: number = Mixnet.DEFAULT_ROUNDS,
+    ): boolean {
+        let size = input.length;
+        let rounds = proof.rounds();
+        if (output.length != size || rounds < minRounds) return false;
+        if (proof.permutations.length != rounds || proof.multipliers.length != rounds) return false;
+        if (!input.concat(output).every((c) => this.isCiphertext(c, pub))) return false;
+        for (let shadow of proof.shadows) {
+            if (shadow.length != size || !shadow.every((c) => this.isCiphertext(c, pub))) return false;
+        }
+
+        let bits = this.challengeBits(input, output, proof.shadows, pub, context);
+        for (let i = 0; i < rounds; i++) {
+            let permutation = proof.permutations[i];
+            let multipliers = proof.multipliers[i];
+            if (!this.isPermutation(permutation, size) || multipliers.length != size) return false;
+
+            // Round with bit 0: shadow[j] = input[φ(j)] * s[j]^n, bit 1: output[j] = shadow[σ(j)] * t[j]^n
+            let from = bits[i] ? proof.shadows[i] : input;
+            let to = bits[i] ? output : proof.shadows[i];
+            for (let j = 0; j < size; j++) {
+                let s = multipliers[j];
+                if (s.lesserOrEquals(bigInt.zero) || s.greaterOrEquals(pub.n)) return false;
+                let c = from[permutation[j]].multiply(BigMath.modPow(s, pub.n, pub.nSquared)).mod(pub.nSquared);
+                if (c.notEquals(to[j])) return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Permutes and re-randomizes a list of ciphertexts
+     */
+    private static reencrypt(
+        list: BigInteger[],
+        pub: PublicKey,
+        pool?: RandomnessPool,
+        source?: RandomSource,
+    ): [BigInteger[], number[], BigInteger[]] {
+        let permutation = this.randomPermutation(list.length, source);
+        let multipliers = new Array<BigInteger>();
+        let result = permutation.map((k) => {
+            let [r, rn] = pool ? pool.take(pub, source) : RandomnessPool.generate(pub, source);
+            multipliers.push(r);
+            return list[k].multiply(rn).mod(pub.nSquared);
+        });
+        return [result, permutation, multipliers];
+    }
+
+    /**
+     * Derives the challenge bit of every round from the statement and the shadow shuffles
+     */
+    private static challengeBits(
+        input: BigInteger[],
+        output: BigInteger[],
+        shadows: BigInteger[][],
+        pub: PublicKey,
+        context: string,
+    ): boolean[] {
+        let transcript = new Transcript("phe-voting-js/shuffle/v1")
+            .appendBigInt("n", pub.n)
+            .appendBigInt("g", pub.g)
+            .appendString("context", context)
+            .appendBigIntArray("input", input)
+            .appendBigIntArray("output", output);
+        for (let shadow of shadows) {
+            transcript.appendBigIntArray("shadow", shadow);
+        }
+
+        // Every challenge gives 256 bits
+        let bits = new Array<boolean>();
+        for (let block = 0; bits.length < shadows.length; block++) {
+            let challenge = transcript.appendString("block", block.toString()).challenge();
+            for (let i = 0; i < 256 && bits.length < shadows.length; i++) {
+                bits.push(challenge.shiftRight(i).isOdd());
+            }
+        }
+        return bits;
+    }
+
+    /**
+     * Generates a uniformly random permutation of 0..size-1 with Fisher–Yates shuffle
+     */
+    private static randomPermutation(size: number, source?: RandomSource): number[] {
+        let permutation = new Array<number>();
+        for (let i = 0; i < size; i++) permutation.push(i);
+        for (let i = size - 1; i > 0; i--) {
+            let j = this.randomIndex(i + 1, source);
+            [permutation[i], permutation[j]] = [permutation[j], permutation[i]];
+        }
+        return permutation;
+    }
+
+    /**
+     * Generates a uniformly random integer in [0, max) with rejection sampling
+     */
+    private static randomIndex(max: number, source?: RandomSource): number {
+        let limit = 0x100000000 - (0x100000000 % max);
+        let value: number;
+        do {
+            value = Bytes.toUInt32(BigMath.randomBytes(4, source));
+        } while (value >= limit);
+        return value % max;
+    }
+
+    private static isPermutation(list: number[], size: number): boolean {
+        if (list.length != size) return false;
+        let seen = new Array<boolean>(size);
+        for (let k of list) {
+            if (!Number.isSafeInteger(k) || k < 0 || k >= size || seen[k]) return false;
+            seen[k] = true;
+        }
+        return true;
+    }
+
+    private static isCiphertext(c: BigInteger, pub: PublicKey): boolean {
+        return c.greater(bigInt.zero) && c.lesser(pub.nSquared);
+    }
+}
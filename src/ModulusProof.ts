@@ -0,0 +1,45 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * A zero-knowledge proof from the key generator that the modulus n is the product of two distinct primes
+ * p ≡ q ≡ 3 mod 4. For every challenge y it contains an n-th root z of y and a fourth root x of ±y or ±wy
+ */
+export default class ModulusProof {
+    /**
+     * Number of challenges, the soundness error is 2^-ROUNDS
+     */
+    public static readonly ROUNDS: number = 80;
+
+    public w: BigInteger;
+    public x: BigInteger[];
+    public z: BigInteger[];
+
+    /**
+     * @param {BigInteger} w - number with Jacobi symbol (w/n) = -1
+     * @param {BigInteger[]} x - fourth roots of ±y or ±wy for every challenge y
+     * @param {BigInteger[]} z - n-th roots of every challenge y
+     */
+    constructor(w: BigInteger, x: BigInteger[], z: BigInteger[]) {
+        this.w = w;
+        this.x = x;
+        this.z = z;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("ModulusProof");
+        o.w = WireFormat.encodeBigInt(this.w);
+        o.x = WireFormat.encodeBigIntArray(this.x);
+        o.z = WireFormat.encodeBigIntArray(this.z);
+        return o;
+    }
+
+    public static from(o: any): ModulusProof {
+        WireFormat.checkHeader(o, "ModulusProof");
+        return new ModulusProof(
+            WireFormat.decodeBigInt(o.w, "w"),
+            WireFormat.decodeBigIntArray(o.x, "x"),
+            WireFormat.decodeBigIntArray(o.z, "z"),
+        );
+    }
+}
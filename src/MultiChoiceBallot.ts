@@ -0,0 +1,36 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import ZkpCommitment from "./ZkpCommitment";
+
+/**
+ * An encrypted multiple choice ballot with one ciphertext per candidate slot.
+ * Each slot is proven to encrypt 0 or 1 and the number of selections is proven to be between min and max.
+ */
+export default class MultiChoiceBallot {
+    public slots: BigInteger[];
+    public slotProofs: ZkpCommitment[];
+    public countProof: ZkpCommitment;
+
+    constructor(slots: BigInteger[], slotProofs: ZkpCommitment[], countProof: ZkpCommitment) {
+        this.slots = slots;
+        this.slotProofs = slotProofs;
+        this.countProof = countProof;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("MultiChoiceBallot");
+        o.slots = WireFormat.encodeBigIntArray(this.slots);
+        o.slotProofs = this.slotProofs;
+        o.countProof = this.countProof;
+        return o;
+    }
+
+    public static from(o: any): MultiChoiceBallot {
+        WireFormat.checkHeader(o, "MultiChoiceBallot");
+        return new MultiChoiceBallot(
+            WireFormat.decodeBigIntArray(o.slots, "slots"),
+            WireFormat.decodeArray(o.slotProofs, "slotProofs", (v) => ZkpCommitment.from(v)),
+            ZkpCommitment.from(o.countProof),
+        );
+    }
+}
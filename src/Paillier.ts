@@ -3,6 +3,17 @@ import ZkpCommitment from "./ZkpCommitment";
 import BigMath from "./BigMath";
 import Signature from "./Signature";
 import PublicKey from "./PublicKey";
+import ResidueProof from "./ResidueProof";
+import RangeProof from "./RangeProof";
+import MultiChoiceBallot from "./MultiChoiceBallot";
+import RankedBallot from "./RankedBallot";
+import WeightCertificate from "./WeightCertificate";
+import VoteEncoder from "./VoteEncoder";
+import Transcript from "./Transcript";
+import RandomnessPool from "./RandomnessPool";
+import ModulusProof from "./ModulusProof";
+import KeyGenerationOptions from "./KeyGenerationOptions";
+import RandomSource from "./RandomSource";
 import { BigInteger, default as bigInt } from "big-integer";
 
 /**
@@ -16,45 +27,250 @@ export default class Paillier {
     /**
      * Generates public and private key pair for the Paillier cryptosystem
      * @param {number} bits - Number of bits
+     * @param {boolean} [safe=false] - Use safe primes, much slower
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
      * @returns {[BigInteger, BigInteger]} The public and the private key
      */
-    public static generateKeyPair(bits: number): [PublicKey, PrivateKey] {
+    public static generateKeyPair(bits: number, safe: boolean = false, source?: RandomSource): [PublicKey, PrivateKey] {
+        let [p, q] = this.generatePrimes(bits, safe, source);
+        return this.createKeyPair(p, q);
+    }
+
+    /**
+     * Async version of generateKeyPair that yields to the event loop between the prime candidates,
+     * reports the progress and can be aborted
+     * @param {number} bits - Number of bits
+     * @param {KeyGenerationOptions} [options={}] - safe primes, progress callback, abort signal and random source
+     * @returns {Promise<[PublicKey, PrivateKey]>} The public and the private key
+     */
+    public static generateKeyPairAsync(
+        bits: number,
+        options: KeyGenerationOptions = {},
+    ): Promise<[PublicKey, PrivateKey]> {
+        return this.generatePrimesAsync(bits, options).then(([p, q]) => this.createKeyPair(p, q));
+    }
+
+    private static createKeyPair(p: BigInteger, q: BigInteger): [PublicKey, PrivateKey] {
+        // Compute RSA modulus n = pq
+        let n: BigInteger = p.multiply(q);
+
+        // Select generator g where g ∈ Z∗n^2
+        // TODO: Try alternatively g = (an + 1)*b^n mod n^2 where a, b are randoms in Z*n
+        let g: BigInteger = n.plus(1); // Shortcut
+
+        let pub = new PublicKey(n, g);
+        return [pub, this.createPrivateKey(p, q, pub)];
+    }
+
+    /**
+     * Creates the extended private key with the precomputed values for CRT decryption and signing
+     * @param {BigInteger} p - first prime of the modulus
+     * @param {BigInteger} q - second prime of the modulus
+     * @param {PublicKey} pub - public key with n = pq
+     * @returns {PrivateKey} The private key
+     */
+    public static createPrivateKey(p: BigInteger, q: BigInteger, pub: PublicKey): PrivateKey {
+        if (p.multiply(q).notEquals(pub.n)) throw new RangeError("The primes don't match the public key");
+
+        // Carmichael’s function lambda = lcm(𝑝 − 1, 𝑞 − 1)
+        let lambda: BigInteger = p
+            .minus(bigInt.one)
+            .multiply(q.minus(bigInt.one))
+            .divide(bigInt.gcd(p.minus(bigInt.one), q.minus(bigInt.one)));
+
+        // mu = (L(g^lambda mod n^2))^-1 mod n
+        // L(u) = (u - 1) / n
+        // u = g^lambda mod n^2
+        let u: BigInteger = BigMath.modPow(pub.g, lambda, pub.nSquared);
+        let u2: BigInteger = u.minus(bigInt.one).divide(pub.n);
+        let mu: BigInteger = u2.modInv(pub.n);
+
+        // hp = L_p(g^(p-1) mod p^2)^-1 mod p, the same for q
+        let hp: BigInteger = this.crtH(pub.g, p);
+        let hq: BigInteger = this.crtH(pub.g, q);
+
+        return new PrivateKey(lambda, mu, p, q, hp, hq);
+    }
+
+    /**
+     * Generates the two primes p and q for a modulus n = pq of exactly the specified number of bits.
+     * The primes are Blum primes p ≡ q ≡ 3 mod 4, so the key generator can prove the modulus is well-formed.
+     * @param {number} bits - Number of bits of the modulus
+     * @param {boolean} [safe=false] - Use safe primes p = 2p' + 1 and q = 2q' + 1, much slower
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, BigInteger]} The primes p and q
+     */
+    public static generatePrimes(bits: number, safe: boolean = false, source?: RandomSource): [BigInteger, BigInteger] {
         if (bits % 8 > 0 || bits < 160) throw new RangeError("Key must be at least 160 bits");
 
         // It is very unlikely the rng to return same number twice however we add this check
-        let p: BigInteger, q: BigInteger, n: BigInteger;
+        let p: BigInteger, q: BigInteger;
         // Choose two large primes p and q randomly and independently of each other
         // such that gcd(p * q, (p - 1)(q - 1)) = 1
         // This property is assured if both primes are of equivalent length
         do {
             do {
-                // TODO: Use method to find strong primes
-                p = BigMath.generateRandomPrime(bits / 2);
-                q = BigMath.generateRandomPrime(bits / 2);
+                p = safe
+                    ? BigMath.generateSafePrime(bits / 2, 50, source)
+                    : BigMath.generateBlumPrime(bits / 2, 50, source);
+                q = safe
+                    ? BigMath.generateSafePrime(bits / 2, 50, source)
+                    : BigMath.generateBlumPrime(bits / 2, 50, source);
             } while (p.equals(q));
+        } while (p.multiply(q).bitLength().toJSNumber() != bits);
 
-            // Compute RSA modulus n = pq
-            n = p.multiply(q);
-        } while (n.bitLength().toJSNumber() != bits);
+        return [p, q];
+    }
 
-        // Carmichael’s function lambda = lcm(𝑝 − 1, 𝑞 − 1)
-        let lambda: BigInteger = p
-            .minus(bigInt.one)
-            .multiply(q.minus(bigInt.one))
-            .divide(bigInt.gcd(p.minus(bigInt.one), q.minus(bigInt.one)));
+    /**
+     * Async version of generatePrimes, see generateKeyPairAsync
+     * @param {number} bits - Number of bits of the modulus
+     * @param {KeyGenerationOptions} [options={}] - safe primes, progress callback, abort signal and random source
+     * @returns {Promise<[BigInteger, BigInteger]>} The primes p and q
+     */
+    public static generatePrimesAsync(
+        bits: number,
+        options: KeyGenerationOptions = {},
+    ): Promise<[BigInteger, BigInteger]> {
+        if (bits % 8 > 0 || bits < 160) return Promise.reject(new RangeError("Key must be at least 160 bits"));
 
-        // Select generator g where g ∈ Z∗n^2
-        // TODO: Try alternatively g = (an + 1)*b^n mod n^2 where a, b are randoms in Z*n
-        let g: BigInteger = n.plus(1); // Shortcut
+        let candidates = 0;
+        let search = (phase: "p" | "q") =>
+            BigMath.generatePrimeAsync(
+                bits / 2,
+                options.safe === true,
+                options.signal,
+                () => {
+                    candidates++;
+                    if (options.onProgress) options.onProgress({ phase, candidates });
+                },
+                50,
+                options.random,
+            );
+        let next = (): Promise<[BigInteger, BigInteger]> =>
+            search("p").then((p) =>
+                search("q").then((q) =>
+                    p.equals(q) || p.multiply(q).bitLength().toJSNumber() != bits ? next() : [p, q],
+                ),
+            );
+        return next();
+    }
 
-        // mu = (L(g^lambda mod n^2))^-1 mod n
-        // L(u) = (u - 1) / n
-        // u = g^lambda mod n^2
-        let u: BigInteger = g.modPow(lambda, n.square());
-        let u2: BigInteger = u.minus(bigInt.one).divide(n);
-        let mu: BigInteger = u2.modInv(n);
+    /**
+     * Checks that a public key received from the wire is well-formed: n is odd, composite, without small factors
+     * and of a sensible size, and g ∈ Z*n^2 has order a multiple of n.
+     * The order of g can be checked without the private key only for g = 1 + kn, which is what the library generates.
+     * Use verifyModulusProof to check that n is a product of two primes.
+     * @param {PublicKey} pub - public key
+     * @param {number} [minBits=2048] - minimal number of bits of n
+     */
+    public static validatePublicKey(pub: PublicKey, minBits: number = 2048) {
+        let bits = pub.n.bitLength().toJSNumber();
+        if (bits < minBits || bits > 16384) throw new RangeError(`Modulus must be between ${minBits} and 16384 bits`);
+        if (pub.n.isEven()) throw new RangeError("Modulus must be odd");
+        if (BigMath.hasSmallFactor(pub.n)) throw new RangeError("Modulus has a small factor");
+        if (BigMath.isProbablePrime(pub.n, 20)) throw new RangeError("Modulus must be composite");
+
+        if (
+            pub.g.lesserOrEquals(bigInt.zero) ||
+            pub.g.greaterOrEquals(pub.nSquared) ||
+            !BigMath.isCoprime(pub.g, pub.n)
+        )
+            throw new RangeError("Generator must be in Z*n^2");
+        // g = (1 + n)^k mod n^2 has order n / gcd(k, n)
+        if (pub.g.mod(pub.n).notEquals(bigInt.one) || !BigMath.isCoprime(pub.g.divide(pub.n), pub.n))
+            throw new RangeError("Generator must be 1 + kn with k coprime to n");
+    }
+
+    /**
+     * Creates a zero-knowledge proof that the modulus is the product of two distinct primes p ≡ q ≡ 3 mod 4,
+     * so voters need not trust the key generator
+     * @param {PublicKey} pub - public key
+     * @param {PrivateKey} priv - private key with the primes
+     * @param {string} [context=""] - context the proof is bound to, e.g. election id
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {ModulusProof} The proof
+     */
+    public static createModulusProof(
+        pub: PublicKey,
+        priv: PrivateKey,
+        context: string = "",
+        source?: RandomSource,
+    ): ModulusProof {
+        let { p, q, qInv } = priv;
+        if (!p || !q || !qInv) throw new RangeError("Modulus proof needs the private key with the primes");
+        let four = bigInt(4);
+        if (p.mod(four).notEquals(3) || q.mod(four).notEquals(3))
+            throw new RangeError("Modulus proof needs primes p ≡ q ≡ 3 mod 4");
+
+        // w with Jacobi symbol -1 is a quadratic residue modulo only one of the primes
+        let w: BigInteger;
+        do {
+            w = BigMath.generateRandom(Math.ceil(pub.n.bitLength().toJSNumber() / 8) * 8 + 64, source).mod(pub.n);
+        } while (BigMath.jacobi(w, pub.n) != -1);
+
+        let pPrev = p.minus(bigInt.one);
+        let qPrev = q.minus(bigInt.one);
+        let invN = pub.n.modInv(pPrev.multiply(qPrev));
+        // x^e is a fourth root of a quadratic residue x where e = ((p + 1) / 4)^2 mod (p - 1)
+        let ep = p.plus(bigInt.one).divide(four).square().mod(pPrev);
+        let eq = q.plus(bigInt.one).divide(four).square().mod(qPrev);
+        let isResidue = (v: BigInteger, prime: BigInteger) =>
+            BigMath.modPow(v, prime.minus(bigInt.one).shiftRight(1), prime).equals(bigInt.one);
+
+        let x = new Array<BigInteger>();
+        let z = new Array<BigInteger>();
+        for (let y of this.modulusChallenges(pub, w, context)) {
+            // z = y^(1/n mod phi) mod n
+            z.push(BigMath.modPow(y, invN, pub.n));
+
+            // Exactly one of ±y, ±wy is a quadratic residue modulo both primes
+            let wy = w.multiply(y).mod(pub.n);
+            let candidates = [y, pub.n.minus(y), wy, pub.n.minus(wy)];
+            let residue = candidates.find((v) => isResidue(v, p!) && isResidue(v, q!));
+            if (residue === undefined) throw new Error("Challenge isn't in Z*n");
+            let xp = BigMath.modPow(residue, ep, p);
+            let xq = BigMath.modPow(residue, eq, q);
+            x.push(this.crt(xp, xq, p, q, qInv));
+        }
+        return new ModulusProof(w, x, z);
+    }
 
-        return [new PublicKey(n, g), new PrivateKey(lambda, mu)];
+    /**
+     * Verifies a zero-knowledge proof that the modulus is the product of two distinct primes
+     * @param {PublicKey} pub - public key
+     * @param {ModulusProof} proof - the proof
+     * @param {string} [context=""] - context the proof must be bound to
+     * @returns {boolean} true if correct
+     */
+    public static verifyModulusProof(pub: PublicKey, proof: ModulusProof, context: string = ""): boolean {
+        let n = pub.n;
+        if (n.isEven() || n.lesserOrEquals(bigInt.one) || BigMath.isProbablePrime(n, 20)) return false;
+        if (proof.x.length != ModulusProof.ROUNDS || proof.z.length != ModulusProof.ROUNDS) return false;
+        if (proof.w.lesserOrEquals(bigInt.zero) || proof.w.greaterOrEquals(n) || BigMath.jacobi(proof.w, n) != -1)
+            return false;
+
+        let challenges = this.modulusChallenges(pub, proof.w, context);
+        for (let i = 0; i < challenges.length; i++) {
+            let y = challenges[i];
+            let [x, z] = [proof.x[i], proof.z[i]];
+            if (
+                x.lesserOrEquals(bigInt.zero) ||
+                x.greaterOrEquals(n) ||
+                z.lesserOrEquals(bigInt.zero) ||
+                z.greaterOrEquals(n)
+            )
+                return false;
+
+            // z^n = y mod n proves gcd(n, phi(n)) = 1, so n is square-free
+            if (BigMath.modPow(z, n, n).notEquals(y)) return false;
+
+            // x^4 = ±y or ±wy mod n proves n has at most two prime factors, both 3 mod 4
+            let x4 = BigMath.modPow(x, bigInt(4), n);
+            let wy = proof.w.multiply(y).mod(n);
+            if (![y, n.minus(y), wy, n.minus(wy)].some((v) => v.equals(x4))) return false;
+        }
+        return true;
     }
 
     /**
@@ -62,11 +278,21 @@ export default class Paillier {
      * @param {BigInteger} m - message to encrypt
      * @param {BigInteger[]} valid - list of valid messages
      * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof is bound to, e.g. election and voter id
+     * @param {RandomnessPool} [pool] - precomputed randomness to take from
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
      * @returns {[BigInteger, ZkpCommitment]} The encrypted message and the ZKP commitment
      */
-    public static encryptWithZkp(m: BigInteger, valid: BigInteger[], pub: PublicKey): [BigInteger, ZkpCommitment] {
-        let [c, r] = this.encryptWithoutR(m, pub);
-        let commitment = this.createZkp(m, c, r, valid, pub);
+    public static encryptWithZkp(
+        m: BigInteger,
+        valid: BigInteger[],
+        pub: PublicKey,
+        context: string = "",
+        pool?: RandomnessPool,
+        source?: RandomSource,
+    ): [BigInteger, ZkpCommitment] {
+        let [c, r] = this.encryptWithoutR(m, pub, pool, source);
+        let commitment = this.createZkp(m, c, r, valid, pub, context, pool, source);
         return [c, commitment];
     }
 
@@ -74,13 +300,547 @@ export default class Paillier {
      * Encrypts a message (BigInteger)
      * @param {BigInteger} m - message to encrypt
      * @param {PublicKey} pub - public key to encrypt with
+     * @param {RandomnessPool} [pool] - precomputed randomness to take from
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
      * @returns {BigInteger} The encrypted message
      */
-    public static encrypt(m: BigInteger, pub: PublicKey): BigInteger {
-        let [c, r] = this.encryptWithoutR(m, pub);
+    public static encrypt(m: BigInteger, pub: PublicKey, pool?: RandomnessPool, source?: RandomSource): BigInteger {
+        let [c, r] = this.encryptWithoutR(m, pub, pool, source);
         return c;
     }
 
+    /**
+     * Encrypts a message (BigInteger) and returns the random multiplier r used for the encryption.
+     * The multiplier is needed for creating proofs about the ciphertext and must be kept secret.
+     * @param {BigInteger} m - message to encrypt
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {RandomnessPool} [pool] - precomputed randomness to take from
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, BigInteger]} The encrypted message and the multiplier r
+     */
+    public static encryptWithNonce(
+        m: BigInteger,
+        pub: PublicKey,
+        pool?: RandomnessPool,
+        source?: RandomSource,
+    ): [BigInteger, BigInteger] {
+        return this.encryptWithoutR(m, pub, pool, source);
+    }
+
+    /**
+     * Encrypts a message (BigInteger) and generates a zero-knowledge proof that 0 <= m < 2^k
+     * @param {BigInteger} m - message to encrypt
+     * @param {number} numBits - number of bits k of the range
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof is bound to, e.g. election and voter id
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, RangeProof]} The encrypted message and the range proof
+     */
+    public static encryptWithRangeProof(
+        m: BigInteger,
+        numBits: number,
+        pub: PublicKey,
+        context: string = "",
+        source?: RandomSource,
+    ): [BigInteger, RangeProof] {
+        let [c, r] = this.encryptWithoutR(m, pub, undefined, source);
+        let proof = this.createRangeProof(m, c, r, numBits, pub, context, source);
+        return [c, proof];
+    }
+
+    /**
+     * Creates a zero-knowledge proof that an encrypted message is in the range 0 <= m < 2^k.
+     * The size of the proof grows linearly with k.
+     * @param {BigInteger} m - plain message
+     * @param {BigInteger} c - encrypted message
+     * @param {BigInteger} r - multiplier r
+     * @param {number} numBits - number of bits k of the range
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof is bound to, e.g. election and voter id
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {RangeProof} The range proof
+     */
+    public static createRangeProof(
+        m: BigInteger,
+        c: BigInteger,
+        r: BigInteger,
+        numBits: number,
+        pub: PublicKey,
+        context: string = "",
+        source?: RandomSource,
+    ): RangeProof {
+        if (numBits < 1 || numBits >= pub.n.bitLength().toJSNumber()) throw new RangeError("Invalid number of bits");
+        if (m.isNegative() || m.bitLength().toJSNumber() > numBits)
+            throw new RangeError("Message m isn't in the range");
+
+        let bitValues = [bigInt.zero, bigInt.one];
+        let bits = new Array<BigInteger>();
+        let bitProofs = new Array<ZkpCommitment>();
+        // R = prod(r[i]^(2^i)) mod n
+        let rSum: BigInteger = bigInt.one;
+        for (let i = 0; i < numBits; i++) {
+            // c[i] = E(b[i]) where m = sum(b[i] * 2^i)
+            let bi: BigInteger = m.shiftRight(i).and(bigInt.one);
+            let [ci, ri] = this.encryptWithoutR(bi, pub, undefined, source);
+            bits.push(ci);
+            bitProofs.push(this.createZkp(bi, ci, ri, bitValues, pub, context, undefined, source));
+            rSum = rSum.multiply(BigMath.modPow(ri, bigInt.one.shiftLeft(i), pub.n)).mod(pub.n);
+        }
+
+        // u = c / prod(c[i]^(2^i)) = (r / R)^n mod n^2
+        let u: BigInteger = c.multiply(this.recombineBits(bits, pub).modInv(pub.nSquared)).mod(pub.nSquared);
+        let rho: BigInteger = r.multiply(rSum.modInv(pub.n)).mod(pub.n);
+        let sumProof = this.createResidueProof(u, rho, this.rangeTranscript(c, bits, pub, context), pub, source);
+
+        return new RangeProof(bits, bitProofs, sumProof);
+    }
+
+    /**
+     * Verifies a zero-knowledge proof that an encrypted message is in the range 0 <= m < 2^k
+     * @param {BigInteger} c - encrypted message
+     * @param {number} numBits - number of bits k of the range
+     * @param {RangeProof} proof - the range proof
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof must be bound to
+     * @returns {boolean} true if correct
+     */
+    public static verifyRangeProof(
+        c: BigInteger,
+        numBits: number,
+        proof: RangeProof,
+        pub: PublicKey,
+        context: string = "",
+    ): boolean {
+        if (proof.bits.length != numBits || proof.bitProofs.length != numBits) return false;
+
+        // Each c[i] encrypts 0 or 1
+        for (let i = 0; i < numBits; i++) {
+            if (!this.verifyBitZkp(proof.bits[i], proof.bitProofs[i], pub, context)) return false;
+        }
+
+        // c / prod(c[i]^(2^i)) is an encryption of 0
+        let u: BigInteger = c.multiply(this.recombineBits(proof.bits, pub).modInv(pub.nSquared)).mod(pub.nSquared);
+        return this.verifyResidueProof(u, proof.sumProof, this.rangeTranscript(c, proof.bits, pub, context), pub);
+    }
+
+    /**
+     * Encrypts a weighted single choice vote and generates a zero-knowledge proof
+     * that the ciphertext holds exactly the certified weight in one valid slot and zero elsewhere.
+     * The proof is bound to the voter id and the weight of the certificate.
+     * @param {number} choice - The choice - 0...n
+     * @param {WeightCertificate} cert - The weight certified by the Organizer
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} bitsPerChoice - How many bits are reserved per choice
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof is bound to, e.g. election and voter id
+     * @param {number} [bin=0] - The index of the bin for the grouping
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, ZkpCommitment]} The encrypted vote and the ZKP commitment
+     */
+    public static encryptWeighted(
+        choice: number,
+        cert: WeightCertificate,
+        numChoices: number,
+        bitsPerChoice: number,
+        pub: PublicKey,
+        context: string = "",
+        bin: number = 0,
+        numBins: number = 0,
+        source?: RandomSource,
+    ): [BigInteger, ZkpCommitment] {
+        let vote = VoteEncoder.encodeWeighted(choice, cert.weight, numChoices, bitsPerChoice, bin, numBins);
+        let valid = VoteEncoder.getWeightedPermutations(cert.weight, numChoices, bitsPerChoice, numBins);
+        return this.encryptWithZkp(vote, valid, pub, this.weightedContext(context, cert), undefined, source);
+    }
+
+    /**
+     * Verifies the weight certificate and the validity of a weighted single choice vote.
+     * The certificate must belong to the authenticated voter, who must be accepted only once,
+     * e.g. by using the voter id as the ballot id of the Tally.
+     * @param {BigInteger} c - The encrypted vote
+     * @param {ZkpCommitment} commitment - The ZKP commitment
+     * @param {WeightCertificate} cert - The weight certified by the Organizer
+     * @param {string} voterId - The authenticated id of the voter who cast the ballot
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} bitsPerChoice - How many bits are reserved per choice
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof must be bound to
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @returns {boolean} true if correct
+     */
+    public static verifyWeighted(
+        c: BigInteger,
+        commitment: ZkpCommitment,
+        cert: WeightCertificate,
+        voterId: string,
+        numChoices: number,
+        bitsPerChoice: number,
+        pub: PublicKey,
+        context: string = "",
+        numBins: number = 0,
+    ): boolean {
+        if (cert.voterId !== voterId || !this.verifyWeightCertificate(cert, pub)) return false;
+        if (cert.weight.lesser(bigInt.one) || cert.weight.bitLength().toJSNumber() >= bitsPerChoice) return false;
+
+        let valid = VoteEncoder.getWeightedPermutations(cert.weight, numChoices, bitsPerChoice, numBins);
+        if (commitment.a.length != valid.length || commitment.e.length != valid.length) return false;
+        if (commitment.z.length != valid.length) return false;
+        return this.verifyZkp(c, valid, commitment, pub, this.weightedContext(context, cert));
+    }
+
+    /**
+     * Encrypts a multiple choice ballot slot by slot and generates a proof of its validity.
+     * Each slot encrypts 0 or 1 and the number of selected choices is between min and max.
+     * @param {number[]} choices - The selected choices - e.g. [0, 2]
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} minSelections - Minimum number of choices to select
+     * @param {number} maxSelections - Maximum number of choices to select
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof is bound to, e.g. election and voter id
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {MultiChoiceBallot} The encrypted ballot with its proofs
+     */
+    public static encryptMultiChoice(
+        choices: number[],
+        numChoices: number,
+        minSelections: number,
+        maxSelections: number,
+        pub: PublicKey,
+        context: string = "",
+        source?: RandomSource,
+    ): MultiChoiceBallot {
+        if (numChoices < 1 || minSelections < 0 || minSelections > maxSelections || maxSelections > numChoices)
+            throw new RangeError("Invalid number of selections");
+        for (let i = 0; i < choices.length; i++) {
+            if (choices[i] < 0 || choices[i] >= numChoices) throw new RangeError("Invalid choices");
+            if (choices.indexOf(choices[i]) != i) throw new RangeError("Duplicate choices");
+        }
+        if (choices.length < minSelections || choices.length > maxSelections)
+            throw new RangeError("Number of choices is not between min and max");
+
+        let bitValues = [bigInt.zero, bigInt.one];
+        let slots = new Array<BigInteger>();
+        let slotProofs = new Array<ZkpCommitment>();
+        // R = prod(r[i]) mod n
+        let rSum: BigInteger = bigInt.one;
+        for (let choice = 0; choice < numChoices; choice++) {
+            let selected: BigInteger = choices.indexOf(choice) >= 0 ? bigInt.one : bigInt.zero;
+            let [ci, ri] = this.encryptWithoutR(selected, pub, undefined, source);
+            slots.push(ci);
+            slotProofs.push(this.createZkp(selected, ci, ri, bitValues, pub, context, undefined, source));
+            rSum = rSum.multiply(ri).mod(pub.n);
+        }
+
+        // prod(c[i]) encrypts the number of selections
+        let count: BigInteger = this.sumEncrypted(slots, pub);
+        let valid = this.selectionCounts(minSelections, maxSelections);
+        let countProof = this.createZkp(bigInt(choices.length), count, rSum, valid, pub, context, undefined, source);
+
+        return new MultiChoiceBallot(slots, slotProofs, countProof);
+    }
+
+    /**
+     * Verifies the validity of a multiple choice ballot
+     * @param {MultiChoiceBallot} ballot - The encrypted ballot
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} minSelections - Minimum number of choices to select
+     * @param {number} maxSelections - Maximum number of choices to select
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof must be bound to
+     * @returns {boolean} true if correct
+     */
+    public static verifyMultiChoice(
+        ballot: MultiChoiceBallot,
+        numChoices: number,
+        minSelections: number,
+        maxSelections: number,
+        pub: PublicKey,
+        context: string = "",
+    ): boolean {
+        if (ballot.slots.length != numChoices || ballot.slotProofs.length != numChoices) return false;
+
+        // Each slot encrypts 0 or 1
+        for (let i = 0; i < numChoices; i++) {
+            if (!this.verifyBitZkp(ballot.slots[i], ballot.slotProofs[i], pub, context)) return false;
+        }
+
+        // The number of selections is between min and max
+        let valid = this.selectionCounts(minSelections, maxSelections);
+        let countProof = ballot.countProof;
+        if (valid.length == 0 || countProof.a.length != valid.length || countProof.e.length != valid.length)
+            return false;
+        if (countProof.z.length != valid.length) return false;
+        return this.verifyZkp(this.sumEncrypted(ballot.slots, pub), valid, countProof, pub, context);
+    }
+
+    /**
+     * Packs the slots of a multiple choice ballot into a single ciphertext
+     * encrypting the same value as VoteEncoder.еncodeMultiple
+     * @param {MultiChoiceBallot} ballot - The encrypted ballot
+     * @param {number} bitsPerChoice - How many bits are reserved per choice
+     * @param {PublicKey} pub - public key
+     * @param {number} [bin=0] - The index of the bin for the grouping
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @returns {BigInteger} The encrypted packed vote
+     */
+    public static packMultiChoice(
+        ballot: MultiChoiceBallot,
+        bitsPerChoice: number,
+        pub: PublicKey,
+        bin: number = 0,
+        numBins: number = 0,
+    ): BigInteger {
+        let numChoices = ballot.slots.length;
+        let result: BigInteger = bigInt.one;
+        for (let choice = 0; choice < numChoices; choice++) {
+            let k = VoteEncoder.encodeSingle(choice, numChoices, bitsPerChoice, bin, numBins);
+            result = this.addEncrypted(result, this.mulScalar(ballot.slots[choice], k, pub), pub);
+        }
+        return result;
+    }
+
+    /**
+     * Encrypts a full ranking as a permutation matrix and generates a proof of its validity.
+     * The size of the ballot grows with numChoices^2 instead of the numChoices! valid rankings.
+     * @param {number[]} ranking - The choices ordered from the most to the least preferred - e.g. [2, 0, 1]
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof is bound to, e.g. election and voter id
+     * @param {boolean} [pairwise=false] - Whether to include the pairwise preferences for Condorcet methods
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {RankedBallot} The encrypted ballot with its proofs
+     */
+    public static encryptRanking(
+        ranking: number[],
+        numChoices: number,
+        pub: PublicKey,
+        context: string = "",
+        pairwise: boolean = false,
+        source?: RandomSource,
+    ): RankedBallot {
+        if (numChoices < 2 || ranking.length != numChoices) throw new RangeError("Ranking must contain all choices");
+        let position = new Array<number>();
+        for (let choice = 0; choice < numChoices; choice++) {
+            position.push(ranking.indexOf(choice));
+            if (position[choice] < 0) throw new RangeError("Ranking must contain all choices");
+        }
+
+        // x[choice][position] = 1 if the choice is ranked at the position
+        let bitValues = [bigInt.zero, bigInt.one];
+        let placements = new Array<BigInteger>();
+        let placementProofs = new Array<ZkpCommitment>();
+        let placementNonces = new Array<BigInteger>();
+        for (let choice = 0; choice < numChoices; choice++) {
+            for (let pos = 0; pos < numChoices; pos++) {
+                let x: BigInteger = position[choice] == pos ? bigInt.one : bigInt.zero;
+                let [c, r] = this.encryptWithoutR(x, pub, undefined, source);
+                placements.push(c);
+                placementNonces.push(r);
+                placementProofs.push(this.createZkp(x, c, r, bitValues, pub, context, undefined, source));
+            }
+        }
+
+        // Every row and every column of the matrix sums to 1
+        let choiceProofs = new Array<ResidueProof>();
+        let positionProofs = new Array<ResidueProof>();
+        for (let i = 0; i < numChoices; i++) {
+            let row = this.matrixLine(placements, numChoices, i, true);
+            let rowNonces = this.matrixLine(placementNonces, numChoices, i, true);
+            let u = this.residueOf(this.sumEncrypted(row, pub), bigInt.one, pub);
+            let transcript = this.rankingTranscript("choice", i, pub, context);
+            choiceProofs.push(this.createResidueProof(u, this.multiplyNonces(rowNonces, pub), transcript, pub, source));
+
+            let column = this.matrixLine(placements, numChoices, i, false);
+            let columnNonces = this.matrixLine(placementNonces, numChoices, i, false);
+            u = this.residueOf(this.sumEncrypted(column, pub), bigInt.one, pub);
+            transcript = this.rankingTranscript("position", i, pub, context);
+            positionProofs.push(
+                this.createResidueProof(u, this.multiplyNonces(columnNonces, pub), transcript, pub, source),
+            );
+        }
+
+        let ballot = new RankedBallot(placements, placementProofs, choiceProofs, positionProofs);
+        if (!pairwise) return ballot;
+
+        // y[i][j] = 1 if the choice i is preferred over the choice j
+        let preferenceNonces = new Array<BigInteger>();
+        for (let i = 0; i < numChoices; i++) {
+            for (let j = 0; j < numChoices; j++) {
+                if (i == j) continue;
+                let y: BigInteger = position[i] < position[j] ? bigInt.one : bigInt.zero;
+                let [c, r] = this.encryptWithoutR(y, pub, undefined, source);
+                ballot.preferences.push(c);
+                preferenceNonces.push(r);
+                ballot.preferenceProofs.push(this.createZkp(y, c, r, bitValues, pub, context, undefined, source));
+            }
+        }
+
+        for (let i = 0; i < numChoices; i++) {
+            // Exactly one of y[i][j] and y[j][i] is 1
+            for (let j = i + 1; j < numChoices; j++) {
+                let ij = this.preferenceIndex(i, j, numChoices);
+                let ji = this.preferenceIndex(j, i, numChoices);
+                let u = this.residueOf(
+                    this.addEncrypted(ballot.preferences[ij], ballot.preferences[ji], pub),
+                    bigInt.one,
+                    pub,
+                );
+                let rho = preferenceNonces[ij].multiply(preferenceNonces[ji]).mod(pub.n);
+                let transcript = this.rankingTranscript("antisymmetry", ij, pub, context);
+                ballot.antisymmetryProofs.push(this.createResidueProof(u, rho, transcript, pub, source));
+            }
+
+            // sum(y[i][j]) equals the Borda points of the choice i
+            let [score, scoreNonce] = this.rankingScore(ballot, preferenceNonces, placementNonces, i, pub);
+            let transcript = this.rankingTranscript("score", i, pub, context);
+            ballot.scoreProofs.push(this.createResidueProof(score, scoreNonce, transcript, pub, source));
+        }
+
+        return ballot;
+    }
+
+    /**
+     * Verifies the validity of a ranked ballot
+     * @param {RankedBallot} ballot - The encrypted ballot
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof must be bound to
+     * @param {boolean} [pairwise=false] - Whether the pairwise preferences are required
+     * @returns {boolean} true if correct
+     */
+    public static verifyRanking(
+        ballot: RankedBallot,
+        numChoices: number,
+        pub: PublicKey,
+        context: string = "",
+        pairwise: boolean = false,
+    ): boolean {
+        let numCells = numChoices * numChoices;
+        if (numChoices < 2 || ballot.placements.length != numCells || ballot.placementProofs.length != numCells)
+            return false;
+        if (ballot.choiceProofs.length != numChoices || ballot.positionProofs.length != numChoices) return false;
+
+        // Each cell of the matrix encrypts 0 or 1
+        for (let i = 0; i < numCells; i++) {
+            if (!this.verifyBitZkp(ballot.placements[i], ballot.placementProofs[i], pub, context)) return false;
+        }
+
+        // Every row and every column of the matrix sums to 1
+        for (let i = 0; i < numChoices; i++) {
+            let row = this.matrixLine(ballot.placements, numChoices, i, true);
+            let u = this.residueOf(this.sumEncrypted(row, pub), bigInt.one, pub);
+            let transcript = this.rankingTranscript("choice", i, pub, context);
+            if (!this.verifyResidueProof(u, ballot.choiceProofs[i], transcript, pub)) return false;
+
+            let column = this.matrixLine(ballot.placements, numChoices, i, false);
+            u = this.residueOf(this.sumEncrypted(column, pub), bigInt.one, pub);
+            transcript = this.rankingTranscript("position", i, pub, context);
+            if (!this.verifyResidueProof(u, ballot.positionProofs[i], transcript, pub)) return false;
+        }
+
+        if (!pairwise && ballot.preferences.length == 0) return true;
+
+        let numPairs = numChoices * (numChoices - 1);
+        if (ballot.preferences.length != numPairs || ballot.preferenceProofs.length != numPairs) return false;
+        if (ballot.antisymmetryProofs.length != numPairs / 2 || ballot.scoreProofs.length != numChoices) return false;
+
+        // Each preference encrypts 0 or 1
+        for (let i = 0; i < numPairs; i++) {
+            if (!this.verifyBitZkp(ballot.preferences[i], ballot.preferenceProofs[i], pub, context)) return false;
+        }
+
+        // Antisymmetric preferences with distinct scores 0, 1, ..., numChoices - 1 form a strict ranking
+        let k = 0;
+        for (let i = 0; i < numChoices; i++) {
+            for (let j = i + 1; j < numChoices; j++) {
+                let ij = this.preferenceIndex(i, j, numChoices);
+                let ji = this.preferenceIndex(j, i, numChoices);
+                let u = this.residueOf(
+                    this.addEncrypted(ballot.preferences[ij], ballot.preferences[ji], pub),
+                    bigInt.one,
+                    pub,
+                );
+                let transcript = this.rankingTranscript("antisymmetry", ij, pub, context);
+                if (!this.verifyResidueProof(u, ballot.antisymmetryProofs[k++], transcript, pub)) return false;
+            }
+
+            let [score] = this.rankingScore(ballot, [], [], i, pub);
+            let transcript = this.rankingTranscript("score", i, pub, context);
+            if (!this.verifyResidueProof(score, ballot.scoreProofs[i], transcript, pub)) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Packs a ranked ballot into a single ciphertext encrypting the same value as VoteEncoder.encodeBorda
+     * @param {RankedBallot} ballot - The encrypted ballot
+     * @param {number} bitsPerChoice - How many bits are reserved per choice
+     * @param {PublicKey} pub - public key
+     * @param {number} [bin=0] - The index of the bin for the grouping
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @returns {BigInteger} The encrypted packed vote
+     */
+    public static packBorda(
+        ballot: RankedBallot,
+        bitsPerChoice: number,
+        pub: PublicKey,
+        bin: number = 0,
+        numBins: number = 0,
+    ): BigInteger {
+        let numChoices = Math.round(Math.sqrt(ballot.placements.length));
+        let result: BigInteger = bigInt.one;
+        for (let choice = 0; choice < numChoices; choice++) {
+            let slot = VoteEncoder.encodeSingle(choice, numChoices, bitsPerChoice, bin, numBins);
+            for (let pos = 0; pos < numChoices - 1; pos++) {
+                let k = slot.multiply(numChoices - 1 - pos);
+                let x = ballot.placements[choice * numChoices + pos];
+                result = this.addEncrypted(result, this.mulScalar(x, k, pub), pub);
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Packs the pairwise preferences of a ranked ballot into a single ciphertext
+     * encrypting the same value as VoteEncoder.encodeCondorcet
+     * @param {RankedBallot} ballot - The encrypted ballot
+     * @param {number} bitsPerChoice - How many bits are reserved per pair of choices
+     * @param {PublicKey} pub - public key
+     * @param {number} [bin=0] - The index of the bin for the grouping
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @returns {BigInteger} The encrypted packed vote
+     */
+    public static packCondorcet(
+        ballot: RankedBallot,
+        bitsPerChoice: number,
+        pub: PublicKey,
+        bin: number = 0,
+        numBins: number = 0,
+    ): BigInteger {
+        let numChoices = Math.round(Math.sqrt(ballot.placements.length));
+        if (ballot.preferences.length != numChoices * (numChoices - 1))
+            throw new Error("Ballot doesn't contain pairwise preferences");
+
+        let result: BigInteger = bigInt.one;
+        for (let i = 0; i < numChoices; i++) {
+            for (let j = 0; j < numChoices; j++) {
+                if (i == j) continue;
+                let k = VoteEncoder.encodeSingle(
+                    i * numChoices + j,
+                    numChoices * numChoices,
+                    bitsPerChoice,
+                    bin,
+                    numBins,
+                );
+                let y = ballot.preferences[this.preferenceIndex(i, j, numChoices)];
+                result = this.addEncrypted(result, this.mulScalar(y, k, pub), pub);
+            }
+        }
+        return result;
+    }
+
     /**
      * Creates a zero-knowledge proof commitment
      * @param {BigInteger} m - plain message
@@ -88,6 +848,9 @@ export default class Paillier {
      * @param {BigInteger} r - multiplier r
      * @param {BigInteger[]} valid - list of valid messages
      * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof is bound to, e.g. election and voter id
+     * @param {RandomnessPool} [pool] - precomputed randomness to take from
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
      * @returns {ZkpCommitment} ZKP commitment
      */
     public static createZkp(
@@ -96,51 +859,57 @@ export default class Paillier {
         r: BigInteger,
         valid: BigInteger[],
         pub: PublicKey,
+        context: string = "",
+        pool?: RandomnessPool,
+        source?: RandomSource,
     ): ZkpCommitment {
         let commitment = new ZkpCommitment(valid.length);
 
         // Choose random ω ∈ Z∗n
-        let omega: BigInteger;
-        do {
-            omega = BigMath.generateCoprime(pub.n, pub.n.bitLength().toJSNumber());
-        } while (omega.greaterOrEquals(pub.n)); // This should always be false and is just a precaution
+        let omega: BigInteger | undefined;
         let mk: number = -1;
 
         // For reach valid message m[i]
         for (let i: number = 0; i < valid.length; i++) {
             // u[i] = c / g^m[i] mod n^2
             let mi: BigInteger = valid[i];
-            let gmi: BigInteger = pub.g.modPow(mi, pub.nSquared);
+            let gmi: BigInteger = BigMath.modPow(pub.g, mi, pub.nSquared);
             let ui: BigInteger = c.multiply(gmi.modInv(pub.nSquared)).mod(pub.nSquared);
 
             if (mi.notEquals(m)) {
                 // e1,e2,e3, ...,ek ∈ 2^b < min(p, q)
-                let ei = BigMath.generateRandom(pub.n.bitLength().toJSNumber() / 2 - 1); // bit length of p and q = pubkey length / 2
+                let ei = BigMath.generateRandom(pub.n.bitLength().toJSNumber() / 2 - 1, source); // bit length of p and q = pubkey length / 2
                 commitment.e[i] = ei;
 
                 // z1, z2, z3, ..., zk ∈ Z∗n
-                let zi = BigMath.generateCoprime(pub.n, pub.n.bitLength().toJSNumber() - 1);
+                let zi: BigInteger, zin: BigInteger;
+                if (pool) {
+                    [zi, zin] = pool.take(pub, source);
+                } else {
+                    zi = BigMath.generateCoprime(pub.n, pub.n.bitLength().toJSNumber() - 1, source);
+                    zin = BigMath.modPow(zi, pub.n, pub.nSquared);
+                }
                 commitment.z[i] = zi;
 
                 // a1, a2, a3, ..., ak where a[i] = z[i]^n / u[i]^e[i] mod n^2
-                let zin: BigInteger = zi.modPow(pub.n, pub.nSquared);
-                let uiei: BigInteger = ui.modPow(ei, pub.nSquared);
+                let uiei: BigInteger = BigMath.modPow(ui, ei, pub.nSquared);
                 let ai: BigInteger = zin.multiply(uiei.modInv(pub.nSquared)).mod(pub.nSquared);
                 commitment.a[i] = ai;
             } else {
                 // For m[i] = m, we calculate a[i] as follows
                 // a[i] = ω^n mod n^2
-                let ai = omega.modPow(pub.n, pub.nSquared);
+                let ai: BigInteger;
+                [omega, ai] = pool ? pool.take(pub, source) : RandomnessPool.generate(pub, source);
                 commitment.a[i] = ai;
 
                 mk = i;
             }
         }
 
-        if (mk < 0) throw new Error("Message m isn't included in the list of valid messages");
+        if (mk < 0 || omega === undefined) throw new Error("Message m isn't included in the list of valid messages");
 
-        // Non-interactive version
-        let challenge: BigInteger = BigMath.bigIntHashFromBigIntArray(commitment.a);
+        // Non-interactive version bound to the full statement
+        let challenge: BigInteger = this.zkpChallenge(c, valid, commitment.a, pub, context);
 
         // modulo equal to the length of the hash - 256 bits
         let hashMod: BigInteger = bigInt(2).pow(256);
@@ -149,18 +918,16 @@ export default class Paillier {
         let esum: BigInteger = commitment.e
             .reduce((prev: BigInteger, cur: BigInteger) => {
                 return prev.add(cur);
-            })
+            }, bigInt.zero)
             .mod(hashMod);
         // e[k] = e_challange - sum(e[i])
         let ek = BigMath.positiveMod(challenge.minus(esum), hashMod);
 
         commitment.e[mk] = ek;
         // z[k] = ω ∗ r^e[k] mod n
-        let zk: BigInteger = omega.multiply(r.modPow(ek, pub.n)).mod(pub.n);
+        let zk: BigInteger = omega.multiply(BigMath.modPow(r, ek, pub.n)).mod(pub.n);
         commitment.z[mk] = zk;
 
-        commitment.makeStringifyToBase64();
-
         return commitment;
     }
 
@@ -170,6 +937,7 @@ export default class Paillier {
      * @param {BigInteger[]} valid - list of valid messages
      * @param {ZkpCommitment} commitment - The ZKP commitment
      * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof must be bound to
      * @returns {boolean} true if correct
      */
     public static verifyZkp(
@@ -177,40 +945,74 @@ export default class Paillier {
         valid: Array<BigInteger>,
         commitment: ZkpCommitment,
         pub: PublicKey,
+        context: string = "",
     ): boolean {
         if (valid.length * 3 != commitment.a.length + commitment.e.length + commitment.z.length)
             throw new RangeError("Invalid commitment or valid messages");
 
-        // sum(e[k]) = challenger mod 2^2b
-        let challenger: BigInteger = BigMath.bigIntHashFromBigIntArray(commitment.a);
-        let hashMod: BigInteger = bigInt(2).pow(256);
-        let esum: BigInteger = commitment.e
-            .reduce((prev: BigInteger, cur: BigInteger) => {
-                return prev.add(cur);
-            })
-            .mod(hashMod);
-        // If this fails, then the prover did not follow the rules or attempted to cheat
-        if (esum.notEquals(challenger)) return false;
+        // Legacy commitments aren't bound to the statement and can be replayed
+        if (commitment.version != ZkpCommitment.VERSION) return false;
 
-        // For reach valid message m[i]
-        for (let i = 0; i < valid.length; i++) {
-            // u[i] = c / g^m[i] mod n^2
-            let mi: BigInteger = valid[i];
-            let gmi: BigInteger = pub.g.modPow(mi, pub.nSquared);
-            let ui: BigInteger = c.multiply(gmi.modInv(pub.nSquared)).mod(pub.nSquared);
+        let challenger: BigInteger = this.zkpChallenge(c, valid, commitment.a, pub, context);
+        return this.verifyZkpWithChallenge(c, valid, commitment, pub, challenger);
+    }
 
-            // z[i]^n = a[i] * u[i]^e[i] nod n^2
-            let zi: BigInteger = commitment.z[i];
-            let ai: BigInteger = commitment.a[i];
-            let ei: BigInteger = commitment.e[i];
-            let zin: BigInteger = zi.modPow(pub.n, pub.nSquared);
-            let uiei: BigInteger = ui.modPow(ei, pub.nSquared);
-            let aiuiei: BigInteger = ai.multiply(uiei).mod(pub.nSquared);
-            // If this fails, then the prover did not follow the rules or attempted to cheat
-            if (zin.notEquals(aiuiei)) return false;
-        }
+    /**
+     * Verifies the validity of a zero-knowledge proof in the legacy format.
+     * The legacy proofs are not bound to the ciphertext or the election, use only for archived ballots.
+     * @param {BigInteger} c - encrypted message
+     * @param {BigInteger[]} valid - list of valid messages
+     * @param {ZkpCommitment} commitment - The ZKP commitment
+     * @param {PublicKey} pub - public key to encrypt with
+     * @returns {boolean} true if correct
+     */
+    public static verifyLegacyZkp(
+        c: BigInteger,
+        valid: Array<BigInteger>,
+        commitment: ZkpCommitment,
+        pub: PublicKey,
+    ): boolean {
+        if (valid.length * 3 != commitment.a.length + commitment.e.length + commitment.z.length)
+            throw new RangeError("Invalid commitment or valid messages");
+        if (!commitment.isLegacy()) return false;
 
-        return true;
+        let challenger: BigInteger = BigMath.bigIntHashFromBigIntArray(commitment.a);
+        return this.verifyZkpWithChallenge(c, valid, commitment, pub, challenger);
+    }
+
+    /**
+     * Verifies many zero-knowledge proofs under the same public key at once.
+     * All proof equations are combined with random exponents into a single check, which is several times faster
+     * than verifyZkp for every ballot. If the check fails, the invalid proofs are found by bisection.
+     * @param {Array<[BigInteger, BigInteger[], ZkpCommitment, string?]>} ballots - encrypted message, list of valid
+     * messages, ZKP commitment and optionally the context of every ballot
+     * @param {PublicKey} pub - public key the messages are encrypted with
+     * @param {string} [context=""] - election context of the ballots without own context
+     * @param {RandomSource} [source] - source of the random exponents, the one of BigMath.useRandomSource by default
+     * @returns {number[]} Indexes of the ballots with invalid proof, empty if all are valid
+     */
+    public static batchVerifyZkp(
+        ballots: Array<[BigInteger, BigInteger[], ZkpCommitment, string?]>,
+        pub: PublicKey,
+        context: string = "",
+        source?: RandomSource,
+    ): number[] {
+        let invalid = new Array<number>();
+        let candidates = new Array<number>();
+        ballots.forEach(([c, valid, commitment, ballotContext], index) => {
+            let ok =
+                c.greater(bigInt.zero) &&
+                c.lesser(pub.nSquared) &&
+                commitment.version == ZkpCommitment.VERSION &&
+                [commitment.a, commitment.e, commitment.z].every((list) => list.length == valid.length) &&
+                commitment.a.concat(commitment.z).every((x) => x.greater(bigInt.zero) && x.lesser(pub.nSquared)) &&
+                this.zkpChallengeMatches(
+                    commitment,
+                    this.zkpChallenge(c, valid, commitment.a, pub, ballotContext ?? context),
+                );
+            (ok ? candidates : invalid).push(index);
+        });
+        return invalid.concat(this.bisectZkp(ballots, candidates, pub, source)).sort((a, b) => a - b);
     }
 
     /**
@@ -223,13 +1025,191 @@ export default class Paillier {
         // The ciphertext c < n ^ 2
         if (c.greaterOrEquals(pub.nSquared)) throw new Error("ciphertext must be less than modulo n^2");
 
+        if (priv.p && priv.q && priv.hp && priv.hq && priv.qInv) {
+            // mp = L_p(c^(p-1) mod p^2) * hp mod p, the same for q and m = CRT(mp, mq)
+            let mp = this.crtL(c, priv.p).multiply(priv.hp).mod(priv.p);
+            let mq = this.crtL(c, priv.q).multiply(priv.hq).mod(priv.q);
+            return this.crt(mp, mq, priv.p, priv.q, priv.qInv);
+        }
+
         // m = L(c^lambda mod n^2) * mu mod n
         // L(u) = (u - 1) / n
-        let u: BigInteger = c.modPow(priv.lambda, pub.nSquared);
+        let u: BigInteger = BigMath.modPow(c, priv.lambda, pub.nSquared);
         let m: BigInteger = u.minus(bigInt.one).divide(pub.n).multiply(priv.mu).mod(pub.n);
         return m;
     }
 
+    /**
+     * Decrypts an encrypted message and generates a zero-knowledge proof of the correct decryption
+     * @param {BigInteger} c - encrypted message
+     * @param {PublicKey} pub - public key
+     * @param {PrivateKey} priv - private key
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, ResidueProof]} Plain message and the proof
+     */
+    public static decryptWithProof(
+        c: BigInteger,
+        pub: PublicKey,
+        priv: PrivateKey,
+        source?: RandomSource,
+    ): [BigInteger, ResidueProof] {
+        let m = this.decrypt(c, pub, priv);
+        let proof = this.createDecryptionProof(c, m, pub, priv, source);
+        return [m, proof];
+    }
+
+    /**
+     * Creates a zero-knowledge proof that an encrypted message decrypts to the plain message
+     * @param {BigInteger} c - encrypted message
+     * @param {BigInteger} m - plain message
+     * @param {PublicKey} pub - public key
+     * @param {PrivateKey} priv - private key
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {ResidueProof} The proof
+     */
+    public static createDecryptionProof(
+        c: BigInteger,
+        m: BigInteger,
+        pub: PublicKey,
+        priv: PrivateKey,
+        source?: RandomSource,
+    ): ResidueProof {
+        // u = c / g^m mod n^2 = r^n mod n^2
+        let u: BigInteger = this.residueOf(c, m, pub);
+
+        // Recover the multiplier r = (u mod n)^(1/n mod lambda) mod n
+        let r: BigInteger = this.nthRoot(u.mod(pub.n), pub, priv);
+        if (BigMath.modPow(r, pub.n, pub.nSquared).notEquals(u))
+            throw new Error("Ciphertext doesn't decrypt to message m");
+
+        return this.createResidueProof(u, r, this.decryptionTranscript(c, m, pub), pub, source);
+    }
+
+    /**
+     * Verifies a zero-knowledge proof that an encrypted message decrypts to the plain message
+     * @param {BigInteger} c - encrypted message
+     * @param {BigInteger} m - plain message
+     * @param {ResidueProof} proof - the proof
+     * @param {PublicKey} pub - public key
+     * @returns {boolean} true if correct
+     */
+    public static verifyDecryptionProof(c: BigInteger, m: BigInteger, proof: ResidueProof, pub: PublicKey): boolean {
+        if (c.greaterOrEquals(pub.nSquared) || m.greaterOrEquals(pub.n)) return false;
+
+        // u = c / g^m mod n^2
+        let u: BigInteger = this.residueOf(c, m, pub);
+        return this.verifyResidueProof(u, proof, this.decryptionTranscript(c, m, pub), pub);
+    }
+
+    /**
+     * Re-randomizes an encrypted message by multiplying it with a fresh encryption of 0.
+     * The result decrypts to the same message but can't be linked to the original ciphertext.
+     * @param {BigInteger} c - encrypted message
+     * @param {PublicKey} pub - public key the message is encrypted with
+     * @param {RandomnessPool} [pool] - precomputed randomness to take from
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {BigInteger} The re-randomized encrypted message
+     */
+    public static rerandomize(c: BigInteger, pub: PublicKey, pool?: RandomnessPool, source?: RandomSource): BigInteger {
+        let [c2, s] = this.rerandomizeWithNonce(c, pub, pool, source);
+        return c2;
+    }
+
+    /**
+     * Re-randomizes an encrypted message and returns the random multiplier s used for it.
+     * The multiplier is needed for creating the proof of re-encryption and must be kept secret.
+     * @param {BigInteger} c - encrypted message
+     * @param {PublicKey} pub - public key the message is encrypted with
+     * @param {RandomnessPool} [pool] - precomputed randomness to take from
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, BigInteger]} The re-randomized encrypted message and the multiplier s
+     */
+    public static rerandomizeWithNonce(
+        c: BigInteger,
+        pub: PublicKey,
+        pool?: RandomnessPool,
+        source?: RandomSource,
+    ): [BigInteger, BigInteger] {
+        if (c.lesserOrEquals(bigInt.zero) || c.greaterOrEquals(pub.nSquared))
+            throw new RangeError("Ciphertext must be between 0 and n^2");
+
+        // c' = c * s^n mod n^2
+        let [s, sn] = pool ? pool.take(pub, source) : RandomnessPool.generate(pub, source);
+        return [c.multiply(sn).mod(pub.nSquared), s];
+    }
+
+    /**
+     * Re-randomizes an encrypted message and generates a zero-knowledge proof of the re-encryption
+     * @param {BigInteger} c - encrypted message
+     * @param {PublicKey} pub - public key the message is encrypted with
+     * @param {string} [context=""] - context the proof is bound to, e.g. election and mix id
+     * @param {RandomnessPool} [pool] - precomputed randomness to take from
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, ResidueProof]} The re-randomized encrypted message and the proof
+     */
+    public static rerandomizeWithProof(
+        c: BigInteger,
+        pub: PublicKey,
+        context: string = "",
+        pool?: RandomnessPool,
+        source?: RandomSource,
+    ): [BigInteger, ResidueProof] {
+        let [c2, s] = this.rerandomizeWithNonce(c, pub, pool, source);
+        return [c2, this.createReencryptionProof(c, c2, s, pub, context, source)];
+    }
+
+    /**
+     * Creates a zero-knowledge proof that an encrypted message is a re-encryption of another
+     * @param {BigInteger} c - original encrypted message
+     * @param {BigInteger} c2 - re-randomized encrypted message
+     * @param {BigInteger} s - multiplier s where c2 = c * s^n mod n^2
+     * @param {PublicKey} pub - public key
+     * @param {string} [context=""] - context the proof is bound to, e.g. election and mix id
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {ResidueProof} The proof
+     */
+    public static createReencryptionProof(
+        c: BigInteger,
+        c2: BigInteger,
+        s: BigInteger,
+        pub: PublicKey,
+        context: string = "",
+        source?: RandomSource,
+    ): ResidueProof {
+        // u = c2 / c mod n^2 = s^n mod n^2
+        let u: BigInteger = c2.multiply(c.modInv(pub.nSquared)).mod(pub.nSquared);
+        if (BigMath.modPow(s, pub.n, pub.nSquared).notEquals(u))
+            throw new Error("Ciphertext isn't a re-encryption with multiplier s");
+
+        return this.createResidueProof(u, s, this.reencryptionTranscript(c, c2, pub, context), pub, source);
+    }
+
+    /**
+     * Verifies a zero-knowledge proof that an encrypted message is a re-encryption of another
+     * @param {BigInteger} c - original encrypted message
+     * @param {BigInteger} c2 - re-randomized encrypted message
+     * @param {ResidueProof} proof - the proof
+     * @param {PublicKey} pub - public key
+     * @param {string} [context=""] - context the proof must be bound to
+     * @returns {boolean} true if correct
+     */
+    public static verifyReencryptionProof(
+        c: BigInteger,
+        c2: BigInteger,
+        proof: ResidueProof,
+        pub: PublicKey,
+        context: string = "",
+    ): boolean {
+        for (let x of [c, c2]) {
+            if (x.lesserOrEquals(bigInt.zero) || x.greaterOrEquals(pub.nSquared)) return false;
+        }
+        if (bigInt.gcd(c, pub.n).notEquals(bigInt.one)) return false;
+
+        // u = c2 / c mod n^2
+        let u: BigInteger = c2.multiply(c.modInv(pub.nSquared)).mod(pub.nSquared);
+        return this.verifyResidueProof(u, proof, this.reencryptionTranscript(c, c2, pub, context), pub);
+    }
+
     /**
      * Digitally signs a message
      * @param {BigInteger} m - plain message
@@ -242,15 +1222,13 @@ export default class Paillier {
         let h = BigMath.bigIntHashFromBigInt(m);
 
         // s1 = (L(h(m)^lambda mod n^2) / L(g^lambda mod n^2)) mod n
-        let s1Num = h.modPow(priv.lambda, pub.nSquared).minus(bigInt(1)).divide(pub.n);
-        let s1Den = priv.mu;
-        let s1 = s1Num.multiply(s1Den).mod(pub.n);
+        // which is the decryption of h(m)
+        let s1 = this.decrypt(h, pub, priv);
 
         // s2 = ((h(m)g^-s1)^(1/n mod lambda)) mod n
-        let invN = pub.n.modInv(priv.lambda);
-        let test = pub.g.modPow(s1, pub.n);
+        let test = BigMath.modPow(pub.g, s1, pub.n);
         let invG = test.modInv(pub.n);
-        let s2 = h.multiply(invG).modPow(invN, pub.n);
+        let s2 = this.nthRoot(h.multiply(invG).mod(pub.n), pub, priv);
 
         return new Signature(s1, s2);
     }
@@ -265,12 +1243,41 @@ export default class Paillier {
     public static verifySignature(m: BigInteger, sig: Signature, pub: PublicKey): boolean {
         // h(m) ?= g^s1 * s2^n | mod n^2
         let h = BigMath.bigIntHashFromBigInt(m);
-        let gs1 = pub.g.modPow(sig.s1, pub.nSquared);
-        let s2n = sig.s2.modPow(pub.n, pub.nSquared);
+        let gs1 = BigMath.modPow(pub.g, sig.s1, pub.nSquared);
+        let s2n = BigMath.modPow(sig.s2, pub.n, pub.nSquared);
         let hm = gs1.multiply(s2n).mod(pub.nSquared);
         return hm.equals(h);
     }
 
+    /**
+     * Certifies the voting weight of a voter, e.g. its share count
+     * @param {string} voterId - The id of the voter
+     * @param {BigInteger} weight - The weight of the voter's votes
+     * @param {PublicKey} pub - public key
+     * @param {PrivateKey} priv - private key
+     * @returns {WeightCertificate} The signed weight certificate
+     */
+    public static createWeightCertificate(
+        voterId: string,
+        weight: BigInteger,
+        pub: PublicKey,
+        priv: PrivateKey,
+    ): WeightCertificate {
+        if (weight.lesser(bigInt.one)) throw new RangeError("Weight must be positive");
+        let sig = this.createSignature(this.weightMessage(voterId, weight, pub), pub, priv);
+        return new WeightCertificate(voterId, weight, sig);
+    }
+
+    /**
+     * Verifies the signature of a weight certificate
+     * @param {WeightCertificate} cert - The weight certificate
+     * @param {PublicKey} pub - public key
+     * @returns {boolean} True if valid
+     */
+    public static verifyWeightCertificate(cert: WeightCertificate, pub: PublicKey): boolean {
+        return this.verifySignature(this.weightMessage(cert.voterId, cert.weight, pub), cert.signature, pub);
+    }
+
     /**
      * Adds two encrypted messages and returns the encrypted sum
      * @param {BigInteger} em1 - encrypted message 1
@@ -292,7 +1299,7 @@ export default class Paillier {
      */
     public static addScalar(em: BigInteger, k: BigInteger, pub: PublicKey): BigInteger {
         // d(e(m) * g^k mod n^2) = m + k mod n
-        return em.multiply(pub.g.modPow(k, pub.nSquared)).mod(pub.nSquared);
+        return em.multiply(BigMath.modPow(pub.g, k, pub.nSquared)).mod(pub.nSquared);
     }
 
     /**
@@ -304,19 +1311,391 @@ export default class Paillier {
      */
     public static mulScalar(em: BigInteger, k: BigInteger, pub: PublicKey): BigInteger {
         // d(e(m)^k mod n^2) = k * m mod n
-        return em.modPow(k, pub.nSquared);
+        return BigMath.modPow(em, k, pub.nSquared);
     }
 
     /**
-     * Encrypts a message with a random multiplier
+     * Derives the challenge of a zero-knowledge proof from the full statement and the context
      */
-    private static encryptWithoutR(m: BigInteger, pub: PublicKey): [BigInteger, BigInteger] {
-        // Find a random r where 𝑟 ∈ 𝑍𝑛*2
-        let r: BigInteger = bigInt.zero;
+    private static zkpChallenge(
+        c: BigInteger,
+        valid: BigInteger[],
+        a: BigInteger[],
+        pub: PublicKey,
+        context: string,
+    ): BigInteger {
+        return new Transcript("phe-voting-js/zkp/v2")
+            .appendBigInt("n", pub.n)
+            .appendBigInt("g", pub.g)
+            .appendBigInt("c", c)
+            .appendBigIntArray("valid", valid)
+            .appendString("context", context)
+            .appendBigIntArray("a", a)
+            .challenge();
+    }
+
+    /**
+     * Checks that sum(e[k]) = challenger mod 2^2b
+     */
+    private static zkpChallengeMatches(commitment: ZkpCommitment, challenger: BigInteger): boolean {
+        let hashMod: BigInteger = bigInt(2).pow(256);
+        let esum: BigInteger = commitment.e
+            .reduce((prev: BigInteger, cur: BigInteger) => {
+                return prev.add(cur);
+            }, bigInt.zero)
+            .mod(hashMod);
+        return esum.equals(challenger);
+    }
+
+    /**
+     * Finds the ballots with invalid proof by splitting the failing batches in halves
+     */
+    private static bisectZkp(
+        ballots: Array<[BigInteger, BigInteger[], ZkpCommitment, string?]>,
+        indexes: number[],
+        pub: PublicKey,
+        source?: RandomSource,
+    ): number[] {
+        if (indexes.length == 0 || this.verifyZkpBatch(ballots, indexes, pub, source)) return [];
+        if (indexes.length == 1) return indexes;
+        let half = Math.ceil(indexes.length / 2);
+        let left = this.bisectZkp(ballots, indexes.slice(0, half), pub, source);
+        let right = this.bisectZkp(ballots, indexes.slice(half), pub, source);
+        return left.concat(right);
+    }
+
+    /**
+     * Checks the equations z[i]^n = a[i] * u[i]^e[i] mod n^2 of many proofs with a random linear combination:
+     * (prod z[i]^r[i])^n * g^sum(r[i] * e[i] * m[i]) = prod a[i]^r[i] * prod c^sum(r[i] * e[i]) mod n^2
+     * with random 128 bit exponents r[i]. The challenges must already be checked.
+     */
+    private static verifyZkpBatch(
+        ballots: Array<[BigInteger, BigInteger[], ZkpCommitment, string?]>,
+        indexes: number[],
+        pub: PublicKey,
+        source?: RandomSource,
+    ): boolean {
+        let zBases = new Array<BigInteger>();
+        let zExps = new Array<BigInteger>();
+        let rightBases = new Array<BigInteger>();
+        let rightExps = new Array<BigInteger>();
+        let gExponent: BigInteger = bigInt.zero;
+        for (let index of indexes) {
+            let [c, valid, commitment] = ballots[index];
+            let cExponent: BigInteger = bigInt.zero;
+            for (let i = 0; i < valid.length; i++) {
+                let r = BigMath.generateRandom(128, source);
+                zBases.push(commitment.z[i]);
+                zExps.push(r);
+                rightBases.push(commitment.a[i]);
+                rightExps.push(r);
+                let re = r.multiply(commitment.e[i]);
+                cExponent = cExponent.add(re);
+                gExponent = gExponent.add(re.multiply(valid[i]));
+            }
+            rightBases.push(c);
+            rightExps.push(cExponent);
+        }
+        let zProduct = BigMath.multiModPow(zBases, zExps, pub.nSquared);
+        let left = BigMath.multiModPow([zProduct, pub.g], [pub.n, gExponent], pub.nSquared);
+        return left.equals(BigMath.multiModPow(rightBases, rightExps, pub.nSquared));
+    }
+
+    /**
+     * Verifies the validity of a zero-knowledge proof against the challenge
+     */
+    private static verifyZkpWithChallenge(
+        c: BigInteger,
+        valid: Array<BigInteger>,
+        commitment: ZkpCommitment,
+        pub: PublicKey,
+        challenger: BigInteger,
+    ): boolean {
+        // If this fails, then the prover did not follow the rules or attempted to cheat
+        if (!this.zkpChallengeMatches(commitment, challenger)) return false;
+
+        // For reach valid message m[i]
+        for (let i = 0; i < valid.length; i++) {
+            // u[i] = c / g^m[i] mod n^2
+            let mi: BigInteger = valid[i];
+            let gmi: BigInteger = BigMath.modPow(pub.g, mi, pub.nSquared);
+            let ui: BigInteger = c.multiply(gmi.modInv(pub.nSquared)).mod(pub.nSquared);
+
+            // z[i]^n = a[i] * u[i]^e[i] nod n^2
+            let zi: BigInteger = commitment.z[i];
+            let ai: BigInteger = commitment.a[i];
+            let ei: BigInteger = commitment.e[i];
+            let zin: BigInteger = BigMath.modPow(zi, pub.n, pub.nSquared);
+            let uiei: BigInteger = BigMath.modPow(ui, ei, pub.nSquared);
+            let aiuiei: BigInteger = ai.multiply(uiei).mod(pub.nSquared);
+            // If this fails, then the prover did not follow the rules or attempted to cheat
+            if (zin.notEquals(aiuiei)) return false;
+        }
+
+        return true;
+    }
+
+    /**
+     * Starts the transcript of a proof of correct decryption
+     */
+    private static decryptionTranscript(c: BigInteger, m: BigInteger, pub: PublicKey): Transcript {
+        return new Transcript("phe-voting-js/decryption/v1")
+            .appendBigInt("n", pub.n)
+            .appendBigInt("g", pub.g)
+            .appendBigInt("c", c)
+            .appendBigInt("m", m);
+    }
+
+    /**
+     * Binds the proof of a weighted vote to the voter id and the weight of the certificate
+     */
+    private static weightedContext(context: string, cert: WeightCertificate): string {
+        return JSON.stringify([context, cert.voterId, cert.weight.toString()]);
+    }
+
+    /**
+     * Derives the challenges y ∈ Z_n of the modulus proof from the public key and w
+     */
+    private static modulusChallenges(pub: PublicKey, w: BigInteger, context: string): BigInteger[] {
+        let transcript = new Transcript("phe-voting-js/modulus/v1")
+            .appendBigInt("n", pub.n)
+            .appendBigInt("g", pub.g)
+            .appendString("context", context)
+            .appendBigInt("w", w);
+
+        // Every challenge gives 256 bits, take 128 more than n has so y mod n is uniform
+        let blocks = Math.ceil((pub.n.bitLength().toJSNumber() + 128) / 256);
+        let challenges = new Array<BigInteger>();
+        for (let i = 0; i < ModulusProof.ROUNDS; i++) {
+            let y = bigInt.zero;
+            for (let j = 0; j < blocks; j++) {
+                y = y.shiftLeft(256).add(transcript.appendString("y", `${i}/${j}`).challenge());
+            }
+            challenges.push(y.mod(pub.n));
+        }
+        return challenges;
+    }
+
+    /**
+     * Transcript of the statement c2 is a re-encryption of c
+     */
+    private static reencryptionTranscript(c: BigInteger, c2: BigInteger, pub: PublicKey, context: string): Transcript {
+        return new Transcript("phe-voting-js/reencryption/v1")
+            .appendBigInt("n", pub.n)
+            .appendBigInt("g", pub.g)
+            .appendString("context", context)
+            .appendBigInt("c", c)
+            .appendBigInt("c2", c2);
+    }
+
+    /**
+     * Homomorphically adds a list of encrypted messages
+     */
+    private static sumEncrypted(list: BigInteger[], pub: PublicKey): BigInteger {
+        let result: BigInteger = bigInt.one;
+        for (let c of list) {
+            result = this.addEncrypted(result, c, pub);
+        }
+        return result;
+    }
+
+    /**
+     * Lists the valid number of selections min, min + 1, ..., max
+     */
+    private static selectionCounts(minSelections: number, maxSelections: number): BigInteger[] {
+        let result = new Array<BigInteger>();
+        for (let count = minSelections; count <= maxSelections; count++) {
+            result.push(bigInt(count));
+        }
+        return result;
+    }
+
+    /**
+     * Calculates u = c / g^m mod n^2 which is an n-th residue iff c encrypts m
+     */
+    private static residueOf(c: BigInteger, m: BigInteger, pub: PublicKey): BigInteger {
+        return c.multiply(BigMath.modPow(pub.g, m, pub.nSquared).modInv(pub.nSquared)).mod(pub.nSquared);
+    }
+
+    /**
+     * Multiplies the random multipliers of encrypted messages that are added together
+     */
+    private static multiplyNonces(list: BigInteger[], pub: PublicKey): BigInteger {
+        let result: BigInteger = bigInt.one;
+        for (let r of list) {
+            result = result.multiply(r).mod(pub.n);
+        }
+        return result;
+    }
+
+    /**
+     * Verifies a zero-knowledge proof that an encrypted message is 0 or 1
+     */
+    private static verifyBitZkp(c: BigInteger, commitment: ZkpCommitment, pub: PublicKey, context: string): boolean {
+        if (commitment.a.length != 2 || commitment.e.length != 2 || commitment.z.length != 2) return false;
+        return this.verifyZkp(c, [bigInt.zero, bigInt.one], commitment, pub, context);
+    }
+
+    /**
+     * Returns a row (choice) or a column (position) of a square matrix stored by rows
+     */
+    private static matrixLine<T>(matrix: T[], size: number, index: number, row: boolean): T[] {
+        let result = new Array<T>();
+        for (let i = 0; i < size; i++) {
+            result.push(row ? matrix[index * size + i] : matrix[i * size + index]);
+        }
+        return result;
+    }
+
+    /**
+     * Returns the index of the preference of choice i over choice j where the diagonal is omitted
+     */
+    private static preferenceIndex(i: number, j: number, numChoices: number): number {
+        return i * (numChoices - 1) + (j < i ? j : j - 1);
+    }
+
+    /**
+     * Calculates u = E(sum(y[i][j])) / E(Borda points of i) which is an n-th residue iff the score
+     * of the choice i matches its position. The random multiplier of u is calculated when nonces are given.
+     */
+    private static rankingScore(
+        ballot: RankedBallot,
+        preferenceNonces: BigInteger[],
+        placementNonces: BigInteger[],
+        choice: number,
+        pub: PublicKey,
+    ): [BigInteger, BigInteger] {
+        let numChoices = Math.round(Math.sqrt(ballot.placements.length));
+        let score: BigInteger = bigInt.one;
+        let nonce: BigInteger = bigInt.one;
+        for (let j = 0; j < numChoices; j++) {
+            if (j == choice) continue;
+            let ij = this.preferenceIndex(choice, j, numChoices);
+            score = this.addEncrypted(score, ballot.preferences[ij], pub);
+            if (preferenceNonces.length > 0) nonce = nonce.multiply(preferenceNonces[ij]).mod(pub.n);
+        }
+        for (let pos = 0; pos < numChoices - 1; pos++) {
+            let points = bigInt(numChoices - 1 - pos);
+            let x = ballot.placements[choice * numChoices + pos];
+            score = score.multiply(this.mulScalar(x, points, pub).modInv(pub.nSquared)).mod(pub.nSquared);
+            if (placementNonces.length > 0) {
+                let r = BigMath.modPow(placementNonces[choice * numChoices + pos], points, pub.n);
+                nonce = nonce.multiply(r.modInv(pub.n)).mod(pub.n);
+            }
+        }
+        return [score, nonce];
+    }
+
+    /**
+     * Starts the transcript of a proof about a ranked ballot
+     */
+    private static rankingTranscript(kind: string, index: number, pub: PublicKey, context: string): Transcript {
+        return new Transcript("phe-voting-js/ranking/v1")
+            .appendBigInt("n", pub.n)
+            .appendBigInt("g", pub.g)
+            .appendString("kind", kind)
+            .appendString("index", index.toString())
+            .appendString("context", context);
+    }
+
+    /**
+     * Creates the message signed in a weight certificate
+     */
+    private static weightMessage(voterId: string, weight: BigInteger, pub: PublicKey): BigInteger {
+        return new Transcript("phe-voting-js/weight/v1")
+            .appendBigInt("n", pub.n)
+            .appendString("voterId", voterId)
+            .appendBigInt("weight", weight)
+            .challenge();
+    }
+
+    /**
+     * Homomorphically recombines the encrypted bits to E(sum(b[i] * 2^i))
+     */
+    private static recombineBits(bits: BigInteger[], pub: PublicKey): BigInteger {
+        let result: BigInteger = bigInt.one;
+        for (let i = 0; i < bits.length; i++) {
+            result = result.multiply(BigMath.modPow(bits[i], bigInt.one.shiftLeft(i), pub.nSquared)).mod(pub.nSquared);
+        }
+        return result;
+    }
+
+    /**
+     * Starts the transcript of a range proof
+     */
+    private static rangeTranscript(c: BigInteger, bits: BigInteger[], pub: PublicKey, context: string): Transcript {
+        return new Transcript("phe-voting-js/range/v1")
+            .appendBigInt("n", pub.n)
+            .appendBigInt("g", pub.g)
+            .appendBigInt("c", c)
+            .appendBigIntArray("bits", bits)
+            .appendString("context", context);
+    }
+
+    /**
+     * Creates a zero-knowledge proof of knowledge of r where u = r^n mod n^2
+     */
+    private static createResidueProof(
+        u: BigInteger,
+        r: BigInteger,
+        transcript: Transcript,
+        pub: PublicKey,
+        source?: RandomSource,
+    ): ResidueProof {
+        // Choose random ω ∈ Z∗n
+        let omega: BigInteger;
         do {
-            r = BigMath.generateCoprime(pub.n, pub.n.bitLength().toJSNumber());
-        } while (r.greaterOrEquals(pub.n)); // This should always be false and is just a precaution
-        return this.encryptWithR(m, pub, r);
+            omega = BigMath.generateCoprime(pub.n, pub.n.bitLength().toJSNumber(), source);
+        } while (omega.greaterOrEquals(pub.n)); // This should always be false and is just a precaution
+
+        // a = ω^n mod n^2
+        let a: BigInteger = BigMath.modPow(omega, pub.n, pub.nSquared);
+
+        // Non-interactive version
+        let e: BigInteger = transcript.appendBigInt("u", u).appendBigInt("a", a).challenge();
+
+        // z = ω * r^e mod n
+        let z: BigInteger = omega.multiply(BigMath.modPow(r, e, pub.n)).mod(pub.n);
+
+        return new ResidueProof(a, e, z);
+    }
+
+    /**
+     * Verifies a zero-knowledge proof of knowledge of r where u = r^n mod n^2
+     */
+    private static verifyResidueProof(
+        u: BigInteger,
+        proof: ResidueProof,
+        transcript: Transcript,
+        pub: PublicKey,
+    ): boolean {
+        if (proof.a.isZero() || proof.z.isZero() || proof.a.greaterOrEquals(pub.nSquared)) return false;
+
+        let e: BigInteger = transcript.appendBigInt("u", u).appendBigInt("a", proof.a).challenge();
+        // If this fails, then the prover did not follow the rules or attempted to cheat
+        if (e.notEquals(proof.e)) return false;
+
+        // z^n = a * u^e mod n^2
+        let zn: BigInteger = BigMath.modPow(proof.z, pub.n, pub.nSquared);
+        let aue: BigInteger = proof.a.multiply(BigMath.modPow(u, e, pub.nSquared)).mod(pub.nSquared);
+        return zn.equals(aue);
+    }
+
+    /**
+     * Encrypts a message with a random multiplier, taken from the pool if given
+     */
+    private static encryptWithoutR(
+        m: BigInteger,
+        pub: PublicKey,
+        pool?: RandomnessPool,
+        source?: RandomSource,
+    ): [BigInteger, BigInteger] {
+        // Plaintext is m where m < n
+        if (m.greaterOrEquals(pub.n)) throw Error("plaintext must be less than modulo n");
+
+        // Find a random r where 𝑟 ∈ 𝑍𝑛*2
+        let [r, rn] = pool ? pool.take(pub, source) : RandomnessPool.generate(pub, source);
+        return [this.encryptWithRn(m, pub, rn), r];
     }
 
     /**
@@ -326,13 +1705,56 @@ export default class Paillier {
         // Plaintext is m where m < n
         if (m.greaterOrEquals(pub.n)) throw Error("plaintext must be less than modulo n");
 
+        let rn = BigMath.modPow(r, pub.n, pub.nSquared);
+        return [this.encryptWithRn(m, pub, rn), r];
+    }
+
+    /**
+     * Encrypts a message with a precomputed r^n mod n^2
+     */
+    private static encryptWithRn(m: BigInteger, pub: PublicKey, rn: BigInteger): BigInteger {
         // Let ciphertext c = g^m * r^n mod n^2
         let gm = pub.n.multiply(m).add(bigInt.one).mod(pub.nSquared);
-        let rn = r.modPow(pub.n, pub.nSquared);
-        let c = gm.multiply(rn).mod(pub.nSquared);
+        return gm.multiply(rn).mod(pub.nSquared);
+    }
 
-        BigMath.makeStringifyToBase64(c);
+    /**
+     * Calculates the n-th root r = x^(1/n mod lambda) mod n of an n-th residue x,
+     * with CRT when the private key has the primes
+     */
+    private static nthRoot(x: BigInteger, pub: PublicKey, priv: PrivateKey): BigInteger {
+        if (priv.p && priv.q && priv.qInv) {
+            // rp = x^(1/n mod (p-1)) mod p, the same for q and r = CRT(rp, rq)
+            let pPrev = priv.p.minus(bigInt.one);
+            let qPrev = priv.q.minus(bigInt.one);
+            let rp = BigMath.modPow(x, pub.n.modInv(pPrev), priv.p);
+            let rq = BigMath.modPow(x, pub.n.modInv(qPrev), priv.q);
+            return this.crt(rp, rq, priv.p, priv.q, priv.qInv);
+        }
+        return BigMath.modPow(x, pub.n.modInv(priv.lambda), pub.n);
+    }
 
-        return [c, r];
+    /**
+     * L_p(x^(p-1) mod p^2) where L_p(u) = (u - 1) / p
+     */
+    private static crtL(x: BigInteger, p: BigInteger): BigInteger {
+        return BigMath.modPow(x, p.minus(bigInt.one), p.square()).minus(bigInt.one).divide(p);
+    }
+
+    /**
+     * h = L_p(g^(p-1) mod p^2)^-1 mod p
+     */
+    private static crtH(g: BigInteger, p: BigInteger): BigInteger {
+        return this.crtL(g, p).modInv(p);
+    }
+
+    /**
+     * Combines x mod p and x mod q to x mod pq with Garner's formula
+     */
+    private static crt(xp: BigInteger, xq: BigInteger, p: BigInteger, q: BigInteger, qInv: BigInteger): BigInteger {
+        // x = xq + q * ((xp - xq) * q^-1 mod p)
+        let h = xp.minus(xq).multiply(qInv).mod(p);
+        if (h.isNegative()) h = h.add(p);
+        return xq.add(q.multiply(h));
     }
 }
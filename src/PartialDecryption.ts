@@ -0,0 +1,44 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import EqualityProof from "./EqualityProof";
+
+/**
+ * A partial decryption of a ciphertext produced by a single trustee with its key share,
+ * with a proof that it is made with the key share behind the trustee's verification key
+ */
+export default class PartialDecryption {
+    public index: number;
+    public ci: BigInteger;
+    public threshold: number;
+    public numShares: number;
+    public proof: EqualityProof;
+
+    constructor(index: number, ci: BigInteger, threshold: number, numShares: number, proof: EqualityProof) {
+        this.index = index;
+        this.ci = ci;
+        this.threshold = threshold;
+        this.numShares = numShares;
+        this.proof = proof;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("PartialDecryption");
+        o.index = this.index;
+        o.ci = WireFormat.encodeBigInt(this.ci);
+        o.threshold = this.threshold;
+        o.numShares = this.numShares;
+        o.proof = this.proof;
+        return o;
+    }
+
+    public static from(o: any): PartialDecryption {
+        WireFormat.checkHeader(o, "PartialDecryption");
+        return new PartialDecryption(
+            WireFormat.decodeInteger(o.index, "index"),
+            WireFormat.decodeBigInt(o.ci, "ci"),
+            WireFormat.decodeInteger(o.threshold, "threshold"),
+            WireFormat.decodeInteger(o.numShares, "numShares"),
+            EqualityProof.from(o.proof),
+        );
+    }
+}
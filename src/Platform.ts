@@ -0,0 +1,95 @@
+import Sha256 from "./Sha256";
+
+/**
+ * The platform layer: random bytes and SHA-256 from the Node.js crypto module when it is available,
+ * otherwise WebCrypto getRandomValues and a pure SHA-256. Both give the same hashes.
+ */
+export default class Platform {
+    /**
+     * The Node.js crypto module, undefined in browsers
+     */
+    private static readonly nodeCrypto: any = Platform.nodeModule("crypto");
+
+    /**
+     * Whether random bytes and hashes come from the Node.js crypto module
+     */
+    private static node: boolean = Platform.nodeCrypto !== undefined;
+
+    /**
+     * Loads a Node.js module without making the bundles depend on it
+     * @param {string} name - name of the module
+     * @returns {any} The module, or undefined if not running on Node.js
+     */
+    public static nodeModule(name: string): any {
+        if (typeof process === "undefined" || !process.versions || !process.versions.node) return undefined;
+        if (typeof require !== "function") return undefined;
+        try {
+            return require(name);
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    /**
+     * @returns {boolean} true if random bytes and hashes come from the Node.js crypto module
+     */
+    public static isNodeCrypto(): boolean {
+        return Platform.node;
+    }
+
+    /**
+     * Switches between the Node.js crypto module and the browser implementation, e.g. to compare the results
+     * @param {boolean} enabled - true to use the Node.js crypto module
+     */
+    public static useNodeCrypto(enabled: boolean) {
+        if (enabled && Platform.nodeCrypto === undefined) throw new Error("Node.js crypto is not available");
+        Platform.node = enabled;
+    }
+
+    /**
+     * Generates cryptographically secure random bytes
+     * @param {number} length - number of bytes
+     * @returns {Uint8Array} Random bytes
+     */
+    public static randomBytes(length: number): Uint8Array {
+        if (Platform.node) return new Uint8Array(Platform.nodeCrypto.randomBytes(length));
+        if (typeof crypto === "undefined" || typeof crypto.getRandomValues !== "function")
+            throw new Error("No secure random generator available");
+        let result = new Uint8Array(length);
+        // getRandomValues fills at most 65536 bytes at once
+        for (let offset = 0; offset < length; offset += 65536) {
+            crypto.getRandomValues(result.subarray(offset, Math.min(offset + 65536, length)));
+        }
+        return result;
+    }
+
+    /**
+     * Creates SHA256 hash from the concatenation of byte arrays
+     * @param {Uint8Array[]} parts - the data
+     * @returns {Uint8Array} Hash bytes
+     */
+    public static sha256(parts: Uint8Array[]): Uint8Array {
+        if (!Platform.node) return Sha256.hash(parts);
+        let hash = Platform.nodeCrypto.createHash("sha256");
+        for (let part of parts) hash.update(part);
+        return new Uint8Array(hash.digest());
+    }
+
+    /**
+     * HMAC with SHA256 (RFC 2104)
+     * @param {Uint8Array} key - the key
+     * @param {Uint8Array} data - the data
+     * @returns {Uint8Array} The 32 bytes MAC
+     */
+    public static hmacSha256(key: Uint8Array, data: Uint8Array): Uint8Array {
+        if (Platform.node) return new Uint8Array(Platform.nodeCrypto.createHmac("sha256", key).update(data).digest());
+        if (key.length > 64) key = Sha256.hash([key]);
+        let inner = new Uint8Array(64);
+        let outer = new Uint8Array(64);
+        for (let i = 0; i < 64; i++) {
+            inner[i] = (key[i] || 0) ^ 0x36;
+            outer[i] = (key[i] || 0) ^ 0x5c;
+        }
+        return Sha256.hash([outer, Sha256.hash([inner, data])]);
+    }
+}
@@ -1,14 +1,140 @@
-import { BigInteger } from "big-integer";
+import { BigInteger, default as bigInt } from "big-integer";
+import WireFormat from "./WireFormat";
+import BinaryWriter from "./BinaryWriter";
+import BinaryReader from "./BinaryReader";
 
 /**
- * A private key in the Paillier system
+ * A private key in the Paillier system.
+ * The extended form also keeps the primes p and q of the modulus and the precomputed values
+ * for decryption and signing with the Chinese Remainder Theorem.
+ * Keys in the old form with only lambda and mu are still accepted.
  */
 export default class PrivateKey {
     public lambda: BigInteger;
     public mu: BigInteger;
+    public p?: BigInteger;
+    public q?: BigInteger;
+    /**
+     * hp = L_p(g^(p-1) mod p^2)^-1 mod p
+     */
+    public hp?: BigInteger;
+    /**
+     * hq = L_q(g^(q-1) mod q^2)^-1 mod q
+     */
+    public hq?: BigInteger;
+    /**
+     * CRT coefficient q^-1 mod p
+     */
+    public qInv?: BigInteger;
 
-    constructor(lambda: BigInteger, mu: BigInteger) {
+    /**
+     * @param {BigInteger} lambda - lambda = lcm(p - 1, q - 1)
+     * @param {BigInteger} mu - mu = L(g^lambda mod n^2)^-1 mod n
+     * @param {BigInteger} [p] - first prime of the modulus
+     * @param {BigInteger} [q] - second prime of the modulus
+     * @param {BigInteger} [hp] - hp = L_p(g^(p-1) mod p^2)^-1 mod p
+     * @param {BigInteger} [hq] - hq = L_q(g^(q-1) mod q^2)^-1 mod q
+     */
+    constructor(lambda: BigInteger, mu: BigInteger, p?: BigInteger, q?: BigInteger, hp?: BigInteger, hq?: BigInteger) {
         this.lambda = lambda;
         this.mu = mu;
+        if (p !== undefined && q !== undefined && hp !== undefined && hq !== undefined) {
+            this.p = p;
+            this.q = q;
+            this.hp = hp;
+            this.hq = hq;
+            this.qInv = q.modInv(p);
+        }
+    }
+
+    /**
+     * Checks if the key has the primes for the CRT decryption and signing
+     * @returns {boolean} true if the key is in the extended form
+     */
+    public hasPrimes(): boolean {
+        return this.p !== undefined;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("PrivateKey");
+        o.lambda = WireFormat.encodeBigInt(this.lambda);
+        o.mu = WireFormat.encodeBigInt(this.mu);
+        if (this.p && this.q && this.hp && this.hq) {
+            o.p = WireFormat.encodeBigInt(this.p);
+            o.q = WireFormat.encodeBigInt(this.q);
+            o.hp = WireFormat.encodeBigInt(this.hp);
+            o.hq = WireFormat.encodeBigInt(this.hq);
+        }
+        return o;
+    }
+
+    public toBytes(): Uint8Array {
+        let writer = new BinaryWriter(WireFormat.PRIVATE_KEY).writeBigInt(this.lambda).writeBigInt(this.mu);
+        if (this.p && this.q && this.hp && this.hq)
+            writer.writeBigInt(this.p).writeBigInt(this.q).writeBigInt(this.hp).writeBigInt(this.hq);
+        return writer.toBuffer();
+    }
+
+    public static from(o: any): PrivateKey {
+        WireFormat.checkHeader(o, "PrivateKey");
+        let lambda = WireFormat.decodeBigInt(o.lambda, "lambda");
+        let mu = WireFormat.decodeBigInt(o.mu, "mu");
+        if (o.p === undefined) return this.create(lambda, mu);
+        return this.create(
+            lambda,
+            mu,
+            WireFormat.decodeBigInt(o.p, "p"),
+            WireFormat.decodeBigInt(o.q, "q"),
+            WireFormat.decodeBigInt(o.hp, "hp"),
+            WireFormat.decodeBigInt(o.hq, "hq"),
+        );
+    }
+
+    public static fromBytes(buf: Uint8Array): PrivateKey {
+        let reader = new BinaryReader(buf, WireFormat.PRIVATE_KEY);
+        let lambda = reader.readBigInt();
+        let mu = reader.readBigInt();
+        let priv = reader.hasMore()
+            ? this.create(
+                  lambda,
+                  mu,
+                  reader.readBigInt(),
+                  reader.readBigInt(),
+                  reader.readBigInt(),
+                  reader.readBigInt(),
+              )
+            : this.create(lambda, mu);
+        reader.end();
+        return priv;
+    }
+
+    private static create(
+        lambda: BigInteger,
+        mu: BigInteger,
+        p?: BigInteger,
+        q?: BigInteger,
+        hp?: BigInteger,
+        hq?: BigInteger,
+    ): PrivateKey {
+        if (lambda.lesserOrEquals(bigInt.zero) || mu.lesserOrEquals(bigInt.zero))
+            throw new RangeError("Invalid private key");
+        if (p === undefined || q === undefined || hp === undefined || hq === undefined)
+            return new PrivateKey(lambda, mu);
+
+        // The primes must belong to the key: lambda = lcm(p - 1, q - 1)
+        let pPrev = p.minus(bigInt.one);
+        let qPrev = q.minus(bigInt.one);
+        if (
+            pPrev.lesserOrEquals(bigInt.one) ||
+            qPrev.lesserOrEquals(bigInt.one) ||
+            bigInt.lcm(pPrev, qPrev).notEquals(lambda) ||
+            hp.lesserOrEquals(bigInt.zero) ||
+            hp.greaterOrEquals(p) ||
+            hq.lesserOrEquals(bigInt.zero) ||
+            hq.greaterOrEquals(q) ||
+            bigInt.gcd(p, q).notEquals(bigInt.one)
+        )
+            throw new RangeError("Invalid private key");
+        return new PrivateKey(lambda, mu, p, q, hp, hq);
     }
 }
@@ -1,5 +1,7 @@
-import { BigInteger } from "big-integer";
-import BigMath from "./BigMath";
+import { BigInteger, default as bigInt } from "big-integer";
+import WireFormat from "./WireFormat";
+import BinaryWriter from "./BinaryWriter";
+import BinaryReader from "./BinaryReader";
 
 /**
  * A public key in the Paillier system
@@ -11,13 +13,42 @@ export default class PublicKey {
 
     constructor(n: BigInteger, g: BigInteger) {
         this.n = n;
-        BigMath.makeStringifyToBase64(this.n);
         this.g = g;
-        BigMath.makeStringifyToBase64(this.g);
         this.nSquared = n.square();
     }
 
+    public toJSON(): any {
+        let o = WireFormat.header("PublicKey");
+        o.n = WireFormat.encodeBigInt(this.n);
+        o.g = WireFormat.encodeBigInt(this.g);
+        return o;
+    }
+
+    public toBytes(): Uint8Array {
+        return new BinaryWriter(WireFormat.PUBLIC_KEY).writeBigInt(this.n).writeBigInt(this.g).toBuffer();
+    }
+
     public static from(o: any): PublicKey {
-        return new PublicKey(BigMath.base64ToBigInt(o.n), BigMath.base64ToBigInt(o.g));
+        WireFormat.checkHeader(o, "PublicKey");
+        return this.create(WireFormat.decodeBigInt(o.n, "n"), WireFormat.decodeBigInt(o.g, "g"));
+    }
+
+    public static fromBytes(buf: Uint8Array): PublicKey {
+        let reader = new BinaryReader(buf, WireFormat.PUBLIC_KEY);
+        let pub = this.create(reader.readBigInt(), reader.readBigInt());
+        reader.end();
+        return pub;
+    }
+
+    private static create(n: BigInteger, g: BigInteger): PublicKey {
+        // Only the cheap checks, see Paillier.validatePublicKey for the full validation
+        if (
+            n.lesserOrEquals(bigInt.one) ||
+            n.isEven() ||
+            g.lesserOrEquals(bigInt.zero) ||
+            g.greaterOrEquals(n.square())
+        )
+            throw new RangeError("Invalid public key");
+        return new PublicKey(n, g);
     }
 }
@@ -0,0 +1,11 @@
+/**
+ * A source of random bytes for all the randomness of the library: primes, nonces, proofs and shuffles.
+ * Set it with BigMath.useRandomSource, e.g. to plug in an HSM or another audited RNG
+ */
+export default interface RandomSource {
+    /**
+     * @param {number} length - number of bytes
+     * @returns {Uint8Array} Random bytes
+     */
+    randomBytes(length: number): Uint8Array;
+}
@@ -0,0 +1,107 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import BigMath from "./BigMath";
+import PublicKey from "./PublicKey";
+import RandomSource from "./RandomSource";
+
+/**
+ * A pool of precomputed random multipliers r ∈ Z*n together with r^n mod n^2 for a public key.
+ * Filling the pool ahead of time moves the expensive exponentiations out of the encryption,
+ * so encrypting with the pool costs only a couple of multiplications.
+ * Every value is removed from the pool when taken and is never handed out twice.
+ * See the tests for how to use examples
+ */
+export default class RandomnessPool {
+    public pub: PublicKey;
+    private values: Array<[BigInteger, BigInteger]>;
+
+    /**
+     * @param {PublicKey} pub - public key the values are computed for
+     */
+    constructor(pub: PublicKey) {
+        this.pub = pub;
+        this.values = new Array<[BigInteger, BigInteger]>();
+    }
+
+    /**
+     * @returns {number} The number of values left in the pool
+     */
+    public size(): number {
+        return this.values.length;
+    }
+
+    /**
+     * Precomputes values and adds them to the pool
+     * @param {number} count - number of values to add
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     */
+    public fill(count: number, source?: RandomSource) {
+        if (!Number.isSafeInteger(count) || count < 0) throw new RangeError("Count must be a non-negative integer");
+        for (let i = 0; i < count; i++) {
+            this.values.push(RandomnessPool.generate(this.pub, source));
+        }
+    }
+
+    /**
+     * Precomputes values in the background, yielding to the event loop after every batch
+     * @param {number} count - number of values to add
+     * @param {number} [batchSize=1] - number of values computed at once
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {Promise<void>} Resolves when all values are added
+     */
+    public fillAsync(count: number, batchSize: number = 1, source?: RandomSource): Promise<void> {
+        if (!Number.isSafeInteger(count) || count < 0) throw new RangeError("Count must be a non-negative integer");
+        if (!Number.isSafeInteger(batchSize) || batchSize < 1) throw new RangeError("Batch size must be positive");
+        return new Promise<void>((resolve, reject) => {
+            let next = (left: number) => {
+                if (left <= 0) return resolve();
+                try {
+                    this.fill(Math.min(batchSize, left), source);
+                } catch (e) {
+                    return reject(e);
+                }
+                setTimeout(() => next(left - batchSize), 0);
+            };
+            next(count);
+        });
+    }
+
+    /**
+     * Removes a value from the pool. Computes a fresh value if the pool is empty.
+     * @param {PublicKey} pub - public key the value will be used with
+     * @param {RandomSource} [source] - source of the fresh value, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, BigInteger]} The multiplier r and r^n mod n^2
+     */
+    public take(pub: PublicKey, source?: RandomSource): [BigInteger, BigInteger] {
+        if (pub.n.notEquals(this.pub.n)) throw new Error("Randomness pool is for a different public key");
+        let value = this.values.pop();
+        return value !== undefined ? value : RandomnessPool.generate(this.pub, source);
+    }
+
+    /**
+     * Removes all values from the pool
+     */
+    public clear() {
+        this.values = new Array<[BigInteger, BigInteger]>();
+    }
+
+    /**
+     * The values are secret and must be used only once, so the pool can't be saved
+     */
+    public toJSON(): any {
+        throw new Error("Randomness pool must not be serialized");
+    }
+
+    /**
+     * Generates a random multiplier r ∈ Z*n and calculates r^n mod n^2
+     * @param {PublicKey} pub - public key
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[BigInteger, BigInteger]} The multiplier r and r^n mod n^2
+     */
+    public static generate(pub: PublicKey, source?: RandomSource): [BigInteger, BigInteger] {
+        let r: BigInteger = bigInt.zero;
+        do {
+            r = BigMath.generateCoprime(pub.n, pub.n.bitLength().toJSNumber(), source);
+        } while (r.greaterOrEquals(pub.n)); // This should always be false and is just a precaution
+        return [r, BigMath.modPow(r, pub.n, pub.nSquared)];
+    }
+}
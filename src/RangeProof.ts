@@ -0,0 +1,38 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import ZkpCommitment from "./ZkpCommitment";
+import ResidueProof from "./ResidueProof";
+
+/**
+ * A zero-knowledge proof that an encrypted integer m is in the range 0 <= m < 2^k.
+ * It consists of encryptions of the bits of m, a proof that each of them is 0 or 1
+ * and a proof that the bits recombine to the original ciphertext.
+ */
+export default class RangeProof {
+    public bits: BigInteger[];
+    public bitProofs: ZkpCommitment[];
+    public sumProof: ResidueProof;
+
+    constructor(bits: BigInteger[], bitProofs: ZkpCommitment[], sumProof: ResidueProof) {
+        this.bits = bits;
+        this.bitProofs = bitProofs;
+        this.sumProof = sumProof;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("RangeProof");
+        o.bits = WireFormat.encodeBigIntArray(this.bits);
+        o.bitProofs = this.bitProofs;
+        o.sumProof = this.sumProof;
+        return o;
+    }
+
+    public static from(o: any): RangeProof {
+        WireFormat.checkHeader(o, "RangeProof");
+        return new RangeProof(
+            WireFormat.decodeBigIntArray(o.bits, "bits"),
+            WireFormat.decodeArray(o.bitProofs, "bitProofs", (v) => ZkpCommitment.from(v)),
+            ResidueProof.from(o.sumProof),
+        );
+    }
+}
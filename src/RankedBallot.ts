@@ -0,0 +1,69 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import ZkpCommitment from "./ZkpCommitment";
+import ResidueProof from "./ResidueProof";
+
+/**
+ * An encrypted ranked ballot.
+ * The ranking is encrypted as a permutation matrix where placements[choice * numChoices + position] is 1
+ * if the choice is ranked at that position. Every cell is proven to be 0 or 1 and every row and column
+ * is proven to sum to 1. Optionally the ballot contains the encrypted pairwise preferences
+ * proven to be consistent with the same ranking.
+ */
+export default class RankedBallot {
+    public placements: BigInteger[];
+    public placementProofs: ZkpCommitment[];
+    public choiceProofs: ResidueProof[];
+    public positionProofs: ResidueProof[];
+    public preferences: BigInteger[];
+    public preferenceProofs: ZkpCommitment[];
+    public antisymmetryProofs: ResidueProof[];
+    public scoreProofs: ResidueProof[];
+
+    constructor(
+        placements: BigInteger[],
+        placementProofs: ZkpCommitment[],
+        choiceProofs: ResidueProof[],
+        positionProofs: ResidueProof[],
+        preferences: BigInteger[] = [],
+        preferenceProofs: ZkpCommitment[] = [],
+        antisymmetryProofs: ResidueProof[] = [],
+        scoreProofs: ResidueProof[] = [],
+    ) {
+        this.placements = placements;
+        this.placementProofs = placementProofs;
+        this.choiceProofs = choiceProofs;
+        this.positionProofs = positionProofs;
+        this.preferences = preferences;
+        this.preferenceProofs = preferenceProofs;
+        this.antisymmetryProofs = antisymmetryProofs;
+        this.scoreProofs = scoreProofs;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("RankedBallot");
+        o.placements = WireFormat.encodeBigIntArray(this.placements);
+        o.placementProofs = this.placementProofs;
+        o.choiceProofs = this.choiceProofs;
+        o.positionProofs = this.positionProofs;
+        o.preferences = WireFormat.encodeBigIntArray(this.preferences);
+        o.preferenceProofs = this.preferenceProofs;
+        o.antisymmetryProofs = this.antisymmetryProofs;
+        o.scoreProofs = this.scoreProofs;
+        return o;
+    }
+
+    public static from(o: any): RankedBallot {
+        WireFormat.checkHeader(o, "RankedBallot");
+        return new RankedBallot(
+            WireFormat.decodeBigIntArray(o.placements, "placements"),
+            WireFormat.decodeArray(o.placementProofs, "placementProofs", (v) => ZkpCommitment.from(v)),
+            WireFormat.decodeArray(o.choiceProofs, "choiceProofs", (v) => ResidueProof.from(v)),
+            WireFormat.decodeArray(o.positionProofs, "positionProofs", (v) => ResidueProof.from(v)),
+            WireFormat.decodeBigIntArray(o.preferences, "preferences"),
+            WireFormat.decodeArray(o.preferenceProofs, "preferenceProofs", (v) => ZkpCommitment.from(v)),
+            WireFormat.decodeArray(o.antisymmetryProofs, "antisymmetryProofs", (v) => ResidueProof.from(v)),
+            WireFormat.decodeArray(o.scoreProofs, "scoreProofs", (v) => ResidueProof.from(v)),
+        );
+    }
+}
@@ -0,0 +1,35 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * A zero-knowledge proof that a value is an n-th residue modulo n^2,
+ * e.g. that a ciphertext decrypts to a given plain message
+ */
+export default class ResidueProof {
+    public a: BigInteger;
+    public e: BigInteger;
+    public z: BigInteger;
+
+    constructor(a: BigInteger, e: BigInteger, z: BigInteger) {
+        this.a = a;
+        this.e = e;
+        this.z = z;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("ResidueProof");
+        o.a = WireFormat.encodeBigInt(this.a);
+        o.e = WireFormat.encodeBigInt(this.e);
+        o.z = WireFormat.encodeBigInt(this.z);
+        return o;
+    }
+
+    public static from(o: any): ResidueProof {
+        WireFormat.checkHeader(o, "ResidueProof");
+        return new ResidueProof(
+            WireFormat.decodeBigInt(o.a, "a"),
+            WireFormat.decodeBigInt(o.e, "e"),
+            WireFormat.decodeBigInt(o.z, "z"),
+        );
+    }
+}
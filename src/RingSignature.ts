@@ -0,0 +1,49 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * A linkable ring signature (LSAG). It proves that the signer owns one of the keys of the ring without revealing which.
+ * Two signatures of the same signer in the same context have the same link tag
+ */
+export default class RingSignature {
+    public c: BigInteger;
+    public s: BigInteger[];
+    public tag: BigInteger;
+
+    /**
+     * @param {BigInteger} c - the first challenge of the ring
+     * @param {BigInteger[]} s - one response for every key of the ring
+     * @param {BigInteger} tag - the link tag h^x of the signer
+     */
+    constructor(c: BigInteger, s: BigInteger[], tag: BigInteger) {
+        this.c = c;
+        this.s = s;
+        this.tag = tag;
+    }
+
+    /**
+     * Checks if both signatures are made by the same signer in the same context
+     * @param {RingSignature} other - another signature
+     * @returns {boolean} true if the link tags are the same
+     */
+    public isLinked(other: RingSignature): boolean {
+        return this.tag.equals(other.tag);
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("RingSignature");
+        o.c = WireFormat.encodeBigInt(this.c);
+        o.s = WireFormat.encodeBigIntArray(this.s);
+        o.tag = WireFormat.encodeBigInt(this.tag);
+        return o;
+    }
+
+    public static from(o: any): RingSignature {
+        WireFormat.checkHeader(o, "RingSignature");
+        return new RingSignature(
+            WireFormat.decodeBigInt(o.c, "c"),
+            WireFormat.decodeBigIntArray(o.s, "s"),
+            WireFormat.decodeBigInt(o.tag, "tag"),
+        );
+    }
+}
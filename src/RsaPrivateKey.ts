@@ -0,0 +1,27 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * A private RSA key of a blind signer
+ */
+export default class RsaPrivateKey {
+    public d: BigInteger;
+
+    /**
+     * @param {BigInteger} d - the private exponent, e^-1 mod lcm(p - 1, q - 1)
+     */
+    constructor(d: BigInteger) {
+        this.d = d;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("RsaPrivateKey");
+        o.d = WireFormat.encodeBigInt(this.d);
+        return o;
+    }
+
+    public static from(o: any): RsaPrivateKey {
+        WireFormat.checkHeader(o, "RsaPrivateKey");
+        return new RsaPrivateKey(WireFormat.decodeBigInt(o.d, "d"));
+    }
+}
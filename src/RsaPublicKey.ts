@@ -0,0 +1,31 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * A public RSA key of a blind signer, e.g. the Organizer issuing eligibility tokens
+ */
+export default class RsaPublicKey {
+    public n: BigInteger;
+    public e: BigInteger;
+
+    constructor(n: BigInteger, e: BigInteger) {
+        this.n = n;
+        this.e = e;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("RsaPublicKey");
+        o.n = WireFormat.encodeBigInt(this.n);
+        o.e = WireFormat.encodeBigInt(this.e);
+        return o;
+    }
+
+    public static from(o: any): RsaPublicKey {
+        WireFormat.checkHeader(o, "RsaPublicKey");
+        let n = WireFormat.decodeBigInt(o.n, "n");
+        let e = WireFormat.decodeBigInt(o.e, "e");
+        if (n.lesserOrEquals(bigInt.one) || n.isEven() || e.lesserOrEquals(bigInt.one) || e.isEven())
+            throw new RangeError("Invalid RSA public key");
+        return new RsaPublicKey(n, e);
+    }
+}
@@ -0,0 +1,48 @@
+import Platform from "./Platform";
+import Bytes from "./Bytes";
+import RandomSource from "./RandomSource";
+
+/**
+ * A deterministic HMAC-DRBG with SHA-256 (NIST SP 800-90A) seeded by the caller.
+ * NOT FOR PRODUCTION: anybody who knows the seed can recompute all keys, nonces and proofs.
+ * It is meant for test vectors and for replaying a failing run.
+ * See the tests for how to use examples
+ */
+export default class SeededRandomSource implements RandomSource {
+    private key: Uint8Array;
+    private value: Uint8Array;
+
+    /**
+     * @param {string | Uint8Array} seed - the seed, the same seed gives the same bytes
+     * @param {string} [personalization=""] - separates streams of the same seed
+     */
+    constructor(seed: string | Uint8Array, personalization: string = "") {
+        this.key = new Uint8Array(32).fill(0);
+        this.value = new Uint8Array(32).fill(1);
+        let seedBytes = typeof seed == "string" ? Bytes.fromUtf8(seed) : seed;
+        this.update(Bytes.concat([seedBytes, Bytes.fromUtf8(personalization)]));
+    }
+
+    public randomBytes(length: number): Uint8Array {
+        if (!Number.isSafeInteger(length) || length < 0) throw new RangeError("Length must be a non-negative integer");
+        let blocks: Uint8Array[] = [];
+        for (let generated = 0; generated < length; generated += this.value.length) {
+            this.value = this.hmac(this.value);
+            blocks.push(this.value);
+        }
+        this.update(new Uint8Array(0));
+        return Bytes.concat(blocks).subarray(0, length);
+    }
+
+    private update(data: Uint8Array) {
+        this.key = this.hmac(Bytes.concat([this.value, Uint8Array.from([0]), data]));
+        this.value = this.hmac(this.value);
+        if (data.length == 0) return;
+        this.key = this.hmac(Bytes.concat([this.value, Uint8Array.from([1]), data]));
+        this.value = this.hmac(this.value);
+    }
+
+    private hmac(data: Uint8Array): Uint8Array {
+        return Platform.hmacSha256(this.key, data);
+    }
+}
@@ -0,0 +1,122 @@
+/**
+ * Pure implementation of SHA-256 (FIPS 180-4) for platforms without a synchronous hash function, e.g. browsers
+ */
+export default class Sha256 {
+    private static readonly K: number[] = [
+        0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5, 0xd807aa98,
+        0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174, 0xe49b69c1, 0xefbe4786,
+        0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da, 0x983e5152, 0xa831c66d, 0xb00327c8,
+        0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967, 0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13,
+        0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85, 0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819,
+        0xd6990624, 0xf40e3585, 0x106aa070, 0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a,
+        0x5b9cca4f, 0x682e6ff3, 0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7,
+        0xc67178f2,
+    ];
+
+    private state: number[];
+    private block: Uint8Array;
+    private blockLength: number;
+    private length: number;
+    private w: number[];
+
+    constructor() {
+        this.state = [0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19];
+        this.block = new Uint8Array(64);
+        this.blockLength = 0;
+        this.length = 0;
+        this.w = new Array<number>(64);
+    }
+
+    /**
+     * Hashes the concatenation of the byte arrays
+     * @param {Uint8Array[]} parts - the data
+     * @returns {Uint8Array} The 32 bytes hash
+     */
+    public static hash(parts: Uint8Array[]): Uint8Array {
+        let hash = new Sha256();
+        for (let part of parts) hash.update(part);
+        return hash.digest();
+    }
+
+    /**
+     * @param {Uint8Array} data - more data to hash
+     * @returns {Sha256} The hash
+     */
+    public update(data: Uint8Array): Sha256 {
+        for (let i = 0; i < data.length; i++) {
+            this.block[this.blockLength++] = data[i];
+            if (this.blockLength == 64) {
+                this.compress();
+                this.blockLength = 0;
+            }
+        }
+        this.length += data.length;
+        return this;
+    }
+
+    /**
+     * Finishes the hash, the object can't be updated afterwards
+     * @returns {Uint8Array} The 32 bytes hash
+     */
+    public digest(): Uint8Array {
+        let bits = this.length * 8;
+        this.block[this.blockLength++] = 0x80;
+        if (this.blockLength > 56) {
+            this.block.fill(0, this.blockLength);
+            this.compress();
+            this.blockLength = 0;
+        }
+        this.block.fill(0, this.blockLength);
+        // The length in bits as a 64 bit big-endian number
+        let high = Math.floor(bits / 0x100000000);
+        for (let i = 0; i < 4; i++) {
+            this.block[56 + i] = (high >>> (24 - 8 * i)) & 0xff;
+            this.block[60 + i] = (bits >>> (24 - 8 * i)) & 0xff;
+        }
+        this.compress();
+
+        let result = new Uint8Array(32);
+        for (let i = 0; i < 8; i++) {
+            for (let j = 0; j < 4; j++) result[i * 4 + j] = (this.state[i] >>> (24 - 8 * j)) & 0xff;
+        }
+        return result;
+    }
+
+    private compress() {
+        let w = this.w;
+        let b = this.block;
+        for (let i = 0; i < 16; i++) {
+            w[i] = ((b[i * 4] << 24) | (b[i * 4 + 1] << 16) | (b[i * 4 + 2] << 8) | b[i * 4 + 3]) >>> 0;
+        }
+        for (let i = 16; i < 64; i++) {
+            let s0 = Sha256.rotr(w[i - 15], 7) ^ Sha256.rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+            let s1 = Sha256.rotr(w[i - 2], 17) ^ Sha256.rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+            w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+        }
+
+        let [a, bb, c, d, e, f, g, h] = this.state;
+        for (let i = 0; i < 64; i++) {
+            let s1 = Sha256.rotr(e, 6) ^ Sha256.rotr(e, 11) ^ Sha256.rotr(e, 25);
+            let ch = (e & f) ^ (~e & g);
+            let t1 = (h + s1 + ch + Sha256.K[i] + w[i]) >>> 0;
+            let s0 = Sha256.rotr(a, 2) ^ Sha256.rotr(a, 13) ^ Sha256.rotr(a, 22);
+            let maj = (a & bb) ^ (a & c) ^ (bb & c);
+            let t2 = (s0 + maj) >>> 0;
+            h = g;
+            g = f;
+            f = e;
+            e = (d + t1) >>> 0;
+            d = c;
+            c = bb;
+            bb = a;
+            a = (t1 + t2) >>> 0;
+        }
+
+        let s = this.state;
+        [a, bb, c, d, e, f, g, h].forEach((v, i) => (s[i] = (s[i] + v) >>> 0));
+    }
+
+    private static rotr(x: number, n: number): number {
+        return (x >>> n) | (x << (32 - n));
+    }
+}
@@ -0,0 +1,50 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * A zero-knowledge proof that a list of ciphertexts is a permutation and re-encryption of another list.
+ * For every round the prover publishes a shadow shuffle of the input and, depending on the challenge bit,
+ * opens either the shadow from the input or the output from the shadow
+ */
+export default class ShuffleProof {
+    public shadows: BigInteger[][];
+    public permutations: number[][];
+    public multipliers: BigInteger[][];
+
+    /**
+     * @param {BigInteger[][]} shadows - shadow shuffles of the input, one per round
+     * @param {number[][]} permutations - opened permutation of every round
+     * @param {BigInteger[][]} multipliers - opened re-encryption multipliers of every round
+     */
+    constructor(shadows: BigInteger[][], permutations: number[][], multipliers: BigInteger[][]) {
+        this.shadows = shadows;
+        this.permutations = permutations;
+        this.multipliers = multipliers;
+    }
+
+    /**
+     * @returns {number} The number of rounds, the soundness error is 2^-rounds
+     */
+    public rounds(): number {
+        return this.shadows.length;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("ShuffleProof");
+        o.shadows = this.shadows.map((shadow) => WireFormat.encodeBigIntArray(shadow));
+        o.permutations = this.permutations;
+        o.multipliers = this.multipliers.map((list) => WireFormat.encodeBigIntArray(list));
+        return o;
+    }
+
+    public static from(o: any): ShuffleProof {
+        WireFormat.checkHeader(o, "ShuffleProof");
+        return new ShuffleProof(
+            WireFormat.decodeArray(o.shadows, "shadows", (v) => WireFormat.decodeBigIntArray(v, "shadows")),
+            WireFormat.decodeArray(o.permutations, "permutations", (v) =>
+                WireFormat.decodeArray(v, "permutations", (i) => WireFormat.decodeInteger(i, "permutations")),
+            ),
+            WireFormat.decodeArray(o.multipliers, "multipliers", (v) => WireFormat.decodeBigIntArray(v, "multipliers")),
+        );
+    }
+}
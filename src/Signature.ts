@@ -1,4 +1,7 @@
 import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import BinaryWriter from "./BinaryWriter";
+import BinaryReader from "./BinaryReader";
 
 /**
  * A signature for Paillier cryptosystem
@@ -11,4 +14,27 @@ export default class Signature {
         this.s1 = s1;
         this.s2 = s2;
     }
+
+    public toJSON(): any {
+        let o = WireFormat.header("Signature");
+        o.s1 = WireFormat.encodeBigInt(this.s1);
+        o.s2 = WireFormat.encodeBigInt(this.s2);
+        return o;
+    }
+
+    public toBytes(): Uint8Array {
+        return new BinaryWriter(WireFormat.SIGNATURE).writeBigInt(this.s1).writeBigInt(this.s2).toBuffer();
+    }
+
+    public static from(o: any): Signature {
+        WireFormat.checkHeader(o, "Signature");
+        return new Signature(WireFormat.decodeBigInt(o.s1, "s1"), WireFormat.decodeBigInt(o.s2, "s2"));
+    }
+
+    public static fromBytes(buf: Uint8Array): Signature {
+        let reader = new BinaryReader(buf, WireFormat.SIGNATURE);
+        let sig = new Signature(reader.readBigInt(), reader.readBigInt());
+        reader.end();
+        return sig;
+    }
 }
@@ -0,0 +1,34 @@
+import Signature from "./Signature";
+import WireFormat from "./WireFormat";
+
+/**
+ * The size and the root hash of the bulletin board's Merkle tree signed by the board
+ */
+export default class SignedTreeHead {
+    public treeSize: number;
+    public rootHash: string;
+    public signature: Signature;
+
+    constructor(treeSize: number, rootHash: string, signature: Signature) {
+        this.treeSize = treeSize;
+        this.rootHash = rootHash;
+        this.signature = signature;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("SignedTreeHead");
+        o.treeSize = this.treeSize;
+        o.rootHash = this.rootHash;
+        o.signature = this.signature;
+        return o;
+    }
+
+    public static from(o: any): SignedTreeHead {
+        WireFormat.checkHeader(o, "SignedTreeHead");
+        return new SignedTreeHead(
+            WireFormat.decodeInteger(o.treeSize, "treeSize"),
+            WireFormat.decodeString(o.rootHash, "rootHash"),
+            Signature.from(o.signature),
+        );
+    }
+}
@@ -0,0 +1,251 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import BigMath from "./BigMath";
+import WireFormat from "./WireFormat";
+import Paillier from "./Paillier";
+import PublicKey from "./PublicKey";
+import BallotSpec from "./BallotSpec";
+import ZkpCommitment from "./ZkpCommitment";
+import CastBallot from "./CastBallot";
+import RingSignature from "./RingSignature";
+import LinkableRingSignature from "./LinkableRingSignature";
+import BlindSignature from "./BlindSignature";
+import EligibilityToken from "./EligibilityToken";
+import TokenLedger from "./TokenLedger";
+
+/**
+ * Aggregator of encrypted ballots. Each ballot is verified before it is added to the encrypted sum
+ * and every ballot id and ciphertext is accepted only once.
+ * The tally can be saved with JSON.stringify and restored with Tally.from to continue after a restart.
+ * See the tests for how to use examples
+ */
+export default class Tally {
+    public pub: PublicKey;
+    public spec: BallotSpec;
+    public ring: BigInteger[];
+    public encryptedSum: BigInteger;
+    public accepted: number;
+    public rejected: number;
+    public ballotIds: { [ballotId: string]: boolean };
+    public ciphertexts: { [fingerprint: string]: boolean };
+
+    /**
+     * @param {PublicKey} pub - public key of the election
+     * @param {BallotSpec} spec - the accepted ballots
+     * @param {BigInteger[]} [ring=[]] - public keys of the eligible voters for the ballots signed with a ring signature
+     */
+    constructor(pub: PublicKey, spec: BallotSpec, ring: BigInteger[] = []) {
+        this.pub = pub;
+        this.spec = spec;
+        this.ring = ring;
+        this.encryptedSum = Paillier.encrypt(bigInt.zero, pub);
+        this.accepted = 0;
+        this.rejected = 0;
+        this.ballotIds = Object.create(null);
+        this.ciphertexts = Object.create(null);
+    }
+
+    /**
+     * Verifies a ballot and adds it to the encrypted sum.
+     * Ballots with invalid proof, already seen id or already seen ciphertext are rejected,
+     * as are ids with the prefixes reserved for the anonymous ballots.
+     * @param {string} ballotId - unique id of the ballot, e.g. the voter id
+     * @param {BigInteger} c - encrypted vote
+     * @param {ZkpCommitment} commitment - proof that the vote is valid
+     * @returns {boolean} true if the ballot is accepted
+     */
+    public add(ballotId: string, c: BigInteger, commitment: ZkpCommitment): boolean {
+        if (Tally.isReserved(ballotId)) {
+            this.rejected++;
+            return false;
+        }
+        return this.addBallot(ballotId, c, commitment);
+    }
+
+    /**
+     * Verifies an anonymous ballot with an eligibility token issued for it and adds it to the encrypted sum.
+     * The token is spent in the ledger only if the ballot is accepted, and the ballot is accepted only with a token
+     * that is valid for the ballot and not spent yet.
+     * @param {BigInteger} c - encrypted vote
+     * @param {ZkpCommitment} commitment - proof that the vote is valid
+     * @param {EligibilityToken} token - token with the id BlindSignature.ballotTokenId(c, commitment)
+     * @param {TokenLedger} ledger - the spent tokens of the election
+     * @returns {boolean} true if the ballot is accepted
+     */
+    public addWithToken(
+        c: BigInteger,
+        commitment: ZkpCommitment,
+        token: EligibilityToken,
+        ledger: TokenLedger,
+    ): boolean {
+        if (ledger.context != this.spec.context) throw new Error("The token ledger is for another election");
+
+        if (token.tokenId != BlindSignature.ballotTokenId(c, commitment) || !ledger.isValid(token)) {
+            this.rejected++;
+            return false;
+        }
+        if (!this.addBallot(Tally.tokenId(token), c, commitment)) return false;
+        // The signature is already verified by isValid
+        ledger.markSpent(token.tokenId);
+        return true;
+    }
+
+    /**
+     * Verifies an anonymous ballot signed with a linkable ring signature and adds it to the encrypted sum.
+     * The signature must be made with the ring of the tally.
+     * The link tag is the ballot id, so a second ballot of the same voter is rejected without knowing who the voter is.
+     * @param {BigInteger} c - encrypted vote
+     * @param {ZkpCommitment} commitment - proof that the vote is valid
+     * @param {RingSignature} signature - ring signature of LinkableRingSignature.ballotMessage(c, commitment)
+     * @returns {boolean} true if the ballot is accepted
+     */
+    public addSigned(c: BigInteger, commitment: ZkpCommitment, signature: RingSignature): boolean {
+        if (this.ring.length == 0) throw new Error("The tally has no ring of eligible voters");
+
+        let message = LinkableRingSignature.ballotMessage(c, commitment);
+        if (!LinkableRingSignature.verify(message, this.ring, signature, this.spec.context)) {
+            this.rejected++;
+            return false;
+        }
+        return this.addBallot(Tally.linkId(signature), c, commitment);
+    }
+
+    /**
+     * Verifies many ballots at once with Paillier.batchVerifyZkp and adds the valid ones to the encrypted sum.
+     * Ballots with invalid proof, already seen or reserved id or already seen ciphertext are rejected.
+     * @param {CastBallot[]} ballots - the ballots
+     * @returns {boolean[]} For every ballot true if accepted
+     */
+    public addBatch(ballots: CastBallot[]): boolean[] {
+        let length = this.spec.valid.length;
+        let candidates = ballots.filter(
+            (ballot) =>
+                !Tally.isReserved(ballot.ballotId) &&
+                !this.hasBallot(ballot.ballotId) &&
+                !this.hasCiphertext(ballot.c) &&
+                [ballot.commitment.a, ballot.commitment.e, ballot.commitment.z].every((list) => list.length == length),
+        );
+        let invalid = new Set<number>(
+            Paillier.batchVerifyZkp(
+                candidates.map(
+                    (ballot) =>
+                        [ballot.c, this.spec.valid, ballot.commitment] as [BigInteger, BigInteger[], ZkpCommitment],
+                ),
+                this.pub,
+                this.spec.context,
+            ),
+        );
+        let verified = new Set<CastBallot>(candidates.filter((ballot, index) => !invalid.has(index)));
+
+        // Ballots repeated within the batch are accepted only once
+        return ballots.map((ballot) => {
+            if (!verified.has(ballot) || this.hasBallot(ballot.ballotId) || this.hasCiphertext(ballot.c)) {
+                this.rejected++;
+                return false;
+            }
+            this.accept(ballot.ballotId, ballot.c);
+            return true;
+        });
+    }
+
+    /**
+     * Checks if a ballot with this id is already accepted
+     * @param {string} ballotId - id of the ballot
+     * @returns {boolean} true if accepted
+     */
+    public hasBallot(ballotId: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.ballotIds, ballotId);
+    }
+
+    /**
+     * Checks if a ballot with this ciphertext is already accepted
+     * @param {BigInteger} c - encrypted vote
+     * @returns {boolean} true if accepted
+     */
+    public hasCiphertext(c: BigInteger): boolean {
+        return Object.prototype.hasOwnProperty.call(this.ciphertexts, Tally.fingerprint(c));
+    }
+
+    private addBallot(ballotId: string, c: BigInteger, commitment: ZkpCommitment): boolean {
+        if (this.hasBallot(ballotId) || this.hasCiphertext(c) || !this.verify(c, commitment)) {
+            this.rejected++;
+            return false;
+        }
+
+        this.accept(ballotId, c);
+        return true;
+    }
+
+    /**
+     * Verifies that the ciphertext is in range and the proof is valid for the ballot spec
+     */
+    private verify(c: BigInteger, commitment: ZkpCommitment): boolean {
+        if (c.lesserOrEquals(bigInt.zero) || c.greaterOrEquals(this.pub.nSquared)) return false;
+        let length = this.spec.valid.length;
+        if (commitment.a.length != length || commitment.e.length != length || commitment.z.length != length)
+            return false;
+        return Paillier.verifyZkp(c, this.spec.valid, commitment, this.pub, this.spec.context);
+    }
+
+    private accept(ballotId: string, c: BigInteger) {
+        this.ballotIds[ballotId] = true;
+        this.ciphertexts[Tally.fingerprint(c)] = true;
+        this.encryptedSum = Paillier.addEncrypted(this.encryptedSum, c, this.pub);
+        this.accepted++;
+    }
+
+    private static tokenId(token: EligibilityToken): string {
+        return "token:" + token.tokenId;
+    }
+
+    /**
+     * Checks if the id has the prefix of the anonymous ballots, which can't be used by add
+     */
+    private static isReserved(ballotId: string): boolean {
+        return ballotId.indexOf("token:") == 0 || ballotId.indexOf("link:") == 0;
+    }
+
+    private static linkId(signature: RingSignature): string {
+        return "link:" + Tally.fingerprint(signature.tag);
+    }
+
+    private static fingerprint(c: BigInteger): string {
+        return BigMath.bufferToHex(BigMath.hashFromBigInt(c));
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("Tally");
+        o.pub = this.pub;
+        o.spec = this.spec;
+        o.ring = WireFormat.encodeBigIntArray(this.ring);
+        o.encryptedSum = WireFormat.encodeBigInt(this.encryptedSum);
+        o.accepted = this.accepted;
+        o.rejected = this.rejected;
+        o.ballotIds = Object.keys(this.ballotIds);
+        o.ciphertexts = Object.keys(this.ciphertexts);
+        return o;
+    }
+
+    public static from(o: any): Tally {
+        // Checkpoints must be in the current format
+        WireFormat.checkHeader(o, "Tally", false);
+        let ring = WireFormat.decodeBigIntArray(o.ring, "ring");
+        let tally = new Tally(PublicKey.from(o.pub), BallotSpec.from(o.spec), ring);
+        tally.encryptedSum = WireFormat.decodeBigInt(o.encryptedSum, "encryptedSum");
+        tally.accepted = WireFormat.decodeInteger(o.accepted, "accepted");
+        tally.rejected = WireFormat.decodeInteger(o.rejected, "rejected");
+        let ballotIds = WireFormat.decodeArray(o.ballotIds, "ballotIds", (id) =>
+            WireFormat.decodeString(id, "ballotIds"),
+        );
+        let ciphertexts = WireFormat.decodeArray(o.ciphertexts, "ciphertexts", (fingerprint) =>
+            WireFormat.decodeString(fingerprint, "ciphertexts"),
+        );
+        for (let ballotId of ballotIds) {
+            // Signed ballots can't be counted without the ring they were signed with
+            if (ballotId.indexOf("link:") == 0 && ring.length == 0)
+                throw new RangeError("The checkpoint has signed ballots but no ring");
+            tally.ballotIds[ballotId] = true;
+        }
+        for (let fingerprint of ciphertexts) tally.ciphertexts[fingerprint] = true;
+        return tally;
+    }
+}
@@ -0,0 +1,267 @@
+import PublicKey from "./PublicKey";
+import KeyShare from "./KeyShare";
+import PartialDecryption from "./PartialDecryption";
+import VerificationKeys from "./VerificationKeys";
+import EqualityProof from "./EqualityProof";
+import Paillier from "./Paillier";
+import BigMath from "./BigMath";
+import Transcript from "./Transcript";
+import RandomSource from "./RandomSource";
+import { BigInteger, default as bigInt } from "big-integer";
+
+/**
+ * Threshold variant of the Paillier cryptosystem where the decryption key is split among n trustees.
+ * Any t of them can decrypt a ciphertext together while fewer than t learn nothing about the key.
+ * Every partial decryption comes with a proof against the published verification keys,
+ * so a dishonest trustee can't change the result of the decryption.
+ *
+ * The keys are generated by a trusted dealer, there is no distributed key generation.
+ * The dealer knows the factors p and q of n and can decrypt every ciphertext until it erases them,
+ * so generateKeyPair must run on a machine that is trusted by all trustees and keeps nothing but the outputs.
+ * https://www.iacr.org/archive/fc2000/19620088/19620088.pdf (Fouque, Poupard, Stern)
+ * https://www.shoup.net/papers/thsig.pdf
+ * See the tests for how to use examples
+ */
+export default class ThresholdPaillier {
+    /**
+     * Generates a public key and n shares of the private key where any t of them can decrypt.
+     * Uses safe primes p = 2p' + 1 and q = 2q' + 1 and shares the key over Z_{n*p'*q'}.
+     * @param {number} bits - Number of bits
+     * @param {number} threshold - Number of shares t required for decryption
+     * @param {number} numShares - Total number of shares n
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {[PublicKey, KeyShare[], VerificationKeys]} The public key, the key shares and the verification keys
+     */
+    public static generateKeyPair(
+        bits: number,
+        threshold: number,
+        numShares: number,
+        source?: RandomSource,
+    ): [PublicKey, KeyShare[], VerificationKeys] {
+        if (threshold < 1 || threshold > numShares) throw new RangeError("Invalid threshold");
+
+        let [p, q] = Paillier.generatePrimes(bits, true, source);
+        let n: BigInteger = p.multiply(q);
+        let g: BigInteger = n.plus(1);
+        let nSquared: BigInteger = n.square();
+
+        // m = p' * q'
+        let m: BigInteger = p.shiftRight(1).multiply(q.shiftRight(1));
+        let nm: BigInteger = n.multiply(m);
+
+        // The shared secret d = 0 mod m and d = 1 mod n
+        let d: BigInteger = m.multiply(m.modInv(n)).mod(nm);
+
+        // Shamir's secret sharing of d with a random polynomial f of degree t - 1 over Z_{n*m}
+        // f(X) = d + a[1] * X + ... + a[t-1] * X^(t-1)
+        let coefficients: BigInteger[] = [d];
+        for (let i = 1; i < threshold; i++) {
+            coefficients.push(BigMath.generateRandom(bits * 2 + 64, source).mod(nm));
+        }
+
+        // v is a random square that generates the cyclic group of squares mod n^2 with overwhelming probability
+        let v: BigInteger = BigMath.generateCoprime(n, bits * 2, source)
+            .square()
+            .mod(nSquared);
+        let delta: BigInteger = this.factorial(numShares);
+
+        let shares = new Array<KeyShare>();
+        let keys = new Array<BigInteger>();
+        for (let index = 1; index <= numShares; index++) {
+            // s[i] = f(i) mod n*m
+            let s: BigInteger = bigInt.zero;
+            for (let j = coefficients.length - 1; j >= 0; j--) {
+                s = s.multiply(index).plus(coefficients[j]).mod(nm);
+            }
+            shares.push(new KeyShare(index, s, threshold, numShares));
+            // v[i] = v^(delta * s[i]) mod n^2
+            keys.push(BigMath.modPow(v, delta.multiply(s), nSquared));
+        }
+
+        return [new PublicKey(n, g), shares, new VerificationKeys(v, keys, threshold, numShares)];
+    }
+
+    /**
+     * Partially decrypts an encrypted message with a single key share and proves it is done correctly
+     * @param {BigInteger} c - encrypted message
+     * @param {PublicKey} pub - public key
+     * @param {KeyShare} share - key share of the trustee
+     * @param {VerificationKeys} keys - published verification keys
+     * @param {RandomSource} [source] - source of the randomness, the one of BigMath.useRandomSource by default
+     * @returns {PartialDecryption} The partial decryption
+     */
+    public static decryptShare(
+        c: BigInteger,
+        pub: PublicKey,
+        share: KeyShare,
+        keys: VerificationKeys,
+        source?: RandomSource,
+    ): PartialDecryption {
+        // The ciphertext c < n ^ 2
+        if (c.greaterOrEquals(pub.nSquared)) throw new Error("ciphertext must be less than modulo n^2");
+        if (share.index < 1 || share.index > keys.keys.length) throw new RangeError("Invalid share index");
+
+        // c[i] = c^(2 * delta * s[i]) mod n^2
+        let delta: BigInteger = this.factorial(share.numShares);
+        let deltaS: BigInteger = share.s.multiply(delta);
+        let ci: BigInteger = BigMath.modPow(c, deltaS.multiply(2), pub.nSquared);
+
+        // Proves log_{c^4}(c[i]^2) = log_v(v[i]) = delta * s[i]
+        let c4: BigInteger = BigMath.modPow(c, bigInt(4), pub.nSquared);
+        let vi: BigInteger = keys.keys[share.index - 1];
+        if (BigMath.modPow(keys.v, deltaS, pub.nSquared).notEquals(vi))
+            throw new Error("Key share doesn't match the verification key");
+
+        // r is 128 bits longer than delta * s[i] * e so z hides the key share
+        let r: BigInteger = BigMath.generateRandom(this.proofBits(pub, share.numShares), source);
+        let a: BigInteger = BigMath.modPow(c4, r, pub.nSquared);
+        let b: BigInteger = BigMath.modPow(keys.v, r, pub.nSquared);
+        let e: BigInteger = this.shareTranscript(c, ci, share.index, pub, keys)
+            .appendBigInt("a", a)
+            .appendBigInt("b", b)
+            .challenge();
+        // z = r + e * delta * s[i] over the integers
+        let z: BigInteger = r.plus(e.multiply(deltaS));
+
+        return new PartialDecryption(share.index, ci, share.threshold, share.numShares, new EqualityProof(a, b, e, z));
+    }
+
+    /**
+     * Verifies that a partial decryption of the ciphertext is made with the key share of the trustee
+     * @param {BigInteger} c - encrypted message
+     * @param {PartialDecryption} partial - the partial decryption
+     * @param {PublicKey} pub - public key
+     * @param {VerificationKeys} keys - published verification keys
+     * @returns {boolean} true if correct
+     */
+    public static verifyShare(
+        c: BigInteger,
+        partial: PartialDecryption,
+        pub: PublicKey,
+        keys: VerificationKeys,
+    ): boolean {
+        if (partial.threshold != keys.threshold || partial.numShares != keys.numShares) return false;
+        if (partial.index < 1 || partial.index > keys.numShares || keys.keys.length != keys.numShares) return false;
+        if (c.lesserOrEquals(bigInt.zero) || c.greaterOrEquals(pub.nSquared)) return false;
+        if (partial.ci.lesserOrEquals(bigInt.zero) || partial.ci.greaterOrEquals(pub.nSquared)) return false;
+
+        let proof = partial.proof;
+        if (proof.a.lesserOrEquals(bigInt.zero) || proof.a.greaterOrEquals(pub.nSquared)) return false;
+        if (proof.b.lesserOrEquals(bigInt.zero) || proof.b.greaterOrEquals(pub.nSquared)) return false;
+        if (proof.z.isNegative()) return false;
+
+        let e: BigInteger = this.shareTranscript(c, partial.ci, partial.index, pub, keys)
+            .appendBigInt("a", proof.a)
+            .appendBigInt("b", proof.b)
+            .challenge();
+        // If this fails, then the trustee did not follow the rules or attempted to cheat
+        if (e.notEquals(proof.e)) return false;
+
+        // (c^4)^z = a * (c[i]^2)^e mod n^2
+        let c4: BigInteger = BigMath.modPow(c, bigInt(4), pub.nSquared);
+        let left: BigInteger = BigMath.modPow(c4, proof.z, pub.nSquared);
+        let right: BigInteger = proof.a
+            .multiply(BigMath.modPow(partial.ci, e.multiply(2), pub.nSquared))
+            .mod(pub.nSquared);
+        if (left.notEquals(right)) return false;
+
+        // v^z = b * v[i]^e mod n^2
+        let vi: BigInteger = keys.keys[partial.index - 1];
+        left = BigMath.modPow(keys.v, proof.z, pub.nSquared);
+        right = proof.b.multiply(BigMath.modPow(vi, e, pub.nSquared)).mod(pub.nSquared);
+        return left.equals(right);
+    }
+
+    /**
+     * Combines at least t partial decryptions of the ciphertext into the plain message.
+     * Every partial decryption must have a valid proof, verifyShare can be used to leave out the invalid ones.
+     * @param {BigInteger} c - encrypted message
+     * @param {PartialDecryption[]} partials - partial decryptions from distinct trustees
+     * @param {PublicKey} pub - public key
+     * @param {VerificationKeys} keys - published verification keys
+     * @returns {BigInteger} Plain message
+     */
+    public static combine(
+        c: BigInteger,
+        partials: PartialDecryption[],
+        pub: PublicKey,
+        keys: VerificationKeys,
+    ): BigInteger {
+        if (partials.length == 0) throw new RangeError("No partial decryptions");
+        let threshold = keys.threshold;
+        let numShares = keys.numShares;
+
+        let subset = new Array<PartialDecryption>();
+        for (let partial of partials) {
+            if (partial.threshold != threshold || partial.numShares != numShares)
+                throw new Error("Partial decryptions are from different key sharings");
+            if (partial.index < 1 || partial.index > numShares) throw new RangeError("Invalid share index");
+            if (subset.some((p) => p.index == partial.index)) throw new Error("Duplicate partial decryption");
+            if (subset.length < threshold) subset.push(partial);
+        }
+        if (subset.length < threshold) throw new RangeError("Insufficient number of partial decryptions");
+        for (let partial of subset) {
+            if (!this.verifyShare(c, partial, pub, keys))
+                throw new Error(`Invalid partial decryption of trustee ${partial.index}`);
+        }
+
+        // c' = prod(c[i]^(2 * mu[i])) mod n^2 where mu[i] = delta * lagrange[i](0) is an integer
+        let delta: BigInteger = this.factorial(numShares);
+        let combined: BigInteger = bigInt.one;
+        for (let partial of subset) {
+            let num: BigInteger = delta;
+            let den: BigInteger = bigInt.one;
+            for (let other of subset) {
+                if (other.index == partial.index) continue;
+                num = num.multiply(other.index);
+                den = den.multiply(other.index - partial.index);
+            }
+            let mu: BigInteger = num.divide(den);
+
+            let base: BigInteger = mu.isNegative() ? partial.ci.modInv(pub.nSquared) : partial.ci;
+            combined = combined.multiply(BigMath.modPow(base, mu.abs().multiply(2), pub.nSquared)).mod(pub.nSquared);
+        }
+
+        // m = L(c') * (4 * delta^2)^-1 mod n
+        // L(u) = (u - 1) / n
+        let l: BigInteger = combined.minus(bigInt.one).divide(pub.n);
+        let inv: BigInteger = delta.square().multiply(4).modInv(pub.n);
+        return l.multiply(inv).mod(pub.n);
+    }
+
+    /**
+     * Binds the proof of a partial decryption to the public key, the verification keys and the ciphertext
+     */
+    private static shareTranscript(
+        c: BigInteger,
+        ci: BigInteger,
+        index: number,
+        pub: PublicKey,
+        keys: VerificationKeys,
+    ): Transcript {
+        return new Transcript("phe-voting-js/threshold-decryption/v1")
+            .appendBigInt("n", pub.n)
+            .appendBigInt("v", keys.v)
+            .appendBigInt("vi", keys.keys[index - 1])
+            .appendBigInt("index", bigInt(index))
+            .appendBigInt("c", c)
+            .appendBigInt("ci", ci);
+    }
+
+    /**
+     * Number of random bits of the proof, 128 bits more than delta * s[i] * e
+     */
+    private static proofBits(pub: PublicKey, numShares: number): number {
+        let deltaBits = this.factorial(numShares).bitLength().toJSNumber();
+        return Math.ceil((pub.nSquared.bitLength().toJSNumber() + deltaBits + 256 + 128) / 8) * 8;
+    }
+
+    /**
+     * Calculates n!
+     */
+    private static factorial(n: number): BigInteger {
+        let result: BigInteger = bigInt.one;
+        for (let i = 2; i <= n; i++) result = result.multiply(i);
+        return result;
+    }
+}
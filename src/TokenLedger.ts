@@ -0,0 +1,77 @@
+import WireFormat from "./WireFormat";
+import RsaPublicKey from "./RsaPublicKey";
+import BlindSignature from "./BlindSignature";
+import EligibilityToken from "./EligibilityToken";
+
+/**
+ * The Aggregator's record of the spent eligibility tokens. Every valid token is accepted only once.
+ * The ledger can be saved with JSON.stringify and restored with TokenLedger.from to continue after a restart.
+ * See the tests for how to use examples
+ */
+export default class TokenLedger {
+    public pub: RsaPublicKey;
+    public context: string;
+    public spent: { [tokenId: string]: boolean };
+
+    /**
+     * @param {RsaPublicKey} pub - public key of the token signer
+     * @param {string} [context=""] - election context the tokens are bound to
+     */
+    constructor(pub: RsaPublicKey, context: string = "") {
+        this.pub = pub;
+        this.context = context;
+        this.spent = Object.create(null);
+    }
+
+    /**
+     * Checks that the token has a valid signature and isn't spent, without spending it
+     * @param {EligibilityToken} token - the token
+     * @returns {boolean} true if the token can be spent
+     */
+    public isValid(token: EligibilityToken): boolean {
+        return !this.isSpent(token.tokenId) && BlindSignature.verifyToken(token, this.pub, this.context);
+    }
+
+    /**
+     * Marks a valid token as spent
+     * @param {EligibilityToken} token - the token
+     * @returns {boolean} true if the token was valid and not spent before
+     */
+    public spend(token: EligibilityToken): boolean {
+        if (!this.isValid(token)) return false;
+        this.markSpent(token.tokenId);
+        return true;
+    }
+
+    /**
+     * Marks a token as spent without verifying it again, for a token already checked with isValid
+     * @param {string} tokenId - id of the token
+     */
+    public markSpent(tokenId: string) {
+        this.spent[tokenId] = true;
+    }
+
+    /**
+     * @param {string} tokenId - id of the token
+     * @returns {boolean} true if the token is already spent
+     */
+    public isSpent(tokenId: string): boolean {
+        return Object.prototype.hasOwnProperty.call(this.spent, tokenId);
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("TokenLedger");
+        o.pub = this.pub;
+        o.context = this.context;
+        o.spent = Object.keys(this.spent);
+        return o;
+    }
+
+    public static from(o: any): TokenLedger {
+        WireFormat.checkHeader(o, "TokenLedger");
+        let ledger = new TokenLedger(RsaPublicKey.from(o.pub), WireFormat.decodeString(o.context, "context"));
+        for (let tokenId of WireFormat.decodeArray(o.spent, "spent", (v) => WireFormat.decodeString(v, "spent")))
+            ledger.spent[tokenId] = true;
+        return ledger;
+    }
+}
@@ -0,0 +1,75 @@
+import { BigInteger } from "big-integer";
+import BigMath from "./BigMath";
+import Platform from "./Platform";
+import Bytes from "./Bytes";
+
+/**
+ * A domain-separated transcript of a proof statement used to derive Fiat–Shamir challenges.
+ * Every value is appended together with its label and length so that different statements
+ * can never produce the same hash input.
+ */
+export default class Transcript {
+    private parts: Uint8Array[];
+
+    /**
+     * @param {string} domain - Unique name of the protocol and its version
+     */
+    constructor(domain: string) {
+        this.parts = [];
+        this.appendString("domain", domain);
+    }
+
+    /**
+     * Appends a string to the transcript
+     * @param {string} label - label of the value
+     * @param {string} value - the value
+     * @returns {Transcript} The transcript
+     */
+    public appendString(label: string, value: string): Transcript {
+        this.appendBytes(label, Bytes.fromUtf8(value));
+        return this;
+    }
+
+    /**
+     * Appends a BigInteger to the transcript
+     * @param {string} label - label of the value
+     * @param {BigInteger} value - the value
+     * @returns {Transcript} The transcript
+     */
+    public appendBigInt(label: string, value: BigInteger): Transcript {
+        this.appendBytes(label, BigMath.bigIntToBuffer(value));
+        return this;
+    }
+
+    /**
+     * Appends a list of BigIntegers to the transcript
+     * @param {string} label - label of the list
+     * @param {BigInteger[]} values - the values
+     * @returns {Transcript} The transcript
+     */
+    public appendBigIntArray(label: string, values: BigInteger[]): Transcript {
+        this.appendBytes(label, Transcript.encodeLength(values.length));
+        for (let value of values) {
+            this.appendBigInt(label, value);
+        }
+        return this;
+    }
+
+    /**
+     * Derives a 256 bit challenge from everything appended so far
+     * @returns {BigInteger} The challenge
+     */
+    public challenge(): BigInteger {
+        return BigMath.bufferToBigInt(Platform.sha256(this.parts));
+    }
+
+    private appendBytes(label: string, value: Uint8Array) {
+        let labelBytes = Bytes.fromUtf8(label);
+        this.parts.push(Transcript.encodeLength(labelBytes.length), labelBytes);
+        this.parts.push(Transcript.encodeLength(value.length), value);
+    }
+
+    private static encodeLength(length: number): Uint8Array {
+        return Bytes.fromUInt32(length);
+    }
+}
@@ -0,0 +1,40 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+
+/**
+ * The public verification keys of the threshold Paillier system: a random square v mod n^2
+ * and v^(delta * s[i]) mod n^2 for the key share of every trustee, where delta = numShares!.
+ * They are published with the public key so anyone can verify the partial decryptions.
+ */
+export default class VerificationKeys {
+    public v: BigInteger;
+    public keys: BigInteger[];
+    public threshold: number;
+    public numShares: number;
+
+    constructor(v: BigInteger, keys: BigInteger[], threshold: number, numShares: number) {
+        this.v = v;
+        this.keys = keys;
+        this.threshold = threshold;
+        this.numShares = numShares;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("VerificationKeys");
+        o.v = WireFormat.encodeBigInt(this.v);
+        o.keys = WireFormat.encodeBigIntArray(this.keys);
+        o.threshold = this.threshold;
+        o.numShares = this.numShares;
+        return o;
+    }
+
+    public static from(o: any): VerificationKeys {
+        WireFormat.checkHeader(o, "VerificationKeys");
+        return new VerificationKeys(
+            WireFormat.decodeBigInt(o.v, "v"),
+            WireFormat.decodeBigIntArray(o.keys, "keys"),
+            WireFormat.decodeInteger(o.threshold, "threshold"),
+            WireFormat.decodeInteger(o.numShares, "numShares"),
+        );
+    }
+}
@@ -1,4 +1,5 @@
 import { BigInteger, default as bigInt } from "big-integer";
+import ElectionParameters from "./ElectionParameters";
 
 /**
  * Voting encoder utilizing Paillier partial homomorphic crypto system
@@ -8,20 +9,37 @@ export default class VoteEncoder {
     /**
      * Encodes a single choice vote into a BigInteger.
      * Choices from multiple votes can be grouped into a single BigInteger by separating into bins.
+     * Instead of numChoices, bitsPerChoice and numBins the ElectionParameters can be given, followed by the bin.
      * @param {number} choice - The choice - 0...n
-     * @param {number} numChoices - What is the total number of the choices
+     * @param {number | ElectionParameters} numChoices - What is the total number of the choices or the election parameters
      * @param {number} bitsPerChoice - How many bits we will reserve per choice. 2^bitPerChoice must be less than numChoices
      * @param {number} [bin=0] - The index of the bin for the grouping
      * @param {number} [numBins=0] - The total number of bins for grouping
      * @returns {BigInteger} The encoded integer
      */
+    public static encodeSingle(choice: number, params: ElectionParameters, bin?: number): BigInteger;
     public static encodeSingle(
         choice: number,
         numChoices: number,
         bitsPerChoice: number,
+        bin?: number,
+        numBins?: number,
+    ): BigInteger;
+    public static encodeSingle(
+        choice: number,
+        numChoices: number | ElectionParameters,
+        bitsPerChoice: number = 0,
         bin: number = 0,
         numBins: number = 0,
     ): BigInteger {
+        if (typeof numChoices != "number")
+            return VoteEncoder.encodeSingle(
+                choice,
+                numChoices.numChoices,
+                numChoices.bitsPerChoice,
+                bitsPerChoice,
+                numChoices.numBins,
+            );
         if (choice >= numChoices || numChoices < 2) throw new RangeError("Invlid choices");
         if (numBins > 0 && bin >= numBins) throw new RangeError("Invalid bins");
         if (bitsPerChoice < 2) throw new RangeError("bitsPerChoice must be at least 2");
@@ -30,23 +48,91 @@ export default class VoteEncoder {
         return bigInt.one.shiftLeft(bitsPerChoice * (bin * numChoices + choice));
     }
 
+    /**
+     * Encodes a single choice vote with a weight into a BigInteger. The slot of the choice receives the weight instead of 1.
+     * Choices from multiple votes can be grouped into a single BigInteger by separating into bins.
+     * Instead of numChoices, bitsPerChoice and numBins the ElectionParameters can be given, followed by the bin.
+     * @param {number} choice - The choice - 0...n
+     * @param {BigInteger} weight - The weight of the vote, e.g. the share count of the voter
+     * @param {number | ElectionParameters} numChoices - What is the total number of the choices or the election parameters
+     * @param {number} bitsPerChoice - How many bits we will reserve per choice
+     * @param {number} [bin=0] - The index of the bin for the grouping
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @returns {BigInteger} The encoded integer
+     */
+    public static encodeWeighted(
+        choice: number,
+        weight: BigInteger,
+        params: ElectionParameters,
+        bin?: number,
+    ): BigInteger;
+    public static encodeWeighted(
+        choice: number,
+        weight: BigInteger,
+        numChoices: number,
+        bitsPerChoice: number,
+        bin?: number,
+        numBins?: number,
+    ): BigInteger;
+    public static encodeWeighted(
+        choice: number,
+        weight: BigInteger,
+        numChoices: number | ElectionParameters,
+        bitsPerChoice: number = 0,
+        bin: number = 0,
+        numBins: number = 0,
+    ): BigInteger {
+        if (typeof numChoices != "number") {
+            if (weight.greater(numChoices.maxVotes)) throw new RangeError("Weight exceeds the total weight");
+            return VoteEncoder.encodeWeighted(
+                choice,
+                weight,
+                numChoices.numChoices,
+                numChoices.bitsPerChoice,
+                bitsPerChoice,
+                numChoices.numBins,
+            );
+        }
+        if (weight.lesser(bigInt.one)) throw new RangeError("Weight must be positive");
+        if (weight.bitLength().toJSNumber() >= bitsPerChoice)
+            throw new RangeError("Weight doesn't fit in bitsPerChoice");
+        return VoteEncoder.encodeSingle(choice, numChoices, bitsPerChoice, bin, numBins).multiply(weight);
+    }
+
     /**
      * Encodes multiple choices into a BigInteger.
      * Choices from multiple votes can be grouped into a single BigInteger by separating into bins.
+     * Instead of numChoices, bitsPerChoice and numBins the ElectionParameters can be given, followed by the bin.
      * @param {number[]} choices - The choices - e.g. [0, 2]
-     * @param {number} numChoices - What is the total number of the choices
+     * @param {number | ElectionParameters} numChoices - What is the total number of the choices or the election parameters
      * @param {number} bitsPerChoice - The sum of the two numbers
      * @param {number} [bin=0] - The index of the bin for the grouping
      * @param {number} [numBins=0] - The total number of bins for grouping
      * @returns {BigInteger} The encoded integer
      */
+    public static еncodeMultiple(choices: number[], params: ElectionParameters, bin?: number): BigInteger;
     public static еncodeMultiple(
         choices: number[],
         numChoices: number,
         bitsPerChoice: number,
+        bin?: number,
+        numBins?: number,
+    ): BigInteger;
+    public static еncodeMultiple(
+        choices: number[],
+        numChoices: number | ElectionParameters,
+        bitsPerChoice: number = 0,
         bin: number = 0,
         numBins: number = 0,
     ): BigInteger {
+        if (typeof numChoices != "number")
+            return VoteEncoder.еncodeMultiple(
+                choices,
+                numChoices.numChoices,
+                numChoices.bitsPerChoice,
+                bitsPerChoice,
+                numChoices.numBins,
+            );
         let result = bigInt.zero;
         for (let choice of choices) {
             result = result.plus(VoteEncoder.encodeSingle(choice, numChoices, bitsPerChoice, bin, numBins));
@@ -54,20 +140,185 @@ export default class VoteEncoder {
         return result;
     }
 
+    /**
+     * Encodes a full ranking into a BigInteger using Borda count.
+     * The candidate ranked first gets numChoices - 1 points in its slot, the second numChoices - 2 and so on.
+     * Instead of numChoices, bitsPerChoice and numBins the ElectionParameters.borda can be given, followed by the bin.
+     * @param {number[]} ranking - The choices ordered from the most to the least preferred - e.g. [2, 0, 1]
+     * @param {number | ElectionParameters} numChoices - What is the total number of the choices or the election parameters
+     * @param {number} bitsPerChoice - How many bits we will reserve per choice
+     * @param {number} [bin=0] - The index of the bin for the grouping
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @returns {BigInteger} The encoded integer
+     */
+    public static encodeBorda(ranking: number[], params: ElectionParameters, bin?: number): BigInteger;
+    public static encodeBorda(
+        ranking: number[],
+        numChoices: number,
+        bitsPerChoice: number,
+        bin?: number,
+        numBins?: number,
+    ): BigInteger;
+    public static encodeBorda(
+        ranking: number[],
+        numChoices: number | ElectionParameters,
+        bitsPerChoice: number = 0,
+        bin: number = 0,
+        numBins: number = 0,
+    ): BigInteger {
+        if (typeof numChoices != "number") {
+            VoteEncoder.checkMethod(numChoices, "borda");
+            return VoteEncoder.encodeBorda(
+                ranking,
+                numChoices.numChoices,
+                numChoices.bitsPerChoice,
+                bitsPerChoice,
+                numChoices.numBins,
+            );
+        }
+        VoteEncoder.checkRanking(ranking, numChoices);
+        let result = bigInt.zero;
+        for (let position = 0; position < numChoices; position++) {
+            let points = numChoices - 1 - position;
+            let vote = VoteEncoder.encodeSingle(ranking[position], numChoices, bitsPerChoice, bin, numBins);
+            result = result.plus(vote.multiply(points));
+        }
+        return result;
+    }
+
+    /**
+     * Decodes votes encoded with Borda count. The result is the total points of each choice.
+     * When the ElectionParameters are given, a result showing overflow is refused with RangeError.
+     * @param {BigInteger} encoded - The encoded big integer
+     * @param {number | ElectionParameters} numChoices - What is the total number of the choices or the election parameters
+     * @param {number} bitsPerChoice - How many bits are reserved per choice
+     * @returns {number[]} List of the points for each choice
+     */
+    public static decodeBorda(encoded: BigInteger, params: ElectionParameters): number[];
+    public static decodeBorda(encoded: BigInteger, numChoices: number, bitsPerChoice: number): number[];
+    public static decodeBorda(
+        encoded: BigInteger,
+        numChoices: number | ElectionParameters,
+        bitsPerChoice: number = 0,
+    ): number[] {
+        if (typeof numChoices != "number") {
+            VoteEncoder.checkMethod(numChoices, "borda");
+            return VoteEncoder.decode(encoded, numChoices);
+        }
+        return VoteEncoder.decode(encoded, numChoices, bitsPerChoice);
+    }
+
+    /**
+     * Encodes a full ranking into a BigInteger as a pairwise (Condorcet) preference matrix.
+     * The slot i * numChoices + j is 1 if choice i is preferred over choice j.
+     * Instead of numChoices, bitsPerChoice and numBins the ElectionParameters.condorcet can be given, followed by the bin.
+     * @param {number[]} ranking - The choices ordered from the most to the least preferred - e.g. [2, 0, 1]
+     * @param {number | ElectionParameters} numChoices - What is the total number of the choices or the election parameters
+     * @param {number} bitsPerChoice - How many bits we will reserve per pair of choices
+     * @param {number} [bin=0] - The index of the bin for the grouping
+     * @param {number} [numBins=0] - The total number of bins for grouping
+     * @returns {BigInteger} The encoded integer
+     */
+    public static encodeCondorcet(ranking: number[], params: ElectionParameters, bin?: number): BigInteger;
+    public static encodeCondorcet(
+        ranking: number[],
+        numChoices: number,
+        bitsPerChoice: number,
+        bin?: number,
+        numBins?: number,
+    ): BigInteger;
+    public static encodeCondorcet(
+        ranking: number[],
+        numChoices: number | ElectionParameters,
+        bitsPerChoice: number = 0,
+        bin: number = 0,
+        numBins: number = 0,
+    ): BigInteger {
+        if (typeof numChoices != "number") {
+            VoteEncoder.checkMethod(numChoices, "condorcet");
+            return VoteEncoder.encodeCondorcet(
+                ranking,
+                numChoices.numChoices,
+                numChoices.bitsPerChoice,
+                bitsPerChoice,
+                numChoices.numBins,
+            );
+        }
+        VoteEncoder.checkRanking(ranking, numChoices);
+        let result = bigInt.zero;
+        for (let i = 0; i < numChoices; i++) {
+            for (let j = i + 1; j < numChoices; j++) {
+                let pair = ranking[i] * numChoices + ranking[j];
+                result = result.plus(
+                    VoteEncoder.encodeSingle(pair, numChoices * numChoices, bitsPerChoice, bin, numBins),
+                );
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Decodes votes encoded as pairwise (Condorcet) preference matrix.
+     * When the ElectionParameters are given, a result showing overflow is refused with RangeError.
+     * @param {BigInteger} encoded - The encoded big integer
+     * @param {number | ElectionParameters} numChoices - What is the total number of the choices or the election parameters
+     * @param {number} bitsPerChoice - How many bits are reserved per pair of choices
+     * @returns {Array<Array<number>>} Matrix where [i][j] is the number of votes preferring choice i over choice j
+     */
+    public static decodeCondorcet(encoded: BigInteger, params: ElectionParameters): Array<Array<number>>;
+    public static decodeCondorcet(encoded: BigInteger, numChoices: number, bitsPerChoice: number): Array<Array<number>>;
+    public static decodeCondorcet(
+        encoded: BigInteger,
+        numChoices: number | ElectionParameters,
+        bitsPerChoice: number = 0,
+    ): Array<Array<number>> {
+        if (typeof numChoices != "number") {
+            VoteEncoder.checkMethod(numChoices, "condorcet");
+            if (numChoices.numBins > 0) throw new RangeError("Grouped pairwise votes can't be decoded");
+            numChoices.checkOverflow(encoded);
+            return VoteEncoder.decodeCondorcet(encoded, numChoices.numChoices, numChoices.bitsPerChoice);
+        }
+        let flat = VoteEncoder.decode(encoded, numChoices * numChoices, bitsPerChoice);
+        let result: Array<Array<number>> = new Array<Array<number>>(numChoices);
+        for (let i = 0; i < numChoices; i++) {
+            result[i] = flat.slice(i * numChoices, (i + 1) * numChoices);
+        }
+        return result;
+    }
+
     /**
      * Decodes grouped votes. The result is an array of all groups(bins) containing all votes.
+     * When the ElectionParameters are given, a result showing overflow is refused with RangeError.
      * @param {BigInteger} encoded - The encoded big integer
-     * @param {number} numChoices - What is the total number of the choices
+     * @param {number | ElectionParameters} numChoices - What is the total number of the choices or the election parameters
      * @param {number} bitsPerChoice - The sum of the two numbers
      * @param {number} numBins - The total number of bins for grouping
      * @returns {Array<Array<number>>} List of all groups with all the votes for each choice
      */
+    public static decodeGroups(encoded: BigInteger, params: ElectionParameters): Array<Array<number>>;
     public static decodeGroups(
         encoded: BigInteger,
         numChoices: number,
         bitsPerChoice: number,
         numBins: number,
+    ): Array<Array<number>>;
+    public static decodeGroups(
+        encoded: BigInteger,
+        numChoices: number | ElectionParameters,
+        bitsPerChoice: number = 0,
+        numBins: number = 0,
     ): Array<Array<number>> {
+        if (typeof numChoices != "number") {
+            if (numChoices.method == "condorcet")
+                throw new RangeError("Pairwise votes must be decoded with decodeCondorcet");
+            numChoices.checkOverflow(encoded);
+            return VoteEncoder.decodeGroups(
+                encoded,
+                numChoices.numChoices,
+                numChoices.bitsPerChoice,
+                numChoices.numBins,
+            );
+        }
         if (2 << (bitsPerChoice - 1) >= Number.MAX_SAFE_INTEGER)
             throw new RangeError("Too big voting space, exceeds max int");
 
@@ -86,12 +337,26 @@ export default class VoteEncoder {
 
     /**
      * Decodes non-grouped votes. The result is an array of all votes.
+     * When the ElectionParameters are given, a result showing overflow is refused with RangeError.
      * @param {BigInteger} encoded - The encoded big integer
-     * @param {number} numChoices - What is the total number of the choices
+     * @param {number | ElectionParameters} numChoices - What is the total number of the choices or the election parameters
      * @param {number} bitsPerChoice - The sum of the two numbers
      * @returns {number[]} List of all the votes for each choice
      */
-    public static decode(encoded: BigInteger, numChoices: number, bitsPerChoice: number): number[] {
+    public static decode(encoded: BigInteger, params: ElectionParameters): number[];
+    public static decode(encoded: BigInteger, numChoices: number, bitsPerChoice: number): number[];
+    public static decode(
+        encoded: BigInteger,
+        numChoices: number | ElectionParameters,
+        bitsPerChoice: number = 0,
+    ): number[] {
+        if (typeof numChoices != "number") {
+            if (numChoices.method == "condorcet")
+                throw new RangeError("Pairwise votes must be decoded with decodeCondorcet");
+            if (numChoices.numBins > 0) throw new RangeError("Grouped votes must be decoded with decodeGroups");
+            numChoices.checkOverflow(encoded);
+            return VoteEncoder.decode(encoded, numChoices.numChoices, numChoices.bitsPerChoice);
+        }
         if (2 << (bitsPerChoice - 1) >= Number.MAX_SAFE_INTEGER)
             throw new RangeError("Too big voting space, exceeds max int");
 
@@ -105,17 +370,59 @@ export default class VoteEncoder {
 
     /**
      * Calculates the maximum bits required to encode a number of choices grouped into number of bins.
+     * When the total weight of all votes is given, the bits per choice must be enough to hold it.
      * @param {number} numChoices - What is the total number of the choices
      * * @param {number} numBins - The total number of bins for grouping
      * @param {number} bitsPerChoice - The sum of the two numbers
+     * @param {number} [totalWeight=0] - The total weight of all votes for weighted voting
      * @returns {number} Number of bits
+     * @throws {RangeError} If the total weight doesn't fit into bitsPerChoice
      */
-    public static getTotalVotesBits(numChoices: number, numBins: number, bitsPerChoice: number): number {
+    public static getTotalVotesBits(
+        numChoices: number,
+        numBins: number,
+        bitsPerChoice: number,
+        totalWeight: number = 0,
+    ): number {
         if (numChoices <= 0 || bitsPerChoice <= 0) return 0;
         if (numBins <= 0) numBins = 1;
+        if (totalWeight > 0 && bitsPerChoice < VoteEncoder.getBitsPerChoice(totalWeight))
+            throw new RangeError(`Total weight ${totalWeight} doesn't fit into ${bitsPerChoice} bits per choice`);
         return numChoices * numBins * bitsPerChoice;
     }
 
+    /**
+     * Calculates the minimum bits per choice required to hold a number of votes in a single slot.
+     * One extra bit is reserved as a guard against overflow into the next slot.
+     * @param {number} maxVotes - The maximum value a slot can reach, e.g. the number of voters
+     * @returns {number} Number of bits per choice
+     */
+    public static getBitsPerChoice(maxVotes: number): number {
+        if (maxVotes < 0) throw new RangeError("Invalid number of votes");
+        return Math.max(2, bigInt(maxVotes).bitLength().toJSNumber() + 1);
+    }
+
+    /**
+     * Calculates the minimum bits per choice required for Borda count
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} numVoters - The maximum number of voters
+     * @returns {number} Number of bits per choice
+     */
+    public static getBordaBitsPerChoice(numChoices: number, numVoters: number): number {
+        return VoteEncoder.getBitsPerChoice((numChoices - 1) * numVoters);
+    }
+
+    /**
+     * Calculates the maximum bits required to encode pairwise (Condorcet) preferences grouped into number of bins.
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} numBins - The total number of bins for grouping
+     * @param {number} bitsPerChoice - How many bits are reserved per pair of choices
+     * @returns {number} Number of bits
+     */
+    public static getCondorcetTotalVotesBits(numChoices: number, numBins: number, bitsPerChoice: number): number {
+        return VoteEncoder.getTotalVotesBits(numChoices * numChoices, numBins, bitsPerChoice);
+    }
+
     /**
      * Generates all permutations of encoded votes (single choice) grouped in bins
      * @param {number} numChoices - What is the total number of the choices
@@ -140,4 +447,42 @@ export default class VoteEncoder {
         } while (++bin < numBins);
         return list;
     }
+
+    /**
+     * Generates all permutations of encoded weighted votes (single choice) grouped in bins
+     * @param {BigInteger} weight - The weight of the vote
+     * @param {number} numChoices - What is the total number of the choices
+     * @param {number} bitsPerChoice - How many bits are reserved per choice
+     * @param {number} numBins - The total number of bins for grouping
+     * @returns {Array<BigInteger>} Permutations
+     */
+    public static getWeightedPermutations(
+        weight: BigInteger,
+        numChoices: number,
+        bitsPerChoice: number,
+        numBins: number = 0,
+    ): Array<BigInteger> {
+        return VoteEncoder.getSingleChoicePermutations(numChoices, bitsPerChoice, numBins).map((vote) =>
+            vote.multiply(weight),
+        );
+    }
+
+    /**
+     * Checks if the election parameters are made for the counting method
+     */
+    private static checkMethod(params: ElectionParameters, method: string) {
+        if (params.method != method)
+            throw new RangeError(`Election parameters are for ${params.method}, not ${method}`);
+    }
+
+    /**
+     * Checks if the ranking contains every choice exactly once
+     */
+    private static checkRanking(ranking: number[], numChoices: number) {
+        if (numChoices < 2 || ranking.length != numChoices) throw new RangeError("Ranking must contain all choices");
+        for (let i = 0; i < ranking.length; i++) {
+            if (ranking[i] < 0 || ranking[i] >= numChoices) throw new RangeError("Invalid choices");
+            if (ranking.indexOf(ranking[i]) != i) throw new RangeError("Duplicate choices");
+        }
+    }
 }
@@ -0,0 +1,35 @@
+import { BigInteger } from "big-integer";
+import WireFormat from "./WireFormat";
+import Signature from "./Signature";
+
+/**
+ * A voting weight, e.g. a share count, certified by the Organizer for a single voter
+ */
+export default class WeightCertificate {
+    public voterId: string;
+    public weight: BigInteger;
+    public signature: Signature;
+
+    constructor(voterId: string, weight: BigInteger, signature: Signature) {
+        this.voterId = voterId;
+        this.weight = weight;
+        this.signature = signature;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("WeightCertificate");
+        o.voterId = this.voterId;
+        o.weight = WireFormat.encodeBigInt(this.weight);
+        o.signature = this.signature;
+        return o;
+    }
+
+    public static from(o: any): WeightCertificate {
+        WireFormat.checkHeader(o, "WeightCertificate");
+        return new WeightCertificate(
+            WireFormat.decodeString(o.voterId, "voterId"),
+            WireFormat.decodeBigInt(o.weight, "weight"),
+            Signature.from(o.signature),
+        );
+    }
+}
@@ -0,0 +1,198 @@
+import { BigInteger, default as bigInt } from "big-integer";
+import BigMath from "./BigMath";
+import PublicKey from "./PublicKey";
+import BinaryWriter from "./BinaryWriter";
+import BinaryReader from "./BinaryReader";
+import Bytes from "./Bytes";
+
+/**
+ * Helpers for the explicit JSON and binary encodings of the library's objects.
+ * Every JSON object carries a type tag and a format version, BigIntegers are base64 strings.
+ * Objects without a type tag are accepted in the legacy format produced by older versions.
+ */
+export default class WireFormat {
+    /**
+     * The current version of the JSON and binary formats
+     */
+    public static readonly FORMAT: number = 1;
+
+    /**
+     * Type codes of the binary format
+     */
+    public static readonly PUBLIC_KEY: number = 1;
+    public static readonly PRIVATE_KEY: number = 2;
+    public static readonly SIGNATURE: number = 3;
+    public static readonly ZKP_COMMITMENT: number = 4;
+    public static readonly CIPHERTEXT: number = 5;
+    public static readonly CAST_BALLOT: number = 6;
+    public static readonly BULLETIN_BOARD: number = 7;
+
+    private static readonly BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+    /**
+     * Creates the type tag of a JSON object
+     * @param {string} type - name of the type
+     * @returns {any} The type tag
+     */
+    public static header(type: string): any {
+        return { type: type, format: this.FORMAT };
+    }
+
+    /**
+     * Checks that a JSON object has the given type tag and a supported format
+     * @param {any} o - parsed JSON object
+     * @param {string} type - name of the expected type
+     * @param {boolean} [allowUntagged=true] - accept objects without type tag written by older versions
+     */
+    public static checkHeader(o: any, type: string, allowUntagged: boolean = true) {
+        if (o === null || typeof o != "object" || Array.isArray(o)) throw new TypeError(`${type} must be an object`);
+        // Objects from older versions have no type tag
+        if (allowUntagged && o.type === undefined && o.format === undefined) return;
+        if (o.type !== type) throw new TypeError(`Expected ${type} but got ${o.type}`);
+        if (o.format !== this.FORMAT) throw new RangeError(`Unsupported ${type} format ${o.format}`);
+    }
+
+    /**
+     * Encodes a BigInteger as base64 string
+     * @param {BigInteger} bn - BigInteger
+     * @returns {string} Base64 encoded BigInteger
+     */
+    public static encodeBigInt(bn: BigInteger): string {
+        return BigMath.bigIntToBase64(bn);
+    }
+
+    /**
+     * Decodes and validates a base64 encoded BigInteger
+     * @param {any} v - base64 string
+     * @param {string} field - name of the field for the error message
+     * @returns {BigInteger} The BigInteger
+     */
+    public static decodeBigInt(v: any, field: string): BigInteger {
+        if (typeof v != "string" || v.length == 0 || !this.BASE64.test(v))
+            throw new TypeError(`${field} must be a base64 string`);
+        return BigMath.base64ToBigInt(v);
+    }
+
+    /**
+     * Decodes and validates base64 encoded bytes
+     * @param {any} v - base64 string
+     * @param {string} field - name of the field for the error message
+     * @param {number} [length] - the expected number of bytes
+     * @returns {Uint8Array} The bytes
+     */
+    public static decodeBytes(v: any, field: string, length?: number): Uint8Array {
+        if (typeof v != "string" || v.length == 0 || !this.BASE64.test(v))
+            throw new TypeError(`${field} must be a base64 string`);
+        let bytes = Bytes.fromBase64(v);
+        if (length !== undefined && bytes.length != length)
+            throw new RangeError(`${field} must be ${length} bytes long`);
+        return bytes;
+    }
+
+    /**
+     * Encodes a list of BigIntegers as base64 strings
+     * @param {BigInteger[]} list - BigIntegers
+     * @returns {string[]} Base64 encoded BigIntegers
+     */
+    public static encodeBigIntArray(list: BigInteger[]): string[] {
+        return BigMath.bigIntArrayToBase64Array(list);
+    }
+
+    /**
+     * Decodes and validates a list of base64 encoded BigIntegers
+     * @param {any} v - list of base64 strings
+     * @param {string} field - name of the field for the error message
+     * @returns {BigInteger[]} The BigIntegers
+     */
+    public static decodeBigIntArray(v: any, field: string): BigInteger[] {
+        if (!Array.isArray(v)) throw new TypeError(`${field} must be an array`);
+        return v.map((value, i) => this.decodeBigInt(value, `${field}[${i}]`));
+    }
+
+    /**
+     * Decodes and validates a list of objects
+     * @param {any} v - list of objects
+     * @param {string} field - name of the field for the error message
+     * @param {Function} from - decoder of a single object
+     * @returns {T[]} The objects
+     */
+    public static decodeArray<T>(v: any, field: string, from: (o: any) => T): T[] {
+        if (!Array.isArray(v)) throw new TypeError(`${field} must be an array`);
+        return v.map((value) => from(value));
+    }
+
+    /**
+     * Validates a non-negative integer
+     * @param {any} v - the value
+     * @param {string} field - name of the field for the error message
+     * @returns {number} The integer
+     */
+    public static decodeInteger(v: any, field: string): number {
+        if (typeof v != "number" || !Number.isSafeInteger(v) || v < 0)
+            throw new TypeError(`${field} must be a non-negative integer`);
+        return v;
+    }
+
+    /**
+     * Validates a string
+     * @param {any} v - the value
+     * @param {string} field - name of the field for the error message
+     * @returns {string} The string
+     */
+    public static decodeString(v: any, field: string): string {
+        if (typeof v != "string") throw new TypeError(`${field} must be a string`);
+        return v;
+    }
+
+    /**
+     * Encodes a ciphertext as JSON object
+     * @param {BigInteger} c - encrypted message
+     * @returns {any} The JSON object
+     */
+    public static encodeCiphertext(c: BigInteger): any {
+        let o = this.header("Ciphertext");
+        o.c = this.encodeBigInt(c);
+        return o;
+    }
+
+    /**
+     * Decodes and validates a ciphertext
+     * @param {any} o - parsed JSON object
+     * @param {PublicKey} [pub] - public key to check that 0 < c < n^2
+     * @returns {BigInteger} The encrypted message
+     */
+    public static decodeCiphertext(o: any, pub?: PublicKey): BigInteger {
+        this.checkHeader(o, "Ciphertext");
+        let c = this.decodeBigInt(o.c, "c");
+        this.checkCiphertext(c, pub);
+        return c;
+    }
+
+    /**
+     * Encodes a ciphertext in the binary format
+     * @param {BigInteger} c - encrypted message
+     * @returns {Uint8Array} The bytes
+     */
+    public static ciphertextToBytes(c: BigInteger): Uint8Array {
+        return new BinaryWriter(this.CIPHERTEXT).writeBigInt(c).toBuffer();
+    }
+
+    /**
+     * Decodes a ciphertext from the binary format
+     * @param {Uint8Array} buf - The bytes
+     * @param {PublicKey} [pub] - public key to check that 0 < c < n^2
+     * @returns {BigInteger} The encrypted message
+     */
+    public static ciphertextFromBytes(buf: Uint8Array, pub?: PublicKey): BigInteger {
+        let reader = new BinaryReader(buf, this.CIPHERTEXT);
+        let c = reader.readBigInt();
+        reader.end();
+        this.checkCiphertext(c, pub);
+        return c;
+    }
+
+    private static checkCiphertext(c: BigInteger, pub?: PublicKey) {
+        if (pub !== undefined && (c.lesserOrEquals(bigInt.zero) || c.greaterOrEquals(pub.nSquared)))
+            throw new RangeError("Ciphertext must be between 0 and n^2");
+    }
+}
@@ -0,0 +1,274 @@
+import { BigInteger } from "big-integer";
+import type { Worker } from "worker_threads";
+import Paillier from "./Paillier";
+import PublicKey from "./PublicKey";
+import PrivateKey from "./PrivateKey";
+import ZkpCommitment from "./ZkpCommitment";
+import WireFormat from "./WireFormat";
+import Platform from "./Platform";
+import WorkerPoolOptions from "./WorkerPoolOptions";
+
+interface Task {
+    id: number;
+    method: string;
+    args: any[];
+    resolve: (result: any) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * A pool of Node.js worker threads with async counterparts of the expensive Paillier operations,
+ * so they don't block the event loop. The objects are passed between the threads in the library's JSON format.
+ * The workers run a script of the application that calls WorkerPool.startWorker.
+ * Idle workers don't keep the process alive, call terminate when the pool isn't needed anymore.
+ * See the tests for how to use examples
+ */
+export default class WorkerPool {
+    private static readonly WORKER_TYPE = "phe-voting-js/worker";
+
+    private threads: typeof import("worker_threads");
+    private script: string | URL;
+    private workers: Worker[];
+    private idle: Worker[];
+    private queue: Task[];
+    private running: Map<Worker, Task>;
+    private nextId: number;
+    private terminated: boolean;
+
+    /**
+     * @param {WorkerPoolOptions} options - script of the workers, number of threads and the worker_threads module
+     */
+    constructor(options: WorkerPoolOptions) {
+        let threads = options.threads !== undefined ? options.threads : Platform.nodeModule("worker_threads");
+        if (threads === undefined) throw new Error("Worker threads are only supported on Node.js");
+        let size = options.size;
+        if (size === undefined) {
+            let os = Platform.nodeModule("os");
+            if (os === undefined) throw new Error("Size must be given where the os module can't be loaded");
+            size = os.cpus().length as number;
+        }
+        if (!Number.isSafeInteger(size) || size < 1) throw new RangeError("Size must be positive");
+        this.threads = threads;
+        this.script = options.script;
+        this.workers = [];
+        this.idle = [];
+        this.queue = [];
+        this.running = new Map<Worker, Task>();
+        this.nextId = 0;
+        this.terminated = false;
+        for (let i = 0; i < size; i++) this.spawn();
+    }
+
+    /**
+     * @returns {number} The number of worker threads
+     */
+    public size(): number {
+        return this.workers.length;
+    }
+
+    /**
+     * Async version of Paillier.encryptWithZkp
+     * @param {BigInteger} m - message to encrypt
+     * @param {BigInteger[]} valid - list of valid messages
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof is bound to
+     * @returns {Promise<[BigInteger, ZkpCommitment]>} The encrypted message and the ZKP commitment
+     */
+    public encryptWithZkp(
+        m: BigInteger,
+        valid: BigInteger[],
+        pub: PublicKey,
+        context: string = "",
+    ): Promise<[BigInteger, ZkpCommitment]> {
+        let args = [WireFormat.encodeBigInt(m), WireFormat.encodeBigIntArray(valid), pub, context];
+        return this.run("encryptWithZkp", args).then(([c, commitment]) => [
+            WireFormat.decodeBigInt(c, "c"),
+            ZkpCommitment.from(commitment),
+        ]);
+    }
+
+    /**
+     * Async version of Paillier.verifyZkp
+     * @param {BigInteger} c - encrypted message
+     * @param {BigInteger[]} valid - list of valid messages
+     * @param {ZkpCommitment} commitment - The ZKP commitment
+     * @param {PublicKey} pub - public key to encrypt with
+     * @param {string} [context=""] - election context the proof must be bound to
+     * @returns {Promise<boolean>} true if correct
+     */
+    public verifyZkp(
+        c: BigInteger,
+        valid: BigInteger[],
+        commitment: ZkpCommitment,
+        pub: PublicKey,
+        context: string = "",
+    ): Promise<boolean> {
+        let args = [WireFormat.encodeBigInt(c), WireFormat.encodeBigIntArray(valid), commitment, pub, context];
+        return this.run("verifyZkp", args);
+    }
+
+    /**
+     * Async version of Paillier.decrypt
+     * @param {BigInteger} c - encrypted message
+     * @param {PublicKey} pub - public key
+     * @param {PrivateKey} priv - private key
+     * @returns {Promise<BigInteger>} Plain message
+     */
+    public decrypt(c: BigInteger, pub: PublicKey, priv: PrivateKey): Promise<BigInteger> {
+        return this.run("decrypt", [WireFormat.encodeBigInt(c), pub, priv]).then((m) =>
+            WireFormat.decodeBigInt(m, "m"),
+        );
+    }
+
+    /**
+     * Async version of Paillier.generateKeyPair
+     * @param {number} bits - Number of bits
+     * @param {boolean} [safe=false] - Use safe primes, much slower
+     * @returns {Promise<[PublicKey, PrivateKey]>} The public and the private key
+     */
+    public generateKeyPair(bits: number, safe: boolean = false): Promise<[PublicKey, PrivateKey]> {
+        return this.run("generateKeyPair", [bits, safe]).then(([pub, priv]) => [
+            PublicKey.from(pub),
+            PrivateKey.from(priv),
+        ]);
+    }
+
+    /**
+     * Stops all worker threads and rejects the queued and the running tasks
+     * @returns {Promise<void>} Resolves when all threads are stopped
+     */
+    public terminate(): Promise<void> {
+        this.terminated = true;
+        for (let task of this.queue) task.reject(new Error("Worker pool is terminated"));
+        this.queue = [];
+        this.running.forEach((task) => task.reject(new Error("Worker pool is terminated")));
+        this.running.clear();
+        let workers = this.workers;
+        this.workers = [];
+        this.idle = [];
+        return Promise.all(workers.map((worker) => worker.terminate())).then(() => undefined);
+    }
+
+    private run(method: string, args: any[]): Promise<any> {
+        if (this.terminated) return Promise.reject(new Error("Worker pool is terminated"));
+        return new Promise<any>((resolve, reject) => {
+            this.queue.push({ id: this.nextId++, method, args, resolve, reject });
+            this.dispatch();
+        });
+    }
+
+    private dispatch() {
+        while (this.idle.length > 0 && this.queue.length > 0) {
+            let worker = this.idle.pop()!;
+            let task = this.queue.shift()!;
+            this.running.set(worker, task);
+            worker.ref();
+            worker.postMessage(JSON.stringify({ id: task.id, method: task.method, args: task.args }));
+        }
+    }
+
+    private spawn() {
+        let worker = new this.threads.Worker(this.script, { workerData: { type: WorkerPool.WORKER_TYPE } });
+
+        worker.on("message", (message: string) => {
+            let task = this.running.get(worker);
+            this.running.delete(worker);
+            worker.unref();
+            this.idle.push(worker);
+            if (task) {
+                let response = JSON.parse(message);
+                if (response.error) task.reject(WorkerPool.toError(response.error));
+                else task.resolve(response.result);
+            }
+            this.dispatch();
+        });
+        worker.on("error", (error: Error) => this.replace(worker, error));
+        worker.on("exit", (code: number) => this.replace(worker, new Error(`Worker stopped with exit code ${code}`)));
+
+        worker.unref();
+        this.workers.push(worker);
+        this.idle.push(worker);
+    }
+
+    /**
+     * Rejects the task of a crashed or stopped worker and starts a new worker instead.
+     * A crashed worker emits both error and exit, only the first one is handled.
+     */
+    private replace(worker: Worker, error: Error) {
+        let task = this.running.get(worker);
+        this.running.delete(worker);
+        if (task) task.reject(error);
+        if (this.workers.indexOf(worker) < 0) return;
+
+        this.workers = this.workers.filter((w) => w !== worker);
+        this.idle = this.idle.filter((w) => w !== worker);
+        if (!this.terminated) {
+            this.spawn();
+            this.dispatch();
+        }
+    }
+
+    /**
+     * Runs the tasks received from the pool, called in the worker thread
+     */
+    private static serve(threads: typeof import("worker_threads")) {
+        let parentPort = threads.parentPort!;
+        parentPort.on("message", (message: string) => {
+            let { id, method, args } = JSON.parse(message);
+            let response: any;
+            try {
+                if (!Object.prototype.hasOwnProperty.call(Tasks, method)) throw new Error(`Unknown task ${method}`);
+                response = { id, result: Tasks[method](args) };
+            } catch (e: any) {
+                response = { id, error: { name: e.name, message: e.message } };
+            }
+            parentPort.postMessage(JSON.stringify(response));
+        });
+    }
+
+    private static toError(error: { name: string; message: string }): Error {
+        if (error.name == "RangeError") return new RangeError(error.message);
+        if (error.name == "TypeError") return new TypeError(error.message);
+        return new Error(error.message);
+    }
+
+    /**
+     * Starts serving the tasks of the pool, called by the script of the workers
+     * @param {typeof import("worker_threads")} [threads] - the worker_threads module, loaded with require by default
+     */
+    public static startWorker(threads: typeof import("worker_threads") = Platform.nodeModule("worker_threads")) {
+        if (threads === undefined || threads.isMainThread) return;
+        if (threads.workerData && threads.workerData.type == WorkerPool.WORKER_TYPE) WorkerPool.serve(threads);
+    }
+}
+
+/**
+ * The tasks run in the worker threads with the arguments and the results in the JSON format
+ */
+const Tasks: { [method: string]: (args: any[]) => any } = {
+    encryptWithZkp: ([m, valid, pub, context]) => {
+        let [c, commitment] = Paillier.encryptWithZkp(
+            WireFormat.decodeBigInt(m, "m"),
+            WireFormat.decodeBigIntArray(valid, "valid"),
+            PublicKey.from(pub),
+            WireFormat.decodeString(context, "context"),
+        );
+        return [WireFormat.encodeBigInt(c), commitment.toJSON()];
+    },
+    verifyZkp: ([c, valid, commitment, pub, context]) =>
+        Paillier.verifyZkp(
+            WireFormat.decodeBigInt(c, "c"),
+            WireFormat.decodeBigIntArray(valid, "valid"),
+            ZkpCommitment.from(commitment),
+            PublicKey.from(pub),
+            WireFormat.decodeString(context, "context"),
+        ),
+    decrypt: ([c, pub, priv]) =>
+        WireFormat.encodeBigInt(
+            Paillier.decrypt(WireFormat.decodeBigInt(c, "c"), PublicKey.from(pub), PrivateKey.from(priv)),
+        ),
+    generateKeyPair: ([bits, safe]) => {
+        let [pub, priv] = Paillier.generateKeyPair(WireFormat.decodeInteger(bits, "bits"), safe === true);
+        return [pub.toJSON(), priv.toJSON()];
+    },
+};
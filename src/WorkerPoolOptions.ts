@@ -0,0 +1,17 @@
+/**
+ * Options of WorkerPool
+ */
+export default interface WorkerPoolOptions {
+    /**
+     * Path or file URL of the script the workers run, it must call WorkerPool.startWorker
+     */
+    script: string | URL;
+    /**
+     * Number of worker threads, the number of CPUs by default
+     */
+    size?: number;
+    /**
+     * The Node.js worker_threads module, required where the library can't load it with require, e.g. in ES modules
+     */
+    threads?: typeof import("worker_threads");
+}
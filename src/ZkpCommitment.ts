@@ -1,45 +1,112 @@
 import { BigInteger } from "big-integer";
 import BigMath from "./BigMath";
+import WireFormat from "./WireFormat";
+import BinaryWriter from "./BinaryWriter";
+import BinaryReader from "./BinaryReader";
 
 /**
  * A strucuture for zero-knowledge proof commitment
  */
 export default class ZkpCommitment {
+    /**
+     * The original format where the challenge is derived only from the commitments a[i]
+     */
+    public static readonly LEGACY_VERSION: number = 1;
+    /**
+     * The current format where the challenge is bound to the full statement and a context
+     */
+    public static readonly VERSION: number = 2;
+
+    public version: number;
     public a: BigInteger[];
     public e: BigInteger[];
     public z: BigInteger[];
 
-    constructor(capacity: number = 0) {
+    constructor(capacity: number = 0, version: number = ZkpCommitment.VERSION) {
+        this.version = version;
         this.a = new Array<BigInteger>(capacity);
         this.e = new Array<BigInteger>(capacity);
         this.z = new Array<BigInteger>(capacity);
-        this.makeStringifyToBase64();
     }
 
+    /**
+     * @deprecated The commitment is serialized by toJSON
+     */
     public makeStringifyToBase64() {
         this.a.forEach((value) => BigMath.makeStringifyToBase64(value));
         this.e.forEach((value) => BigMath.makeStringifyToBase64(value));
         this.z.forEach((value) => BigMath.makeStringifyToBase64(value));
     }
 
-    public static create(a: BigInteger[], e: BigInteger[], z: BigInteger[]) {
-        let c = new ZkpCommitment(a.length);
+    /**
+     * Checks if the commitment is in the legacy format which isn't bound to the proven statement
+     * @returns {boolean} true if legacy
+     */
+    public isLegacy(): boolean {
+        return this.version == ZkpCommitment.LEGACY_VERSION;
+    }
+
+    public toJSON(): any {
+        let o = WireFormat.header("ZkpCommitment");
+        o.version = this.version;
+        o.a = WireFormat.encodeBigIntArray(this.a);
+        o.e = WireFormat.encodeBigIntArray(this.e);
+        o.z = WireFormat.encodeBigIntArray(this.z);
+        return o;
+    }
+
+    public toBytes(): Uint8Array {
+        return new BinaryWriter(WireFormat.ZKP_COMMITMENT)
+            .writeUInt32(this.version)
+            .writeBigIntArray(this.a)
+            .writeBigIntArray(this.e)
+            .writeBigIntArray(this.z)
+            .toBuffer();
+    }
+
+    public static create(
+        a: BigInteger[],
+        e: BigInteger[],
+        z: BigInteger[],
+        version: number = ZkpCommitment.VERSION,
+    ): ZkpCommitment {
+        let c = new ZkpCommitment(a.length, version);
         c.a = a;
         c.e = e;
         c.z = z;
-        c.makeStringifyToBase64();
         return c;
     }
 
-    private static fromArray(a: any): Array<BigInteger> {
-        let result = new Array<BigInteger>();
-        for (let v of a) {
-            result.push(BigMath.base64ToBigInt(v));
-        }
-        return result;
+    public static from(o: any): ZkpCommitment {
+        WireFormat.checkHeader(o, "ZkpCommitment");
+        // Commitments without version are in the legacy format
+        let version = o.version === undefined ? ZkpCommitment.LEGACY_VERSION : o.version;
+        return this.validate(
+            WireFormat.decodeBigIntArray(o.a, "a"),
+            WireFormat.decodeBigIntArray(o.e, "e"),
+            WireFormat.decodeBigIntArray(o.z, "z"),
+            version,
+        );
     }
 
-    public static from(o: any): ZkpCommitment {
-        return this.create(this.fromArray(o.a), this.fromArray(o.e), this.fromArray(o.z));
+    public static fromBytes(buf: Uint8Array): ZkpCommitment {
+        let reader = new BinaryReader(buf, WireFormat.ZKP_COMMITMENT);
+        let version = reader.readUInt32();
+        let commitment = this.validate(
+            reader.readBigIntArray(),
+            reader.readBigIntArray(),
+            reader.readBigIntArray(),
+            version,
+        );
+        reader.end();
+        return commitment;
+    }
+
+    private static validate(a: BigInteger[], e: BigInteger[], z: BigInteger[], version: number): ZkpCommitment {
+        if (version !== ZkpCommitment.LEGACY_VERSION && version !== ZkpCommitment.VERSION)
+            throw new RangeError(`Unsupported commitment version ${version}`);
+        if (a.length == 0 || a.length != e.length || a.length != z.length)
+            throw new RangeError("Commitment lists must have the same non-zero length");
+        return this.create(a, e, z, version);
     }
 }
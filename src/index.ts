@@ -1,9 +1,53 @@
 export { default as BigMath } from "./BigMath";
+export { default as Platform } from "./Platform";
+export { default as Bytes } from "./Bytes";
+export type { default as RandomSource } from "./RandomSource";
+export { default as CryptoRandomSource } from "./CryptoRandomSource";
+export { default as SeededRandomSource } from "./SeededRandomSource";
 export { default as Paillier } from "./Paillier";
 export { default as PrivateKey } from "./PrivateKey";
+export type { default as KeyGenerationOptions, KeyGenerationProgress } from "./KeyGenerationOptions";
+export { default as KeyFile } from "./KeyFile";
+export { default as RandomnessPool } from "./RandomnessPool";
+export { default as WorkerPool } from "./WorkerPool";
+export type { default as WorkerPoolOptions } from "./WorkerPoolOptions";
 export { default as Signature } from "./Signature";
+export { default as WeightCertificate } from "./WeightCertificate";
 export { default as ZkpCommitment } from "./ZkpCommitment";
+export { default as ResidueProof } from "./ResidueProof";
+export { default as ModulusProof } from "./ModulusProof";
+export { default as RangeProof } from "./RangeProof";
+export { default as MultiChoiceBallot } from "./MultiChoiceBallot";
+export { default as RankedBallot } from "./RankedBallot";
+export { default as Transcript } from "./Transcript";
+export { default as WireFormat } from "./WireFormat";
+export { default as BinaryWriter } from "./BinaryWriter";
+export { default as BinaryReader } from "./BinaryReader";
 export { default as PublicKey } from "./PublicKey";
 export { default as VoteEncoder } from "./VoteEncoder";
+export { default as ElectionParameters } from "./ElectionParameters";
+export { default as BallotSpec } from "./BallotSpec";
+export { default as Tally } from "./Tally";
+export { default as CastBallot } from "./CastBallot";
+export { default as BulletinBoard } from "./BulletinBoard";
+export { default as SignedTreeHead } from "./SignedTreeHead";
+export { default as InclusionProof } from "./InclusionProof";
+export { default as ConsistencyProof } from "./ConsistencyProof";
+export { default as BlindSignature } from "./BlindSignature";
+export { default as RsaPublicKey } from "./RsaPublicKey";
+export { default as RsaPrivateKey } from "./RsaPrivateKey";
+export { default as EligibilityToken } from "./EligibilityToken";
+export { default as TokenLedger } from "./TokenLedger";
+export { default as LinkableRingSignature } from "./LinkableRingSignature";
+export { default as RingSignature } from "./RingSignature";
+export { default as Mixnet } from "./Mixnet";
+export { default as ShuffleProof } from "./ShuffleProof";
+export { default as MixStep } from "./MixStep";
+export { default as MixChain } from "./MixChain";
+export { default as ThresholdPaillier } from "./ThresholdPaillier";
+export { default as KeyShare } from "./KeyShare";
+export { default as PartialDecryption } from "./PartialDecryption";
+export { default as VerificationKeys } from "./VerificationKeys";
+export { default as EqualityProof } from "./EqualityProof";
 export { default as bigInt } from "big-integer";
 export { BigInteger } from "big-integer";
@@ -0,0 +1,152 @@
+import "mocha";
+import { expect } from "chai";
+import { default as bigInt } from "big-integer";
+
+import BigMath from "../src/BigMath";
+import Paillier from "../src/Paillier";
+
+describe("Testing BigMath", () => {
+    afterEach(() => {
+        BigMath.useNativeBigInt(true);
+    });
+
+    it(`should use native bigint by default`, () => {
+        expect(BigMath.isNativeBigInt()).to.be.true;
+        BigMath.useNativeBigInt(false);
+        expect(BigMath.isNativeBigInt()).to.be.false;
+    });
+
+    [
+        { base: "4", exp: "13", m: "497", result: "445" },
+        { base: "0", exp: "0", m: "7", result: "1" },
+        { base: "5", exp: "3", m: "1", result: "0" },
+        { base: "3", exp: "-1", m: "7", result: "5" },
+        { base: "3", exp: "-5", m: "7", result: "3" },
+    ].forEach((test) => {
+        it(`should calculate ${test.base}^${test.exp} mod ${test.m} with both backends`, () => {
+            let [base, exp, m] = [bigInt(test.base), bigInt(test.exp), bigInt(test.m)];
+            expect(BigMath.modPow(base, exp, m).toString()).to.equals(test.result);
+            BigMath.useNativeBigInt(false);
+            expect(BigMath.modPow(base, exp, m).toString()).to.equals(test.result);
+        });
+    });
+
+    [64, 256, 1024, 2048].forEach((bits) => {
+        it(`should calculate the same ${bits} bit modPow as big-integer`, () => {
+            for (let i = 0; i < 5; i++) {
+                let m = BigMath.generateRandom(bits).or(bigInt.one);
+                let base = BigMath.generateRandom(bits + 8);
+                let exp = BigMath.generateRandom(bits);
+                expect(BigMath.modPow(base, exp, m).equals(base.modPow(exp, m))).to.be.true;
+            }
+        });
+    });
+
+    [
+        { bases: ["4", "3"], exps: ["13", "2"], m: "497", result: "29" },
+        { bases: ["3", "2"], exps: ["-1", "0"], m: "7", result: "5" },
+        { bases: ["5"], exps: ["3"], m: "1", result: "0" },
+        { bases: [], exps: [], m: "7", result: "1" },
+    ].forEach((test) => {
+        it(`should calculate the product of [${test.bases}]^[${test.exps}] mod ${test.m} with both backends`, () => {
+            let [bases, exps, m] = [test.bases.map((x) => bigInt(x)), test.exps.map((x) => bigInt(x)), bigInt(test.m)];
+            expect(BigMath.multiModPow(bases, exps, m).toString()).to.equals(test.result);
+            BigMath.useNativeBigInt(false);
+            expect(BigMath.multiModPow(bases, exps, m).toString()).to.equals(test.result);
+        });
+    });
+
+    it(`should calculate the same multi-exponentiation as separate modPows`, () => {
+        let m = BigMath.generateRandom(2048).or(bigInt.one);
+        let bases = [BigMath.generateRandom(2048), BigMath.generateRandom(1024), BigMath.generateRandom(64)];
+        let exps = [BigMath.generateRandom(128), BigMath.generateRandom(2048), bigInt.zero];
+        let expected = bases.reduce((acc, base, i) => acc.multiply(base.modPow(exps[i], m)).mod(m), bigInt.one);
+        expect(BigMath.multiModPow(bases, exps, m).equals(expected)).to.be.true;
+        expect(() => BigMath.multiModPow(bases, exps.slice(1), m)).to.throw(RangeError);
+    });
+
+    [
+        { n: "2", prime: true },
+        { n: "97", prime: true },
+        { n: "1", prime: false },
+        { n: "561", prime: false }, // Carmichael number
+        { n: "3215031751", prime: false }, // strong pseudoprime to bases 2, 3, 5, 7
+        { n: "170141183460469231731687303715884105727", prime: true }, // 2^127 - 1
+        { n: "170141183460469231731687303715884105729", prime: false },
+    ].forEach((test) => {
+        it(`should test if ${test.n} is prime with both backends`, () => {
+            expect(BigMath.isProbablePrime(bigInt(test.n))).to.equals(test.prime);
+            BigMath.useNativeBigInt(false);
+            expect(BigMath.isProbablePrime(bigInt(test.n))).to.equals(test.prime);
+        });
+    });
+
+    it(`should convert between BigInteger and native bigint`, () => {
+        let bn = BigMath.generateRandom(512);
+        let value = BigMath.toNative(bn);
+        expect(value.toString()).to.equals(bn.toString());
+        expect(BigMath.fromNative(value).equals(bn)).to.be.true;
+        expect(BigMath.toNative(bn.negate()).toString()).to.equals(bn.negate().toString());
+        expect(BigMath.toNative(bigInt.zero).toString()).to.equals("0");
+    });
+
+    it(`should decrypt with a key generated by the other backend`, () => {
+        BigMath.useNativeBigInt(false);
+        let [pub, priv] = Paillier.generateKeyPair(256);
+        let m = bigInt(12345);
+        let c = Paillier.encrypt(m, pub);
+        BigMath.useNativeBigInt(true);
+        expect(Paillier.decrypt(c, pub, priv).equals(m)).to.be.true;
+    });
+
+    [
+        { name: "random", generate: (bits: number) => BigMath.generateRandomPrime(bits), rest: 1 },
+        { name: "Blum", generate: (bits: number) => BigMath.generateBlumPrime(bits), rest: 3 },
+        { name: "safe", generate: (bits: number) => BigMath.generateSafePrime(bits), rest: 3 },
+    ].forEach((test) => {
+        [8, 20, 128].forEach((bits) => {
+            it(`should generate ${test.name} prime of exactly ${bits} bits`, () => {
+                let p = test.generate(bits);
+                expect(p.bitLength().toJSNumber()).to.equals(bits);
+                // The two most significant bits are set
+                expect(p.shiftRight(bits - 2).toJSNumber()).to.equals(3);
+                expect(BigMath.isProbablePrime(p)).to.be.true;
+                if (test.rest == 3) expect(p.mod(4).toJSNumber()).to.equals(3);
+                if (test.name == "safe") expect(BigMath.isProbablePrime(p.shiftRight(1))).to.be.true;
+            });
+        });
+    });
+
+    [false, true].forEach((safe) => {
+        it(`should generate ${safe ? "safe" : "Blum"} prime async`, async () => {
+            let tested = 0;
+            let p = await BigMath.generatePrimeAsync(128, safe, undefined, (t) => (tested = t));
+            expect(p.bitLength().toJSNumber()).to.equals(128);
+            expect(p.mod(4).toJSNumber()).to.equals(3);
+            expect(BigMath.isProbablePrime(p)).to.be.true;
+            if (safe) expect(BigMath.isProbablePrime(p.shiftRight(1))).to.be.true;
+            expect(tested).to.be.greaterThan(0);
+        });
+    });
+
+    [
+        { a: "1", n: "1", result: 1 },
+        { a: "2", n: "7", result: 1 },
+        { a: "3", n: "7", result: -1 },
+        { a: "6", n: "9", result: 0 },
+        { a: "1001", n: "9907", result: -1 },
+        { a: "19", n: "45", result: 1 },
+        { a: "-1", n: "11", result: -1 },
+    ].forEach((test) => {
+        it(`should calculate Jacobi symbol (${test.a}/${test.n})`, () => {
+            expect(BigMath.jacobi(bigInt(test.a), bigInt(test.n))).to.equals(test.result);
+        });
+    });
+
+    it(`should find small factors`, () => {
+        expect(BigMath.hasSmallFactor(bigInt(7919))).to.be.false;
+        expect(BigMath.hasSmallFactor(bigInt(7919).multiply(7907))).to.be.true;
+        expect(BigMath.hasSmallFactor(bigInt("170141183460469231731687303715884105727"))).to.be.false;
+        expect(() => BigMath.jacobi(bigInt(3), bigInt(8))).to.throw(RangeError);
+    });
+});
@@ -0,0 +1,109 @@
+import "mocha";
+import { expect } from "chai";
+import { default as bigInt } from "big-integer";
+
+import BlindSignature from "../src/BlindSignature";
+import EligibilityToken from "../src/EligibilityToken";
+import TokenLedger from "../src/TokenLedger";
+import RsaPublicKey from "../src/RsaPublicKey";
+import RsaPrivateKey from "../src/RsaPrivateKey";
+import BigMath from "../src/BigMath";
+import Bytes from "../src/Bytes";
+import Paillier from "../src/Paillier";
+
+describe("Testing BlindSignature", () => {
+    let [pub, priv]: [RsaPublicKey, RsaPrivateKey] = BlindSignature.generateKeyPair(512);
+    let context = "election-1";
+    let randomId = (): string => Bytes.toHex(BigMath.randomBytes(32));
+
+    let issue = (tokenId: string): EligibilityToken => {
+        let [blinded, r] = BlindSignature.blind(tokenId, pub, context);
+        let blindSignature = BlindSignature.sign(blinded, pub, priv);
+        return new EligibilityToken(tokenId, BlindSignature.unblind(blindSignature, r, tokenId, pub, context));
+    };
+
+    it(`should generate a key pair`, () => {
+        expect(pub.n.bitLength().toJSNumber()).to.equals(512);
+        expect(pub.e.toJSNumber()).to.equals(BlindSignature.E);
+        let m = bigInt(123456789);
+        expect(m.modPow(pub.e, pub.n).modPow(priv.d, pub.n).equals(m)).to.be.true;
+    });
+
+    it(`should issue a token the signer can't link to the request`, () => {
+        let tokenId = randomId();
+        let [blinded1] = BlindSignature.blind(tokenId, pub, context);
+        let [blinded2, r] = BlindSignature.blind(tokenId, pub, context);
+        expect(blinded1.equals(blinded2)).to.be.false;
+
+        let blindSignature = BlindSignature.sign(blinded2, pub, priv);
+        let signature = BlindSignature.unblind(blindSignature, r, tokenId, pub, context);
+        expect(signature.equals(blindSignature)).to.be.false;
+        expect(BlindSignature.verify(tokenId, signature, pub, context)).to.be.true;
+        expect(BlindSignature.verify(tokenId, signature, pub, "election-2")).to.be.false;
+        expect(BlindSignature.verify(randomId(), signature, pub, context)).to.be.false;
+    });
+
+    it(`should NOT unblind a wrong signature`, () => {
+        let tokenId = randomId();
+        let [blinded, r] = BlindSignature.blind(tokenId, pub, context);
+        let [other] = BlindSignature.blind(randomId(), pub, context);
+        expect(() => BlindSignature.unblind(BlindSignature.sign(other, pub, priv), r, tokenId, pub, context)).to.throw(
+            Error,
+        );
+        expect(() => BlindSignature.sign(pub.n, pub, priv)).to.throw(RangeError);
+        expect(() => BlindSignature.sign(blinded, pub, priv)).not.to.throw();
+    });
+
+    [
+        { name: "zero", signature: () => bigInt.zero },
+        { name: "n", signature: () => pub.n },
+        { name: "random", signature: () => bigInt(987654321) },
+    ].forEach((test) => {
+        it(`should NOT verify a forged signature: ${test.name}`, () => {
+            let token = new EligibilityToken(randomId(), test.signature());
+            expect(BlindSignature.verifyToken(token, pub, context)).to.be.false;
+        });
+    });
+
+    it(`should derive the token id from the ballot`, () => {
+        let [paillierPub] = Paillier.generateKeyPair(256);
+        let valid = [bigInt(0), bigInt(1)];
+        let [c, commitment] = Paillier.encryptWithZkp(bigInt(1), valid, paillierPub, context);
+        let tokenId = BlindSignature.ballotTokenId(c, commitment);
+        expect(tokenId).to.match(/^[0-9a-f]+$/);
+        expect(BlindSignature.ballotTokenId(c, commitment)).to.equals(tokenId);
+        expect(BlindSignature.ballotTokenId(c.plus(1), commitment)).not.to.equals(tokenId);
+        let [other, otherCommitment] = Paillier.encryptWithZkp(bigInt(1), valid, paillierPub, context);
+        expect(BlindSignature.ballotTokenId(c, otherCommitment)).not.to.equals(tokenId);
+        expect(BlindSignature.ballotTokenId(other, otherCommitment)).not.to.equals(tokenId);
+    });
+
+    it(`should spend a token only once`, () => {
+        let ledger = new TokenLedger(pub, context);
+        let token = issue(randomId());
+        expect(ledger.isValid(token)).to.be.true;
+        expect(ledger.spend(token)).to.be.true;
+        expect(ledger.isSpent(token.tokenId)).to.be.true;
+        expect(ledger.spend(token)).to.be.false;
+        expect(ledger.isValid(token)).to.be.false;
+
+        let forged = new EligibilityToken(randomId(), token.signature);
+        expect(ledger.spend(forged)).to.be.false;
+        expect(new TokenLedger(pub, "election-2").spend(issue(randomId()))).to.be.false;
+    });
+
+    it(`should save and restore the ledger and the token`, () => {
+        let ledger = new TokenLedger(pub, context);
+        let spent = issue(randomId());
+        ledger.spend(spent);
+
+        let restored = TokenLedger.from(JSON.parse(JSON.stringify(ledger)));
+        expect(restored.spend(spent)).to.be.false;
+        let token = EligibilityToken.from(JSON.parse(JSON.stringify(issue(randomId()))));
+        expect(restored.spend(token)).to.be.true;
+
+        expect(RsaPublicKey.from(JSON.parse(JSON.stringify(pub))).n.equals(pub.n)).to.be.true;
+        expect(RsaPrivateKey.from(JSON.parse(JSON.stringify(priv))).d.equals(priv.d)).to.be.true;
+        expect(() => RsaPublicKey.from({ n: "Ag==", e: "AQAB" })).to.throw(RangeError);
+    });
+});
@@ -0,0 +1,113 @@
+import "mocha";
+import { expect } from "chai";
+import { default as bigInt } from "big-integer";
+
+import BulletinBoard from "../src/BulletinBoard";
+import CastBallot from "../src/CastBallot";
+import SignedTreeHead from "../src/SignedTreeHead";
+import InclusionProof from "../src/InclusionProof";
+import ConsistencyProof from "../src/ConsistencyProof";
+import PublicKey from "../src/PublicKey";
+import PrivateKey from "../src/PrivateKey";
+import Paillier from "../src/Paillier";
+import VoteEncoder from "../src/VoteEncoder";
+
+describe("Testing BulletinBoard", () => {
+    let numBallots = 7;
+    let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+    let valid = VoteEncoder.getSingleChoicePermutations(3, 8);
+    let board = new BulletinBoard(pub, priv);
+    let ballots = new Array<CastBallot>();
+    // heads[size] is the tree head after size ballots
+    let heads = new Array<SignedTreeHead>();
+    heads.push(board.getTreeHead());
+    for (let i = 0; i < numBallots; i++) {
+        let [c, commitment] = Paillier.encryptWithZkp(valid[i % valid.length], valid, pub);
+        let ballot = new CastBallot(`voter-${i}`, c, commitment);
+        expect(board.append(ballot)).to.equals(i);
+        ballots.push(ballot);
+        heads.push(board.getTreeHead());
+    }
+
+    it(`should verify the signed tree heads`, () => {
+        for (let head of heads) {
+            expect(BulletinBoard.verifyTreeHead(head, pub)).to.be.true;
+        }
+        let forged = new SignedTreeHead(heads[3].treeSize, heads[4].rootHash, heads[3].signature);
+        expect(BulletinBoard.verifyTreeHead(forged, pub)).to.be.false;
+    });
+
+    it(`should verify inclusion of every ballot in every tree head`, () => {
+        for (let size = 1; size <= numBallots; size++) {
+            for (let index = 0; index < size; index++) {
+                let proof = board.getInclusionProof(index, size);
+                expect(BulletinBoard.verifyInclusion(ballots[index], proof, heads[size], pub)).to.be.true;
+            }
+        }
+    });
+
+    it(`should NOT verify inclusion of an altered or missing ballot`, () => {
+        let proof = board.getInclusionProof(2);
+        let head = heads[numBallots];
+        let altered = new CastBallot(ballots[2].ballotId, ballots[3].c, ballots[2].commitment);
+        expect(BulletinBoard.verifyInclusion(altered, proof, head, pub)).to.be.false;
+        let renamed = new CastBallot("voter-x", ballots[2].c, ballots[2].commitment);
+        expect(BulletinBoard.verifyInclusion(renamed, proof, head, pub)).to.be.false;
+        expect(BulletinBoard.verifyInclusion(ballots[3], proof, head, pub)).to.be.false;
+        expect(BulletinBoard.verifyInclusion(ballots[2], proof, heads[numBallots - 1], pub)).to.be.false;
+        let moved = new InclusionProof(3, proof.treeSize, proof.path);
+        expect(BulletinBoard.verifyInclusion(ballots[2], moved, head, pub)).to.be.false;
+    });
+
+    it(`should verify consistency between every pair of tree heads`, () => {
+        for (let to = 1; to <= numBallots; to++) {
+            for (let from = 1; from <= to; from++) {
+                let proof = board.getConsistencyProof(from, to);
+                expect(BulletinBoard.verifyConsistency(proof, heads[from], heads[to], pub)).to.be.true;
+            }
+        }
+    });
+
+    it(`should NOT verify consistency with a rewritten history`, () => {
+        // A board that altered the third ballot after publishing the tree head of 4 ballots
+        let other = new BulletinBoard(pub, priv);
+        ballots.forEach((ballot, i) => other.append(i == 2 ? ballots[3] : ballot));
+        let otherHead = other.getTreeHead();
+
+        let proof = other.getConsistencyProof(4);
+        expect(BulletinBoard.verifyConsistency(proof, heads[4], otherHead, pub)).to.be.false;
+        expect(BulletinBoard.verifyConsistency(board.getConsistencyProof(4), heads[4], otherHead, pub)).to.be.false;
+        expect(BulletinBoard.verifyConsistency(board.getConsistencyProof(3, 5), heads[3], heads[6], pub)).to.be.false;
+    });
+
+    it(`should restore proofs and tree heads from JSON`, () => {
+        let restore = (o: any) => JSON.parse(JSON.stringify(o));
+        let head = SignedTreeHead.from(restore(heads[5]));
+        let ballot = CastBallot.from(restore(ballots[4]));
+        let inclusion = InclusionProof.from(restore(board.getInclusionProof(4, 5)));
+        expect(BulletinBoard.verifyInclusion(ballot, inclusion, head, pub)).to.be.true;
+        let consistency = ConsistencyProof.from(restore(board.getConsistencyProof(5)));
+        let latest = SignedTreeHead.from(restore(heads[numBallots]));
+        expect(BulletinBoard.verifyConsistency(consistency, head, latest, pub)).to.be.true;
+    });
+
+    it(`should NOT restore malformed proofs and tree heads`, () => {
+        let head = JSON.parse(JSON.stringify(heads[5]));
+        let inclusion = JSON.parse(JSON.stringify(board.getInclusionProof(4, 5)));
+        let consistency = JSON.parse(JSON.stringify(board.getConsistencyProof(5)));
+        expect(() => SignedTreeHead.from({ ...head, treeSize: -1 })).to.throw(TypeError);
+        expect(() => SignedTreeHead.from({ ...head, rootHash: 5 })).to.throw(TypeError);
+        expect(() => SignedTreeHead.from({ ...head, type: "InclusionProof" })).to.throw(TypeError);
+        expect(() => InclusionProof.from({ ...inclusion, index: "4" })).to.throw(TypeError);
+        expect(() => InclusionProof.from({ ...inclusion, path: [1] })).to.throw(TypeError);
+        expect(() => ConsistencyProof.from({ ...consistency, toSize: 1.5 })).to.throw(TypeError);
+        expect(() => ConsistencyProof.from({ ...consistency, path: "abc" })).to.throw(TypeError);
+    });
+
+    it(`should NOT create proofs beyond the board`, () => {
+        expect(() => board.getInclusionProof(numBallots)).to.throw(RangeError);
+        expect(() => board.getInclusionProof(0, numBallots + 1)).to.throw(RangeError);
+        expect(() => board.getConsistencyProof(0)).to.throw(RangeError);
+        expect(() => board.getConsistencyProof(3, 2)).to.throw(RangeError);
+    });
+});
@@ -0,0 +1,161 @@
+import "mocha";
+import { assert, expect } from "chai";
+import { default as bigInt } from "big-integer";
+
+import ElectionParameters from "../src/ElectionParameters";
+import VoteEncoder from "../src/VoteEncoder";
+import PublicKey from "../src/PublicKey";
+import PrivateKey from "../src/PrivateKey";
+import Paillier from "../src/Paillier";
+
+describe("Testing ElectionParameters", () => {
+    [
+        { numChoices: 2, maxVotes: 1, numBins: 0, bitsPerChoice: 2, totalBits: 4 },
+        { numChoices: 3, maxVotes: 100, numBins: 0, bitsPerChoice: 8, totalBits: 24 },
+        { numChoices: 3, maxVotes: 127, numBins: 2, bitsPerChoice: 8, totalBits: 48 },
+        { numChoices: 3, maxVotes: 128, numBins: 2, bitsPerChoice: 9, totalBits: 54 },
+        { numChoices: 5, maxVotes: 1000000, numBins: 4, bitsPerChoice: 21, totalBits: 420 },
+    ].forEach((test) => {
+        it(`should size ${test.maxVotes} votes for ${test.numChoices} choices in ${test.numBins} bins`, () => {
+            let params = new ElectionParameters(test.numChoices, test.maxVotes, test.numBins);
+            expect(params.bitsPerChoice).to.equals(test.bitsPerChoice);
+            expect(params.getTotalVotesBits()).to.equals(test.totalBits);
+        });
+    });
+
+    [
+        { numChoices: 1, maxVotes: 10, numBins: 0 },
+        { numChoices: 3, maxVotes: 0, numBins: 0 },
+        { numChoices: 3, maxVotes: 10, numBins: -1 },
+        { numChoices: 3, maxVotes: Number.MAX_SAFE_INTEGER + 1, numBins: 0 },
+    ].forEach((test) => {
+        it(`should NOT create parameters for ${test.maxVotes} votes, ${test.numChoices} choices, ${test.numBins} bins`, () => {
+            expect(() => new ElectionParameters(test.numChoices, test.maxVotes, test.numBins)).to.throw(RangeError);
+        });
+    });
+
+    it(`should validate the parameters against the key size`, () => {
+        let [pub]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let small = new ElectionParameters(5, 1000, 4);
+        expect(small.fitsKey(pub)).to.be.true;
+        small.validateKey(pub);
+
+        let big = new ElectionParameters(5, 1000000, 4);
+        expect(big.fitsKey(pub)).to.be.false;
+        expect(() => big.validateKey(pub)).to.throw(RangeError);
+    });
+
+    it(`should restore parameters from JSON`, () => {
+        let params = new ElectionParameters(4, 500, 3);
+        let restored = ElectionParameters.from(JSON.parse(JSON.stringify(params)));
+        expect(restored).to.deep.equal(params);
+    });
+
+    [
+        { name: "a wrong type", change: { type: "Tally" }, error: TypeError },
+        { name: "a fractional number of choices", change: { numChoices: 2.5 }, error: TypeError },
+        { name: "a single choice", change: { numChoices: 1 }, error: RangeError },
+        { name: "no voters", change: { maxVotes: 0 }, error: RangeError },
+        { name: "negative votes", change: { maxVotes: -5 }, error: TypeError },
+        { name: "a number of bins as string", change: { numBins: "3" }, error: TypeError },
+        { name: "an unknown method", change: { method: "approval" }, error: RangeError },
+        { name: "no method", change: { method: undefined }, error: TypeError },
+    ].forEach((test) => {
+        it(`should NOT restore parameters with ${test.name}`, () => {
+            let o = { ...JSON.parse(JSON.stringify(new ElectionParameters(4, 500, 3))), ...test.change };
+            expect(() => ElectionParameters.from(o)).to.throw(test.error);
+        });
+    });
+
+    it(`should encrypt aggregation of votes sized by the parameters`, () => {
+        let params = new ElectionParameters(3, 20, 2);
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        params.validateKey(pub);
+
+        let realVotes = [new Array<number>(3).fill(0), new Array<number>(3).fill(0)];
+        let encryptedSum = Paillier.encrypt(bigInt.zero, pub);
+        for (let i = 0; i < params.maxVotes; i++) {
+            let bin = i % 2;
+            let vote = Math.floor(Math.random() * params.numChoices);
+            realVotes[bin][vote]++;
+            let encryptedVote = Paillier.encrypt(VoteEncoder.encodeSingle(vote, params, bin), pub);
+            encryptedSum = Paillier.addEncrypted(encryptedSum, encryptedVote, pub);
+        }
+
+        let decodedSum = VoteEncoder.decodeGroups(Paillier.decrypt(encryptedSum, pub, priv), params);
+        assert.deepEqual(decodedSum, realVotes);
+    });
+
+    it(`should encode multiple and weighted votes with the parameters`, () => {
+        let params = new ElectionParameters(3, 300);
+        let sum = VoteEncoder.еncodeMultiple([0, 2], params).plus(VoteEncoder.encodeWeighted(2, bigInt(250), params));
+        assert.deepEqual(VoteEncoder.decode(sum, params), [1, 0, 251]);
+        expect(() => VoteEncoder.encodeWeighted(1, bigInt(301), params)).to.throw(RangeError);
+    });
+
+    it(`should NOT decode a tally that overflows`, () => {
+        let params = new ElectionParameters(3, 5);
+        let sum = bigInt.zero;
+        for (let i = 0; i < 5; i++) sum = sum.plus(VoteEncoder.encodeSingle(1, params));
+        assert.deepEqual(VoteEncoder.decode(sum, params), [0, 5, 0]);
+
+        // Above the maximum votes
+        sum = sum.plus(VoteEncoder.encodeSingle(1, params));
+        expect(() => VoteEncoder.decode(sum, params)).to.throw(RangeError);
+        // Into the guard bit
+        sum = sum.plus(VoteEncoder.encodeSingle(1, params).multiply(2));
+        expect(() => VoteEncoder.decode(sum, params)).to.throw(RangeError);
+        // Beyond the last choice
+        let last = VoteEncoder.encodeSingle(2, params).multiply(16);
+        expect(() => VoteEncoder.decode(last, params)).to.throw(RangeError);
+    });
+
+    it(`should size Borda count for (numChoices - 1) * voters points`, () => {
+        let params = ElectionParameters.borda(4, 100);
+        expect(params.maxVotes).to.equals(300);
+        expect(params.bitsPerChoice).to.equals(VoteEncoder.getBordaBitsPerChoice(4, 100));
+        expect(params.getTotalVotesBits()).to.equals(4 * params.bitsPerChoice);
+        expect(ElectionParameters.from(JSON.parse(JSON.stringify(params)))).to.deep.equal(params);
+
+        let sum = bigInt.zero;
+        for (let i = 0; i < 100; i++) sum = sum.plus(VoteEncoder.encodeBorda([2, 0, 1, 3], params));
+        assert.deepEqual(VoteEncoder.decodeBorda(sum, params), [200, 100, 300, 0]);
+        // One more voter than planned
+        sum = sum.plus(VoteEncoder.encodeBorda([2, 0, 1, 3], params));
+        expect(() => VoteEncoder.decodeBorda(sum, params)).to.throw(RangeError);
+    });
+
+    it(`should size Condorcet with a slot for every pair of choices`, () => {
+        let params = ElectionParameters.condorcet(3, 10);
+        expect(params.getTotalVotesBits()).to.equals(
+            VoteEncoder.getCondorcetTotalVotesBits(3, 0, params.bitsPerChoice),
+        );
+
+        let sum = bigInt.zero;
+        for (let i = 0; i < 10; i++) sum = sum.plus(VoteEncoder.encodeCondorcet([2, 0, 1], params));
+        assert.deepEqual(VoteEncoder.decodeCondorcet(sum, params), [
+            [0, 10, 0],
+            [0, 0, 0],
+            [10, 10, 0],
+        ]);
+        sum = sum.plus(VoteEncoder.encodeCondorcet([2, 0, 1], params));
+        expect(() => VoteEncoder.decodeCondorcet(sum, params)).to.throw(RangeError);
+        expect(() => VoteEncoder.decode(sum, params)).to.throw(RangeError);
+    });
+
+    it(`should NOT encode or decode ranked votes with parameters of another method`, () => {
+        let single = new ElectionParameters(3, 10);
+        expect(() => VoteEncoder.encodeBorda([2, 0, 1], single)).to.throw(RangeError);
+        expect(() => VoteEncoder.decodeBorda(bigInt.zero, single)).to.throw(RangeError);
+        expect(() => VoteEncoder.encodeCondorcet([2, 0, 1], ElectionParameters.borda(3, 10))).to.throw(RangeError);
+        expect(() => VoteEncoder.decodeCondorcet(bigInt.zero, single)).to.throw(RangeError);
+        expect(() => new ElectionParameters(3, 10, 0, "approval" as any)).to.throw(RangeError);
+    });
+
+    it(`should NOT decode grouped votes without groups`, () => {
+        let params = new ElectionParameters(3, 10, 2);
+        let encoded = VoteEncoder.encodeSingle(1, params, 1);
+        expect(() => VoteEncoder.decode(encoded, params)).to.throw(RangeError);
+        expect(VoteEncoder.decodeGroups(encoded, params)[1][1]).to.equals(1);
+    });
+});
@@ -0,0 +1,123 @@
+import "mocha";
+import { assert, expect } from "chai";
+import { default as bigInt } from "big-integer";
+
+import KeyFile from "../src/KeyFile";
+import WireFormat from "../src/WireFormat";
+import Bytes from "../src/Bytes";
+import PublicKey from "../src/PublicKey";
+import PrivateKey from "../src/PrivateKey";
+import Paillier from "../src/Paillier";
+
+describe("Testing KeyFile", () => {
+    let cost = 1 << 10;
+    let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+
+    it(`should restore private key from JSON`, () => {
+        let restored = PrivateKey.from(JSON.parse(JSON.stringify(priv)));
+        assert(restored.lambda.equals(priv.lambda));
+        assert(restored.mu.equals(priv.mu));
+    });
+
+    it(`should export and import private key with password`, () => {
+        let file = KeyFile.encrypt(pub, priv, "correct horse battery staple", undefined, cost);
+        let json = JSON.stringify(file);
+        expect(json).to.not.contain(WireFormat.encodeBigInt(priv.lambda));
+
+        let restored = KeyFile.from(JSON.parse(json));
+        expect(restored.version).to.equals(KeyFile.VERSION);
+        expect(restored.keyId).to.equals(KeyFile.keyIdOf(pub));
+        assert(restored.pub.n.equals(pub.n));
+        let restoredPriv = restored.decrypt("correct horse battery staple");
+        let m = bigInt(123456789);
+        assert(Paillier.decrypt(Paillier.encrypt(m, restored.pub), restored.pub, restoredPriv).equals(m));
+    });
+
+    it(`should keep a custom key id`, () => {
+        let file = KeyFile.encrypt(pub, priv, "password", "organizer-2024", cost);
+        expect(KeyFile.from(JSON.parse(JSON.stringify(file))).keyId).to.equals("organizer-2024");
+    });
+
+    it(`should NOT import private key with wrong password`, () => {
+        let file = KeyFile.encrypt(pub, priv, "password", undefined, cost);
+        expect(() => file.decrypt("passw0rd")).to.throw(Error, "Wrong password");
+    });
+
+    [
+        { field: "ciphertext", tamper: (o: any) => (o.ciphertext = flip(o.ciphertext)) },
+        { field: "tag", tamper: (o: any) => (o.tag = flip(o.tag)) },
+        { field: "iv", tamper: (o: any) => (o.iv = flip(o.iv)) },
+        { field: "keyId", tamper: (o: any) => (o.keyId = "other") },
+        { field: "public key", tamper: (o: any) => (o.pub.g = o.pub.n) },
+    ].forEach((test) => {
+        it(`should NOT import private key with tampered ${test.field}`, () => {
+            let o = JSON.parse(JSON.stringify(KeyFile.encrypt(pub, priv, "password", undefined, cost)));
+            test.tamper(o);
+            expect(() => KeyFile.from(o).decrypt("password")).to.throw(Error, "Key file is corrupted or tampered");
+        });
+    });
+
+    [
+        { name: "a short salt", tamper: (o: any) => (o.salt = Bytes.toBase64(new Uint8Array(8))), error: RangeError },
+        { name: "a long nonce", tamper: (o: any) => (o.iv = Bytes.toBase64(new Uint8Array(16))), error: RangeError },
+        { name: "a truncated tag", tamper: (o: any) => (o.tag = o.tag.slice(0, 8)), error: RangeError },
+        { name: "a key check as number", tamper: (o: any) => (o.keyCheck = 5), error: TypeError },
+        { name: "an empty ciphertext", tamper: (o: any) => (o.ciphertext = ""), error: TypeError },
+        {
+            name: "a ciphertext not in base64",
+            tamper: (o: any) => (o.ciphertext = "*" + o.ciphertext),
+            error: TypeError,
+        },
+        { name: "a key id as number", tamper: (o: any) => (o.keyId = 1), error: TypeError },
+    ].forEach((test) => {
+        it(`should NOT import key file with ${test.name}`, () => {
+            let o = JSON.parse(JSON.stringify(KeyFile.encrypt(pub, priv, "password", undefined, cost)));
+            test.tamper(o);
+            expect(() => KeyFile.from(o)).to.throw(test.error);
+        });
+    });
+
+    [
+        { name: "cost above the limit", tamper: (o: any) => (o.cost = 1 << 30) },
+        { name: "cost not a power of 2", tamper: (o: any) => (o.cost = 1000) },
+        { name: "huge block size", tamper: (o: any) => (o.blockSize = 1 << 20) },
+        { name: "fractional block size", tamper: (o: any) => (o.blockSize = 8.5) },
+        { name: "huge parallelization", tamper: (o: any) => (o.parallelization = 1 << 20) },
+        {
+            name: "too much work in total",
+            tamper: (o: any) => {
+                o.cost = KeyFile.MAX_COST;
+                o.blockSize = KeyFile.MAX_BLOCK_SIZE;
+            },
+        },
+    ].forEach((test) => {
+        it(`should NOT derive keys with crafted scrypt parameters: ${test.name}`, () => {
+            let o = JSON.parse(JSON.stringify(KeyFile.encrypt(pub, priv, "password", undefined, cost)));
+            test.tamper(o);
+            expect(() => KeyFile.from(o).decrypt("password")).to.throw(RangeError);
+        });
+    });
+
+    it(`should NOT export a private key of another public key`, () => {
+        let [, otherPriv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        expect(() => KeyFile.encrypt(pub, otherPriv, "password", undefined, cost)).to.throw(
+            Error,
+            "Private key doesn't match the public key",
+        );
+    });
+
+    it(`should NOT import key file with unsupported version`, () => {
+        let o = JSON.parse(JSON.stringify(KeyFile.encrypt(pub, priv, "password", undefined, cost)));
+        o.version = 2;
+        expect(() => KeyFile.from(o).decrypt("password")).to.throw(Error, "Unsupported key file version");
+    });
+});
+
+/**
+ * Flips a bit in a base64 encoded buffer
+ */
+function flip(b64: string): string {
+    let buf = Bytes.fromBase64(b64);
+    buf[0] ^= 1;
+    return Bytes.toBase64(buf);
+}
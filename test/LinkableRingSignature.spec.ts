@@ -0,0 +1,80 @@
+import "mocha";
+import { expect } from "chai";
+import { BigInteger, default as bigInt } from "big-integer";
+
+import LinkableRingSignature from "../src/LinkableRingSignature";
+import RingSignature from "../src/RingSignature";
+
+describe("Testing LinkableRingSignature", () => {
+    let keys: [BigInteger, BigInteger][] = [0, 1, 2].map(() => LinkableRingSignature.generateKeyPair());
+    let ring = keys.map(([pub]) => pub);
+    let context = "election-1";
+
+    it(`should generate a key pair`, () => {
+        let [pub, priv] = keys[0];
+        let p = LinkableRingSignature.P;
+        expect(pub.equals(LinkableRingSignature.G.modPow(priv, p))).to.be.true;
+        expect(pub.modPow(LinkableRingSignature.Q, p).equals(bigInt.one)).to.be.true;
+    });
+
+    keys.forEach(([, priv], index) => {
+        it(`should sign and verify as member ${index} of the ring`, () => {
+            let signature = LinkableRingSignature.sign("ballot", ring, priv, context);
+            expect(signature.s.length).to.equals(ring.length);
+            expect(LinkableRingSignature.verify("ballot", ring, signature, context)).to.be.true;
+            expect(LinkableRingSignature.verify("other ballot", ring, signature, context)).to.be.false;
+            expect(LinkableRingSignature.verify("ballot", ring, signature, "election-2")).to.be.false;
+            expect(LinkableRingSignature.verify("ballot", ring.slice().reverse(), signature, context)).to.be.false;
+        });
+    });
+
+    it(`should link the signatures of the same signer only`, () => {
+        let a = LinkableRingSignature.sign("ballot 1", ring, keys[0][1], context);
+        let b = LinkableRingSignature.sign("ballot 2", ring, keys[0][1], context);
+        let c = LinkableRingSignature.sign("ballot 1", ring, keys[1][1], context);
+        let d = LinkableRingSignature.sign("ballot 1", ring, keys[0][1], "election-2");
+        expect(LinkableRingSignature.isLinked(a, b)).to.be.true;
+        expect(LinkableRingSignature.isLinked(a, c)).to.be.false;
+        expect(LinkableRingSignature.isLinked(a, d)).to.be.false;
+        expect(a.c.equals(b.c)).to.be.false;
+    });
+
+    it(`should NOT sign outside of the ring`, () => {
+        let [, outsider] = LinkableRingSignature.generateKeyPair();
+        expect(() => LinkableRingSignature.sign("ballot", ring, outsider, context)).to.throw(Error);
+        expect(() => LinkableRingSignature.sign("ballot", ring.concat(bigInt.one), keys[0][1], context)).to.throw(
+            RangeError,
+        );
+    });
+
+    [
+        {
+            name: "changed tag",
+            forge: (s: RingSignature) => new RingSignature(s.c, s.s, s.tag.square().mod(LinkableRingSignature.P)),
+        },
+        { name: "tag out of the group", forge: (s: RingSignature) => new RingSignature(s.c, s.s, bigInt.one) },
+        {
+            name: "changed response",
+            forge: (s: RingSignature) => new RingSignature(s.c, [s.s[0].plus(1)].concat(s.s.slice(1)), s.tag),
+        },
+        { name: "missing response", forge: (s: RingSignature) => new RingSignature(s.c, s.s.slice(1), s.tag) },
+        {
+            name: "response out of range",
+            forge: (s: RingSignature) =>
+                new RingSignature(s.c, [s.s[0].plus(LinkableRingSignature.Q)].concat(s.s.slice(1)), s.tag),
+        },
+    ].forEach((test) => {
+        it(`should NOT verify a forged signature: ${test.name}`, () => {
+            let signature = LinkableRingSignature.sign("ballot", ring, keys[1][1], context);
+            expect(LinkableRingSignature.verify("ballot", ring, test.forge(signature), context)).to.be.false;
+        });
+    });
+
+    it(`should serialize the signature`, () => {
+        let signature = LinkableRingSignature.sign("ballot", ring, keys[2][1], context);
+        let restored = RingSignature.from(JSON.parse(JSON.stringify(signature)));
+        expect(LinkableRingSignature.verify("ballot", ring, restored, context)).to.be.true;
+        expect(restored.isLinked(signature)).to.be.true;
+        expect(() => RingSignature.from({})).to.throw(TypeError);
+    });
+});
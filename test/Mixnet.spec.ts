@@ -0,0 +1,85 @@
+import "mocha";
+import { expect } from "chai";
+import { BigInteger, default as bigInt } from "big-integer";
+
+import Mixnet from "../src/Mixnet";
+import MixChain from "../src/MixChain";
+import MixStep from "../src/MixStep";
+import ShuffleProof from "../src/ShuffleProof";
+import Paillier from "../src/Paillier";
+import PublicKey from "../src/PublicKey";
+import PrivateKey from "../src/PrivateKey";
+
+describe("Testing Mixnet", () => {
+    let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+    let messages = [3, 1, 4, 1, 5, 9, 2, 6].map((m) => bigInt(m));
+    let input = messages.map((m) => Paillier.encrypt(m, pub));
+    let decryptSorted = (list: BigInteger[]) =>
+        list.map((c) => Paillier.decrypt(c, pub, priv).toJSNumber()).sort((a, b) => a - b);
+
+    [1, 2, 8].forEach((size) => {
+        it(`should shuffle ${size} ciphertexts with a valid proof`, () => {
+            let list = input.slice(0, size);
+            let [output, proof]: [BigInteger[], ShuffleProof] = Mixnet.shuffle(list, pub, "mix", 40);
+            expect(output.length).to.equals(size);
+            expect(output.some((c) => list.some((d) => d.equals(c)))).to.be.false;
+            expect(decryptSorted(output)).to.deep.equal(decryptSorted(list));
+            expect(Mixnet.verifyShuffle(list, output, proof, pub, "mix", 40)).to.be.true;
+
+            let restored = ShuffleProof.from(JSON.parse(JSON.stringify(proof)));
+            expect(Mixnet.verifyShuffle(list, output, restored, pub, "mix", 40)).to.be.true;
+        });
+    });
+
+    it(`should NOT verify a shuffle that replaces a ciphertext`, () => {
+        let [output, proof]: [BigInteger[], ShuffleProof] = Mixnet.shuffle(input, pub, "mix", 40);
+        let forged = output.slice();
+        forged[0] = Paillier.encrypt(bigInt(7), pub);
+        expect(Mixnet.verifyShuffle(input, forged, proof, pub, "mix", 40)).to.be.false;
+        expect(Mixnet.verifyShuffle(input, output.slice(1), proof, pub, "mix", 40)).to.be.false;
+        expect(Mixnet.verifyShuffle(input, output, proof, pub, "other", 40)).to.be.false;
+        // Not enough rounds
+        expect(Mixnet.verifyShuffle(input, output, proof, pub, "mix")).to.be.false;
+
+        let tampered = ShuffleProof.from(JSON.parse(JSON.stringify(proof)));
+        tampered.permutations[0] = tampered.permutations[0].map(() => 0);
+        expect(Mixnet.verifyShuffle(input, output, tampered, pub, "mix", 40)).to.be.false;
+    });
+
+    it(`should NOT verify a shuffle of other ciphertexts with a proof for the input`, () => {
+        // The cheater replaces a vote and shows the proof of an honest shuffle
+        let cheat = input.slice();
+        cheat[0] = Paillier.encrypt(bigInt(7), pub);
+        let [output]: [BigInteger[], ShuffleProof] = Mixnet.shuffle(cheat, pub, "mix", 1);
+        let [, proof]: [BigInteger[], ShuffleProof] = Mixnet.shuffle(input, pub, "mix", 40);
+        expect(Mixnet.verifyShuffle(input, output, proof, pub, "mix", 40)).to.be.false;
+    });
+
+    it(`should mix through a chain of servers`, () => {
+        let chain = new MixChain(pub, input, "election-1");
+        chain.mix("server-1", 20);
+
+        // The second server receives the chain and sends back its step
+        let received = MixChain.from(JSON.parse(JSON.stringify(chain)));
+        expect(received.verify(20)).to.be.true;
+        let step = received.mix("server-2", 20);
+        chain.append(MixStep.from(JSON.parse(JSON.stringify(step))), 20);
+
+        expect(chain.steps.length).to.equals(2);
+        expect(chain.verify(20)).to.be.true;
+        expect(chain.verify()).to.be.false;
+        expect(decryptSorted(chain.getOutput())).to.deep.equal(decryptSorted(input));
+    });
+
+    it(`should NOT accept a step out of place in the chain`, () => {
+        let chain = new MixChain(pub, input, "election-1");
+        let other = new MixChain(pub, input, "election-2");
+        let step = other.mix("server-1", 20);
+        expect(() => chain.append(step, 20)).to.throw(Error);
+
+        chain.mix("server-1", 20);
+        let renamed = new MixStep("server-2", chain.steps[0].output, chain.steps[0].proof);
+        let copy = new MixChain(pub, input, "election-1", [renamed]);
+        expect(copy.verify(20)).to.be.false;
+    });
+});
@@ -6,6 +6,15 @@ import PublicKey from "../src/PublicKey";
 import PrivateKey from "../src/PrivateKey";
 import Paillier from "../src/Paillier";
 import ZkpCommitment from "../src/ZkpCommitment";
+import ResidueProof from "../src/ResidueProof";
+import RangeProof from "../src/RangeProof";
+import MultiChoiceBallot from "../src/MultiChoiceBallot";
+import RankedBallot from "../src/RankedBallot";
+import WeightCertificate from "../src/WeightCertificate";
+import BigMath from "../src/BigMath";
+import VoteEncoder from "../src/VoteEncoder";
+import ModulusProof from "../src/ModulusProof";
+import { KeyGenerationProgress } from "../src/KeyGenerationOptions";
 
 describe("Testing Paillier cryptosystem", () => {
     it("should generate correct key pairs", () => {
@@ -17,6 +26,39 @@ describe("Testing Paillier cryptosystem", () => {
         }
     });
 
+    it("should generate a key pair async with progress", async () => {
+        let progress: KeyGenerationProgress[] = [];
+        let [pub, priv]: [PublicKey, PrivateKey] = await Paillier.generateKeyPairAsync(256, {
+            onProgress: (p) => progress.push(p),
+        });
+        expect(pub.n.bitLength().toJSNumber()).to.equals(256);
+        expect(priv.p!.mod(4).toJSNumber()).to.equals(3);
+        expect(Paillier.decrypt(Paillier.encrypt(bigInt(42), pub), pub, priv).toJSNumber()).to.equals(42);
+        expect(progress.map((p) => p.candidates)).to.deep.equal(progress.map((p, i) => i + 1));
+        expect(progress[0].phase).to.equals("p");
+        expect(progress[progress.length - 1].phase).to.equals("q");
+    });
+
+    it("should abort the async key generation", async () => {
+        let controller = new AbortController();
+        let candidates = 0;
+        let error: any;
+        await Paillier.generateKeyPairAsync(1024, {
+            safe: true,
+            signal: controller.signal,
+            onProgress: (p) => {
+                candidates = p.candidates;
+                if (candidates == 3) controller.abort();
+            },
+        }).catch((e) => (error = e));
+        expect(error).to.equals(controller.signal.reason);
+        expect(candidates).to.equals(3);
+
+        error = undefined;
+        await Paillier.generateKeyPairAsync(100).catch((e) => (error = e));
+        expect(error).to.be.instanceOf(RangeError);
+    });
+
     [
         { keySize: 256, input: "0" },
         { keySize: 160, input: "1" },
@@ -116,6 +158,48 @@ describe("Testing Paillier cryptosystem", () => {
         });
     });
 
+    it(`should create ZKP bound to a context and NOT verify it in a different context`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let valid = [bigInt(1), bigInt(2), bigInt(3)];
+        let context = "election-1/voter-7";
+        let [c, commitment]: [BigInteger, ZkpCommitment] = Paillier.encryptWithZkp(bigInt(2), valid, pub, context);
+        expect(commitment.isLegacy()).to.be.false;
+        expect(Paillier.verifyZkp(c, valid, commitment, pub, context)).to.be.true;
+        expect(Paillier.verifyZkp(c, valid, commitment, pub)).to.be.false;
+        expect(Paillier.verifyZkp(c, valid, commitment, pub, "election-2/voter-7")).to.be.false;
+        expect(Paillier.verifyZkp(c, [bigInt(3), bigInt(2), bigInt(1)], commitment, pub, context)).to.be.false;
+        expect(Paillier.verifyLegacyZkp(c, valid, commitment, pub)).to.be.false;
+    });
+
+    it(`should NOT verify ZKP replayed with a re-randomized ciphertext`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let valid = [bigInt(1), bigInt(2), bigInt(3)];
+        let [c, commitment]: [BigInteger, ZkpCommitment] = Paillier.encryptWithZkp(bigInt(2), valid, pub);
+        let replayed = Paillier.addEncrypted(c, Paillier.encrypt(bigInt.zero, pub), pub);
+        expect(Paillier.verifyZkp(replayed, valid, commitment, pub)).to.be.false;
+    });
+
+    it(`should detect and verify legacy ZKP`, () => {
+        // Created with the original version of createZkp
+        let legacy = JSON.parse(
+            '{"pub":{"n":"uekiBWXgeVPgXP5N/vt2gtTy3MS1O+1eRZYFLpjdzNQA","g":"uukiBWXgeVPgXP5N/vt2gtTy3MS1O+1eRZYFLpjdzNQA"},' +
+                '"c":"oCD9iQ73NYqr2uYw07gVzUgVTn38JjpWty7jD7M1zrbUuWC7ymih7l59c6jWNdSkeZKupDq2haGdE/wnh9+dNg==",' +
+                '"commitment":{"a":["u+ll3Z9HlqFzn26GdioU9/7EQIRq/nyUzsltSMWJBW0B4b0klOaP/b6U1tTgcLvscm9PUkGxJfvbVjIwuWXQEQ==",' +
+                '"8jYNo3lmS3R6yY9ZZSGoD6BwI9fiBeq1q25YCc+3x+8giz1OPsLan7awrPVIbbdM23qW93/Ux8e7ca6TRPgbPg==",' +
+                '"0ckJchpOcCaILQni23GyE7W5UPPtGsGOL7/V8mHVTcYiRrBqokBhi29ZY6nGuMRpIoNiEBotIveiI3d3Hy+cZQ=="],' +
+                '"e":["rGjcSp+dG6l0FJiM74KCAA==","qcEXRr2tQ+XVHKC8GAivZZc2cC9/lQy+XR2xuMg+KbsA","3SRhUOERfAUS4o+BSpYM"],' +
+                '"z":["k1PgeincxVgVjDBftNbhprFd9zrY0ObTNVlb7mg7ygA=","5NuURXDMeDoaoaPHzP6dKin+F/Dmy8kWn9fF9Fiat20=",' +
+                '"BKEQQsn0Tf5mxbeVCmcXiFE8A9JV5sczTwkbTy3fYQ=="]}}',
+        );
+        let pub = PublicKey.from(legacy.pub);
+        let c = BigMath.base64ToBigInt(legacy.c);
+        let commitment = ZkpCommitment.from(legacy.commitment);
+        let valid = [bigInt(1), bigInt(256), bigInt(65536)];
+        expect(commitment.isLegacy()).to.be.true;
+        expect(Paillier.verifyZkp(c, valid, commitment, pub)).to.be.false;
+        expect(Paillier.verifyLegacyZkp(c, valid, commitment, pub)).to.be.true;
+    });
+
     it(`should NOT create ZKP when input is not in the valid set`, () => {
         let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
         let input = bigInt(4);
@@ -126,6 +210,109 @@ describe("Testing Paillier cryptosystem", () => {
         assert.throws(shouldThrow, Error);
     });
 
+    [
+        { keySize: 256, input: bigInt(0), numBits: 1 },
+        { keySize: 256, input: bigInt(1), numBits: 1 },
+        { keySize: 256, input: bigInt(100), numBits: 7 },
+        { keySize: 256, input: bigInt(2).pow(16).minus(1), numBits: 16 },
+    ].forEach((test) => {
+        it(`should create range proof and verify it: ${test.input} < 2^${test.numBits}`, () => {
+            let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(test.keySize);
+            let [c, proof]: [BigInteger, RangeProof] = Paillier.encryptWithRangeProof(test.input, test.numBits, pub);
+            let restored = RangeProof.from(JSON.parse(JSON.stringify(proof)));
+            expect(Paillier.verifyRangeProof(c, test.numBits, restored, pub)).to.be.true;
+            expect(Paillier.decrypt(c, pub, priv).equals(test.input)).to.be.true;
+        });
+    });
+
+    it(`should create range proof from the multiplier r`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let [c, r]: [BigInteger, BigInteger] = Paillier.encryptWithNonce(bigInt(42), pub);
+        let proof = Paillier.createRangeProof(bigInt(42), c, r, 8, pub, "survey-3");
+        expect(Paillier.verifyRangeProof(c, 8, proof, pub, "survey-3")).to.be.true;
+    });
+
+    it(`should NOT verify range proof with another ciphertext, range or context`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let [c, proof]: [BigInteger, RangeProof] = Paillier.encryptWithRangeProof(bigInt(5), 4, pub, "election-1");
+        expect(Paillier.verifyRangeProof(c, 4, proof, pub, "election-1")).to.be.true;
+        expect(Paillier.verifyRangeProof(c, 4, proof, pub, "election-2")).to.be.false;
+        expect(Paillier.verifyRangeProof(c, 3, proof, pub, "election-1")).to.be.false;
+        let cheatC = Paillier.encrypt(bigInt(5 + 16), pub);
+        expect(Paillier.verifyRangeProof(cheatC, 4, proof, pub, "election-1")).to.be.false;
+    });
+
+    it(`should NOT create range proof when input is out of range`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        expect(() => Paillier.encryptWithRangeProof(bigInt(16), 4, pub)).to.throw(RangeError);
+        expect(() => Paillier.encryptWithRangeProof(bigInt(1), 256, pub)).to.throw(RangeError);
+    });
+
+    [
+        { choices: [], numChoices: 3, min: 0, max: 3 },
+        { choices: [1], numChoices: 3, min: 1, max: 1 },
+        { choices: [0, 2, 4], numChoices: 5, min: 1, max: 3 },
+        { choices: [0, 1, 2, 3], numChoices: 4, min: 4, max: 4 },
+    ].forEach((test) => {
+        it(`should create multiple choice ballot and verify it: [${test.choices}]`, () => {
+            let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+            let ballot = Paillier.encryptMultiChoice(test.choices, test.numChoices, test.min, test.max, pub, "e1");
+            let restored = MultiChoiceBallot.from(JSON.parse(JSON.stringify(ballot)));
+            expect(Paillier.verifyMultiChoice(restored, test.numChoices, test.min, test.max, pub, "e1")).to.be.true;
+            expect(Paillier.verifyMultiChoice(restored, test.numChoices, test.min, test.max, pub, "e2")).to.be.false;
+        });
+    });
+
+    it(`should NOT verify multiple choice ballot with too many selections or invalid slots`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let ballot = Paillier.encryptMultiChoice([0, 1, 2], 4, 0, 3, pub);
+        expect(Paillier.verifyMultiChoice(ballot, 4, 0, 3, pub)).to.be.true;
+        expect(Paillier.verifyMultiChoice(ballot, 4, 0, 2, pub)).to.be.false;
+        expect(Paillier.verifyMultiChoice(ballot, 5, 0, 3, pub)).to.be.false;
+
+        // Replace a slot with an encryption of 2
+        let cheat = new MultiChoiceBallot(ballot.slots.slice(), ballot.slotProofs, ballot.countProof);
+        cheat.slots[3] = Paillier.encrypt(bigInt(2), pub);
+        expect(Paillier.verifyMultiChoice(cheat, 4, 0, 3, pub)).to.be.false;
+    });
+
+    it(`should NOT create multiple choice ballot with invalid selections`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        expect(() => Paillier.encryptMultiChoice([0, 1, 2], 4, 0, 2, pub)).to.throw(RangeError);
+        expect(() => Paillier.encryptMultiChoice([0, 0], 4, 0, 2, pub)).to.throw(RangeError);
+        expect(() => Paillier.encryptMultiChoice([4], 4, 0, 2, pub)).to.throw(RangeError);
+        expect(() => Paillier.encryptMultiChoice([0], 4, 2, 1, pub)).to.throw(RangeError);
+    });
+
+    it(`should create ranked ballot and verify it`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let ballot = Paillier.encryptRanking([2, 0, 1], 3, pub, "e1", true);
+        let restored = RankedBallot.from(JSON.parse(JSON.stringify(ballot)));
+        expect(Paillier.verifyRanking(restored, 3, pub, "e1", true)).to.be.true;
+        expect(Paillier.verifyRanking(restored, 3, pub, "e2", true)).to.be.false;
+
+        let withoutPairwise = Paillier.encryptRanking([2, 0, 1], 3, pub, "e1");
+        expect(Paillier.verifyRanking(withoutPairwise, 3, pub, "e1")).to.be.true;
+        expect(Paillier.verifyRanking(withoutPairwise, 3, pub, "e1", true)).to.be.false;
+    });
+
+    it(`should NOT verify ranked ballot with tampered placements or preferences`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let ballot = Paillier.encryptRanking([0, 1, 2], 3, pub, "", true);
+
+        // Give the first position to two choices
+        let cheat = RankedBallot.from(JSON.parse(JSON.stringify(ballot)));
+        [cheat.placements[1], cheat.placements[3]] = [cheat.placements[3], cheat.placements[1]];
+        [cheat.placementProofs[1], cheat.placementProofs[3]] = [cheat.placementProofs[3], cheat.placementProofs[1]];
+        expect(Paillier.verifyRanking(cheat, 3, pub)).to.be.false;
+
+        // Prefer the choice 2 over the choice 0 without changing the ranking
+        cheat = RankedBallot.from(JSON.parse(JSON.stringify(ballot)));
+        [cheat.preferences[1], cheat.preferences[4]] = [cheat.preferences[4], cheat.preferences[1]];
+        [cheat.preferenceProofs[1], cheat.preferenceProofs[4]] = [cheat.preferenceProofs[4], cheat.preferenceProofs[1]];
+        expect(Paillier.verifyRanking(cheat, 3, pub, "", true)).to.be.false;
+    });
+
     [
         { keySize: 256, input: "0" },
         { keySize: 160, input: "1" },
@@ -141,4 +328,239 @@ describe("Testing Paillier cryptosystem", () => {
             expect(v).to.be.true;
         });
     });
+
+    [
+        { keySize: 256, input: "0" },
+        { keySize: 160, input: "1" },
+        { keySize: 256, input: "95477148500050043847142" },
+        { keySize: 512, input: "93875198749187950505012983050847247412455461" },
+    ].forEach((test) => {
+        it(`should create and verify proof of correct decryption: ${test.input}`, () => {
+            let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(test.keySize);
+            let c = Paillier.encrypt(bigInt(test.input), pub);
+            let [m, proof]: [BigInteger, ResidueProof] = Paillier.decryptWithProof(c, pub, priv);
+            expect(m.equals(bigInt(test.input))).to.be.true;
+            let restored = ResidueProof.from(JSON.parse(JSON.stringify(proof)));
+            expect(Paillier.verifyDecryptionProof(c, m, restored, pub)).to.be.true;
+        });
+    });
+
+    it(`should NOT verify proof of decryption with a different message or ciphertext`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let c = Paillier.encrypt(bigInt(42), pub);
+        let [m, proof]: [BigInteger, ResidueProof] = Paillier.decryptWithProof(c, pub, priv);
+        expect(Paillier.verifyDecryptionProof(c, m.plus(1), proof, pub)).to.be.false;
+        let otherC = Paillier.encrypt(bigInt(42), pub);
+        expect(Paillier.verifyDecryptionProof(otherC, m, proof, pub)).to.be.false;
+        expect(() => Paillier.createDecryptionProof(c, m.plus(1), pub, priv)).to.throw(Error);
+    });
+
+    it(`should certify weight and NOT verify weighted vote with a forged weight`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let cert = Paillier.createWeightCertificate("voter-1", bigInt(40), pub, priv);
+        let restored = WeightCertificate.from(JSON.parse(JSON.stringify(cert)));
+        expect(Paillier.verifyWeightCertificate(restored, pub)).to.be.true;
+
+        let forged = new WeightCertificate("voter-1", bigInt(400), cert.signature);
+        expect(Paillier.verifyWeightCertificate(forged, pub)).to.be.false;
+        let stolen = new WeightCertificate("voter-2", bigInt(40), cert.signature);
+        expect(Paillier.verifyWeightCertificate(stolen, pub)).to.be.false;
+
+        let [c, commitment]: [BigInteger, ZkpCommitment] = Paillier.encryptWeighted(1, cert, 3, 16, pub);
+        expect(Paillier.verifyWeighted(c, commitment, cert, "voter-1", 3, 16, pub)).to.be.true;
+        expect(Paillier.verifyWeighted(c, commitment, forged, "voter-1", 3, 16, pub)).to.be.false;
+        let [cheatC, cheatCommitment]: [BigInteger, ZkpCommitment] = Paillier.encryptWeighted(1, forged, 3, 16, pub);
+        expect(Paillier.verifyWeighted(cheatC, cheatCommitment, cert, "voter-1", 3, 16, pub)).to.be.false;
+    });
+
+    it(`should NOT verify weighted vote with a replayed weight certificate`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let context = "shareholders-2024";
+        let large = Paillier.createWeightCertificate("voter-1", bigInt(4000), pub, priv);
+        let small = Paillier.createWeightCertificate("voter-2", bigInt(1), pub, priv);
+
+        // voter-2 attaches the published certificate of voter-1 to its own ballot
+        let [c, commitment]: [BigInteger, ZkpCommitment] = Paillier.encryptWeighted(0, large, 3, 16, pub, context);
+        expect(Paillier.verifyWeighted(c, commitment, large, "voter-1", 3, 16, pub, context)).to.be.true;
+        expect(Paillier.verifyWeighted(c, commitment, large, "voter-2", 3, 16, pub, context)).to.be.false;
+
+        // The proof is bound to the certificate it is made with
+        let [smallC, smallCommitment]: [BigInteger, ZkpCommitment] = Paillier.encryptWeighted(
+            0,
+            small,
+            3,
+            16,
+            pub,
+            context,
+        );
+        expect(Paillier.verifyWeighted(smallC, smallCommitment, small, "voter-2", 3, 16, pub, context)).to.be.true;
+        let proof: [BigInteger, ZkpCommitment] = Paillier.encryptWithZkp(
+            VoteEncoder.encodeWeighted(0, large.weight, 3, 16),
+            VoteEncoder.getWeightedPermutations(large.weight, 3, 16),
+            pub,
+            context,
+        );
+        expect(Paillier.verifyWeighted(proof[0], proof[1], large, "voter-1", 3, 16, pub, context)).to.be.false;
+    });
+
+    it(`should decrypt and sign the same with CRT and with the legacy private key`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(512);
+        expect(priv.hasPrimes()).to.be.true;
+        let legacy = new PrivateKey(priv.lambda, priv.mu);
+        expect(legacy.hasPrimes()).to.be.false;
+
+        for (let i = 0; i < 10; i++) {
+            let m = BigMath.generateRandom(400);
+            let c = Paillier.encrypt(m, pub);
+            expect(Paillier.decrypt(c, pub, priv).equals(m)).to.be.true;
+            expect(Paillier.decrypt(c, pub, legacy).equals(m)).to.be.true;
+        }
+
+        let m = bigInt(12345);
+        let sig = Paillier.createSignature(m, pub, priv);
+        let legacySig = Paillier.createSignature(m, pub, legacy);
+        expect(sig.s1.equals(legacySig.s1) && sig.s2.equals(legacySig.s2)).to.be.true;
+        expect(Paillier.verifySignature(m, sig, pub)).to.be.true;
+
+        let c = Paillier.encrypt(bigInt(42), pub);
+        let [, proof]: [BigInteger, ResidueProof] = Paillier.decryptWithProof(c, pub, legacy);
+        expect(Paillier.verifyDecryptionProof(c, bigInt(42), proof, pub)).to.be.true;
+    });
+
+    it(`should restore the extended and the legacy private key`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let restored = PrivateKey.from(JSON.parse(JSON.stringify(priv)));
+        expect(restored.hasPrimes()).to.be.true;
+        expect(restored.qInv!.equals(priv.qInv!)).to.be.true;
+        expect(PrivateKey.fromBytes(priv.toBytes()).hasPrimes()).to.be.true;
+
+        let legacy = new PrivateKey(priv.lambda, priv.mu);
+        expect(PrivateKey.from(JSON.parse(JSON.stringify(legacy))).hasPrimes()).to.be.false;
+        expect(PrivateKey.fromBytes(legacy.toBytes()).hasPrimes()).to.be.false;
+
+        let [, other]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let mixed = JSON.parse(JSON.stringify(priv));
+        mixed.p = JSON.parse(JSON.stringify(other)).p;
+        expect(() => PrivateKey.from(mixed)).to.throw(RangeError);
+        expect(() => Paillier.createPrivateKey(other.p!, other.q!, pub)).to.throw(RangeError);
+    });
+
+    it(`should re-randomize a ciphertext and prove the re-encryption`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let c = Paillier.encrypt(bigInt(42), pub);
+        let [c2, proof]: [BigInteger, ResidueProof] = Paillier.rerandomizeWithProof(c, pub, "mix-1");
+        expect(c2.equals(c)).to.be.false;
+        expect(Paillier.decrypt(c2, pub, priv).equals(bigInt(42))).to.be.true;
+        expect(Paillier.verifyReencryptionProof(c, c2, proof, pub, "mix-1")).to.be.true;
+        let restored = ResidueProof.from(JSON.parse(JSON.stringify(proof)));
+        expect(Paillier.verifyReencryptionProof(c, c2, restored, pub, "mix-1")).to.be.true;
+
+        expect(Paillier.decrypt(Paillier.rerandomize(c2, pub), pub, priv).equals(bigInt(42))).to.be.true;
+    });
+
+    it(`should NOT verify re-encryption proof of a different ciphertext or context`, () => {
+        let [pub]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let c = Paillier.encrypt(bigInt(42), pub);
+        let [c2, proof]: [BigInteger, ResidueProof] = Paillier.rerandomizeWithProof(c, pub, "mix-1");
+        expect(Paillier.verifyReencryptionProof(c, c2, proof, pub, "mix-2")).to.be.false;
+        expect(Paillier.verifyReencryptionProof(c2, c, proof, pub, "mix-1")).to.be.false;
+        let other = Paillier.encrypt(bigInt(43), pub);
+        expect(Paillier.verifyReencryptionProof(c, other, proof, pub, "mix-1")).to.be.false;
+        expect(Paillier.verifyReencryptionProof(c, pub.nSquared, proof, pub, "mix-1")).to.be.false;
+
+        // A changed message isn't a re-encryption
+        let [shifted, s]: [BigInteger, BigInteger] = Paillier.rerandomizeWithNonce(
+            Paillier.addScalar(c, bigInt.one, pub),
+            pub,
+        );
+        expect(() => Paillier.createReencryptionProof(c, shifted, s, pub)).to.throw(Error);
+    });
+
+    it(`should generate key pair with safe primes`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256, true);
+        expect(pub.n.bitLength().toJSNumber()).to.equals(256);
+        expect(BigMath.isProbablePrime(priv.p!.shiftRight(1))).to.be.true;
+        expect(BigMath.isProbablePrime(priv.q!.shiftRight(1))).to.be.true;
+        let c = Paillier.encrypt(bigInt(42), pub);
+        expect(Paillier.decrypt(c, pub, priv).equals(bigInt(42))).to.be.true;
+    });
+
+    it(`should validate well-formed public keys`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(512);
+        Paillier.validatePublicKey(pub, 512);
+        Paillier.validatePublicKey(new PublicKey(pub.n, pub.n.multiply(2).plus(1)), 512);
+        expect(() => Paillier.validatePublicKey(pub)).to.throw(RangeError);
+
+        // A square of a prime passes, only the modulus proof detects it
+        let p = BigMath.generateBlumPrime(256);
+        Paillier.validatePublicKey(new PublicKey(p.square(), p.square().plus(1)), 512);
+    });
+
+    [
+        { name: "prime modulus", key: (pub: PublicKey, priv: PrivateKey) => new PublicKey(priv.p!, priv.p!.plus(1)) },
+        {
+            name: "modulus with a small factor",
+            key: (pub: PublicKey) => new PublicKey(pub.n.multiply(3), pub.n.multiply(3).plus(1)),
+        },
+        { name: "g not 1 mod n", key: (pub: PublicKey) => new PublicKey(pub.n, pub.n.plus(2)) },
+        {
+            name: "g of order less than n",
+            key: (pub: PublicKey, priv: PrivateKey) => new PublicKey(pub.n, pub.n.multiply(priv.p!).plus(1)),
+        },
+        { name: "g not in Z*n^2", key: (pub: PublicKey, priv: PrivateKey) => new PublicKey(pub.n, priv.p!) },
+    ].forEach((test) => {
+        it(`should NOT validate public key with ${test.name}`, () => {
+            let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(512);
+            expect(() => Paillier.validatePublicKey(test.key(pub, priv), 256)).to.throw(RangeError);
+        });
+    });
+
+    it(`should prove that the modulus is a product of two primes`, () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let proof = Paillier.createModulusProof(pub, priv, "election-1");
+        expect(Paillier.verifyModulusProof(pub, proof, "election-1")).to.be.true;
+        let restored = ModulusProof.from(JSON.parse(JSON.stringify(proof)));
+        expect(Paillier.verifyModulusProof(pub, restored, "election-1")).to.be.true;
+
+        expect(Paillier.verifyModulusProof(pub, proof, "election-2")).to.be.false;
+        let [otherPub]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        expect(Paillier.verifyModulusProof(otherPub, proof, "election-1")).to.be.false;
+        let truncated = new ModulusProof(proof.w, proof.x.slice(1), proof.z.slice(1));
+        expect(Paillier.verifyModulusProof(pub, truncated, "election-1")).to.be.false;
+
+        expect(() => Paillier.createModulusProof(pub, new PrivateKey(priv.lambda, priv.mu))).to.throw(RangeError);
+    });
+
+    it(`should verify a batch of proofs and find the invalid ones`, () => {
+        let [pub]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let valid = [bigInt(1), bigInt(2), bigInt(4)];
+        let ballots = new Array<[BigInteger, BigInteger[], ZkpCommitment, string?]>();
+        for (let i = 0; i < 12; i++) {
+            let [c, commitment]: [BigInteger, ZkpCommitment] = Paillier.encryptWithZkp(
+                valid[i % 3],
+                valid,
+                pub,
+                `voter-${i}`,
+            );
+            ballots.push([c, valid, commitment, `voter-${i}`]);
+        }
+        expect(Paillier.batchVerifyZkp(ballots, pub)).to.deep.equal([]);
+        expect(Paillier.batchVerifyZkp([], pub)).to.deep.equal([]);
+
+        // Proof equation doesn't hold, found by bisection
+        ballots[3][2].z[1] = ballots[3][2].z[1].multiply(2).mod(pub.nSquared);
+        ballots[10][2].z[2] = ballots[10][2].z[2].plus(1);
+        // Ciphertext of another message
+        ballots[7][0] = Paillier.addScalar(ballots[7][0], bigInt(8), pub);
+        // Wrong context
+        ballots[8][3] = "voter-0";
+        // Wrong length
+        ballots[11][1] = valid.slice(1);
+        expect(Paillier.batchVerifyZkp(ballots, pub)).to.deep.equal([3, 7, 8, 10, 11]);
+
+        let single = ballots.map(([c, v, commitment, context], i) =>
+            i == 11 ? false : Paillier.verifyZkp(c, v, commitment, pub, context),
+        );
+        expect(single.map((ok, i) => (ok ? -1 : i)).filter((i) => i >= 0)).to.deep.equal([3, 7, 8, 10, 11]);
+    });
 });
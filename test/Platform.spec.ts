@@ -0,0 +1,101 @@
+import "mocha";
+import { expect } from "chai";
+import { createHash, createHmac, randomBytes } from "crypto";
+import { default as bigInt } from "big-integer";
+
+import Platform from "../src/Platform";
+import Bytes from "../src/Bytes";
+import Sha256 from "../src/Sha256";
+import BigMath from "../src/BigMath";
+import Paillier from "../src/Paillier";
+import SeededRandomSource from "../src/SeededRandomSource";
+import Transcript from "../src/Transcript";
+
+describe("Testing Platform", () => {
+    afterEach(() => {
+        Platform.useNodeCrypto(true);
+        BigMath.useRandomSource();
+    });
+
+    it(`should use Node.js crypto on Node.js`, () => {
+        expect(Platform.isNodeCrypto()).to.be.true;
+        Platform.useNodeCrypto(false);
+        expect(Platform.isNodeCrypto()).to.be.false;
+    });
+
+    [
+        { input: "", result: "e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855" },
+        { input: "abc", result: "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad" },
+        {
+            input: "abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq",
+            result: "248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1",
+        },
+    ].forEach((test) => {
+        it(`should hash "${test.input}" with the pure SHA-256`, () => {
+            expect(Bytes.toHex(Sha256.hash([Bytes.fromUtf8(test.input)]))).to.equals(test.result);
+        });
+    });
+
+    it(`should hash like Node.js crypto around the block boundaries`, () => {
+        [1, 55, 56, 57, 63, 64, 65, 119, 120, 128, 1000].forEach((length) => {
+            let data = randomBytes(length);
+            let expected = createHash("sha256").update(data).digest();
+            let split = Math.floor(length / 3);
+            let actual = new Sha256().update(data.subarray(0, split)).update(data.subarray(split)).digest();
+            expect(Bytes.toHex(actual)).to.equals(expected.toString("hex"));
+        });
+    });
+
+    it(`should compute HMAC like Node.js crypto`, () => {
+        Platform.useNodeCrypto(false);
+        // RFC 4231 test case 1
+        let mac = Platform.hmacSha256(new Uint8Array(20).fill(0x0b), Bytes.fromUtf8("Hi There"));
+        expect(Bytes.toHex(mac)).to.equals("b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7");
+        [0, 32, 64, 65, 131].forEach((length) => {
+            let key = randomBytes(length);
+            let data = randomBytes(100);
+            let expected = createHmac("sha256", key).update(data).digest("hex");
+            expect(Bytes.toHex(Platform.hmacSha256(key, data))).to.equals(expected);
+        });
+    });
+
+    it(`should convert bytes like Buffer`, () => {
+        [0, 1, 2, 3, 4, 31, 100].forEach((length) => {
+            let data = randomBytes(length);
+            expect(Bytes.toBase64(data)).to.equals(data.toString("base64"));
+            expect(Bytes.equals(Bytes.fromBase64(data.toString("base64")), data)).to.be.true;
+            expect(Bytes.toHex(data)).to.equals(data.toString("hex"));
+            expect(Bytes.equals(Bytes.fromHex(data.toString("hex")), data)).to.be.true;
+        });
+        let text = "voter ✓ 🗳";
+        expect(Bytes.equals(Bytes.fromUtf8(text), Buffer.from(text, "utf8"))).to.be.true;
+        expect(Bytes.toUtf8(Buffer.from(text, "utf8"))).to.equals(text);
+        expect(Bytes.toUInt32(Bytes.fromUInt32(0xfedcba98))).to.equals(0xfedcba98);
+        expect(() => Bytes.fromUInt32(-1)).to.throw(RangeError);
+    });
+
+    it(`should generate random bytes with getRandomValues`, () => {
+        Platform.useNodeCrypto(false);
+        let bytes = Platform.randomBytes(70000);
+        expect(bytes.length).to.equals(70000);
+        expect(bytes.subarray(66000).some((b) => b != 0)).to.be.true;
+    });
+
+    it(`should produce byte-identical keys, proofs and serializations on both platforms`, () => {
+        let run = () => {
+            BigMath.useRandomSource(new SeededRandomSource("platform"));
+            let [pub, priv] = Paillier.generateKeyPair(256);
+            let [c, commitment] = Paillier.encryptWithZkp(bigInt(1), [bigInt(0), bigInt(1)], pub, "ctx");
+            let challenge = new Transcript("test").appendBigInt("c", c).appendString("s", "✓").challenge();
+            return [
+                JSON.stringify([pub, priv, commitment]),
+                Bytes.toHex(commitment.toBytes()),
+                Bytes.toHex(priv.toBytes()),
+                challenge.toString(16),
+            ];
+        };
+        let node = run();
+        Platform.useNodeCrypto(false);
+        expect(run()).to.deep.equal(node);
+    });
+});
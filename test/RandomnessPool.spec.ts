@@ -0,0 +1,71 @@
+import "mocha";
+import { expect } from "chai";
+import { BigInteger, default as bigInt } from "big-integer";
+
+import RandomnessPool from "../src/RandomnessPool";
+import Paillier from "../src/Paillier";
+import PublicKey from "../src/PublicKey";
+import PrivateKey from "../src/PrivateKey";
+import ZkpCommitment from "../src/ZkpCommitment";
+import BigMath from "../src/BigMath";
+
+describe("Testing RandomnessPool", () => {
+    let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+
+    it(`should encrypt with values from the pool`, () => {
+        let pool = new RandomnessPool(pub);
+        pool.fill(3);
+        expect(pool.size()).to.equals(3);
+        for (let i = 0; i < 3; i++) {
+            let c = Paillier.encrypt(bigInt(i), pub, pool);
+            expect(Paillier.decrypt(c, pub, priv).equals(bigInt(i))).to.be.true;
+        }
+        expect(pool.size()).to.equals(0);
+    });
+
+    it(`should encrypt with a valid proof from the pool`, () => {
+        let valid = [bigInt(1), bigInt(2), bigInt(4), bigInt(8)];
+        let pool = new RandomnessPool(pub);
+        pool.fill(valid.length + 1);
+        let [c, commitment]: [BigInteger, ZkpCommitment] = Paillier.encryptWithZkp(bigInt(4), valid, pub, "ctx", pool);
+        expect(pool.size()).to.equals(0);
+        expect(Paillier.verifyZkp(c, valid, commitment, pub, "ctx")).to.be.true;
+        expect(Paillier.decrypt(c, pub, priv).equals(bigInt(4))).to.be.true;
+    });
+
+    it(`should never hand out the same value twice`, () => {
+        let pool = new RandomnessPool(pub);
+        pool.fill(20);
+        let seen = new Set<string>();
+        // The last values are computed on demand when the pool is empty
+        for (let i = 0; i < 25; i++) {
+            let [r, rn] = pool.take(pub);
+            expect(BigMath.modPow(r, pub.n, pub.nSquared).equals(rn)).to.be.true;
+            seen.add(r.toString());
+        }
+        expect(seen.size).to.equals(25);
+
+        let c1 = Paillier.encrypt(bigInt(1), pub, pool);
+        let c2 = Paillier.encrypt(bigInt(1), pub, pool);
+        expect(c1.equals(c2)).to.be.false;
+    });
+
+    it(`should fill the pool in the background`, async () => {
+        let pool = new RandomnessPool(pub);
+        let filling = pool.fillAsync(5, 2);
+        expect(pool.size()).to.be.lessThan(5);
+        await filling;
+        expect(pool.size()).to.equals(5);
+    });
+
+    it(`should NOT be used with another key or serialized`, () => {
+        let [otherPub]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let pool = new RandomnessPool(pub);
+        pool.fill(1);
+        expect(() => Paillier.encrypt(bigInt(1), otherPub, pool)).to.throw(Error);
+        expect(() => JSON.stringify(pool)).to.throw(Error);
+        expect(() => pool.fill(-1)).to.throw(RangeError);
+        pool.clear();
+        expect(pool.size()).to.equals(0);
+    });
+});
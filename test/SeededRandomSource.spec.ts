@@ -0,0 +1,213 @@
+import "mocha";
+import { expect } from "chai";
+import { BigInteger, default as bigInt } from "big-integer";
+
+import SeededRandomSource from "../src/SeededRandomSource";
+import CryptoRandomSource from "../src/CryptoRandomSource";
+import BigMath from "../src/BigMath";
+import Paillier from "../src/Paillier";
+import ZkpCommitment from "../src/ZkpCommitment";
+import PublicKey from "../src/PublicKey";
+import PrivateKey from "../src/PrivateKey";
+import RandomSource from "../src/RandomSource";
+import RandomnessPool from "../src/RandomnessPool";
+import Mixnet from "../src/Mixnet";
+import BlindSignature from "../src/BlindSignature";
+import ThresholdPaillier from "../src/ThresholdPaillier";
+import LinkableRingSignature from "../src/LinkableRingSignature";
+
+describe("Testing SeededRandomSource", () => {
+    afterEach(() => {
+        BigMath.useRandomSource();
+    });
+
+    [
+        {
+            seed: "totally random0123456789secret nonce",
+            personalization: "my drbg",
+            length: 32,
+            result: "018ec5f8e08c41e5ac974eb129ac297c5388ee1864324fa13d9b15cf98d9a157",
+        },
+    ].forEach((test) => {
+        it(`should generate the HMAC-DRBG test vector`, () => {
+            let source = new SeededRandomSource(test.seed, test.personalization);
+            expect(Buffer.from(source.randomBytes(test.length)).toString("hex")).to.equals(test.result);
+        });
+    });
+
+    it(`should generate the same bytes for the same seed only`, () => {
+        let a = new SeededRandomSource("seed");
+        let b = new SeededRandomSource("seed");
+        let c = new SeededRandomSource("seed", "other");
+        [0, 1, 31, 32, 33, 100].forEach((length) => {
+            let bytes = Buffer.from(a.randomBytes(length));
+            expect(bytes.length).to.equals(length);
+            expect(bytes.equals(Buffer.from(b.randomBytes(length)))).to.be.true;
+            if (length > 0) expect(bytes.equals(Buffer.from(c.randomBytes(length)))).to.be.false;
+        });
+    });
+
+    it(`should replay key generation and proofs with the same seed`, () => {
+        let run = (): [BigInteger, BigInteger, ZkpCommitment] => {
+            BigMath.useRandomSource(new SeededRandomSource("replay"));
+            let [pub] = Paillier.generateKeyPair(256);
+            let [c, commitment] = Paillier.encryptWithZkp(bigInt(1), [bigInt(0), bigInt(1)], pub, "ctx");
+            return [pub.n, c, commitment];
+        };
+        let first = run();
+        let second = run();
+        expect(first[0].equals(second[0])).to.be.true;
+        expect(first[1].equals(second[1])).to.be.true;
+        expect(JSON.stringify(first[2])).to.equals(JSON.stringify(second[2]));
+
+        BigMath.useRandomSource();
+        expect(BigMath.getRandomSource()).to.be.instanceOf(CryptoRandomSource);
+        expect(Paillier.generateKeyPair(256)[0].n.equals(first[0])).to.be.false;
+    });
+
+    it(`should replay key generation and proofs with the same source per call`, () => {
+        let run = (): [BigInteger, BigInteger, ZkpCommitment] => {
+            let source = new SeededRandomSource("per call");
+            let [pub] = Paillier.generateKeyPair(256, false, source);
+            let [c, commitment] = Paillier.encryptWithZkp(
+                bigInt(1),
+                [bigInt(0), bigInt(1)],
+                pub,
+                "ctx",
+                undefined,
+                source,
+            );
+            return [pub.n, c, commitment];
+        };
+        let first = run();
+        let second = run();
+        expect(BigMath.getRandomSource()).to.be.instanceOf(CryptoRandomSource);
+        expect(first[0].equals(second[0])).to.be.true;
+        expect(first[1].equals(second[1])).to.be.true;
+        expect(JSON.stringify(first[2])).to.equals(JSON.stringify(second[2]));
+    });
+
+    it(`should generate the same keys with the source of the async key generation`, () => {
+        let [pub] = Paillier.generateKeyPair(256, false, new SeededRandomSource("async"));
+        return Paillier.generateKeyPairAsync(256, { random: new SeededRandomSource("async") }).then(([asyncPub]) => {
+            expect(asyncPub.n.equals(pub.n)).to.be.true;
+        });
+    });
+
+    it(`should not use the default source when a source is given`, () => {
+        let source = new SeededRandomSource("given");
+        let [pub] = Paillier.generateKeyPair(256, false, source);
+        BigMath.useRandomSource({
+            randomBytes: (length: number) => {
+                throw new Error("The default source is used");
+            },
+        });
+        let c = Paillier.encrypt(bigInt(1), pub, undefined, source);
+        let [r, commitment] = Paillier.encryptWithZkp(bigInt(0), [bigInt(0), bigInt(1)], pub, "ctx", undefined, source);
+        expect(Paillier.verifyZkp(r, [bigInt(0), bigInt(1)], commitment, pub, "ctx")).to.be.true;
+        expect(BigMath.generateRandomPrime(64, 50, source).bitLength().toJSNumber()).to.equals(64);
+        expect(() => Paillier.encrypt(bigInt(1), pub)).to.throw("The default source is used");
+        expect(c.greater(bigInt.zero)).to.be.true;
+    });
+
+    describe("with a source per call", () => {
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        let valid = [bigInt(0), bigInt(1)];
+        let [c, commitment] = Paillier.encryptWithZkp(bigInt(1), valid, pub, "ctx");
+        let cert = Paillier.createWeightCertificate("voter-1", bigInt(3), pub, priv);
+        let [thresholdPub, shares, keys] = ThresholdPaillier.generateKeyPair(256, 2, 3);
+        let thresholdC = Paillier.encrypt(bigInt(7), thresholdPub);
+        let [signerPub] = BlindSignature.generateKeyPair(512);
+        let voters = [0, 1].map(() => LinkableRingSignature.generateKeyPair());
+        let ring = voters.map(([y]) => y);
+        // Native bigints of big-integer can't be serialized by JSON.stringify
+        let stringify = (o: any): string => JSON.stringify(o, (key, v) => (typeof v === "bigint" ? v.toString() : v));
+
+        [
+            {
+                name: "a range proof",
+                run: (source: RandomSource) => Paillier.encryptWithRangeProof(bigInt(5), 4, pub, "ctx", source),
+            },
+            {
+                name: "a weighted vote",
+                run: (source: RandomSource) => Paillier.encryptWeighted(1, cert, 3, 8, pub, "ctx", 0, 0, source),
+            },
+            {
+                name: "a multiple choice ballot",
+                run: (source: RandomSource) => Paillier.encryptMultiChoice([0, 2], 3, 1, 2, pub, "ctx", source),
+            },
+            {
+                name: "a ranked ballot",
+                run: (source: RandomSource) => Paillier.encryptRanking([2, 0, 1], 3, pub, "ctx", true, source),
+            },
+            {
+                name: "a decryption proof",
+                run: (source: RandomSource) => Paillier.decryptWithProof(c, pub, priv, source),
+            },
+            {
+                name: "a re-encryption proof",
+                run: (source: RandomSource) => Paillier.rerandomizeWithProof(c, pub, "ctx", undefined, source),
+            },
+            {
+                name: "a modulus proof",
+                run: (source: RandomSource) => Paillier.createModulusProof(pub, priv, "ctx", source),
+            },
+            {
+                name: "a batch verification",
+                run: (source: RandomSource) => Paillier.batchVerifyZkp([[c, valid, commitment]], pub, "ctx", source),
+            },
+            {
+                name: "a randomness pool",
+                run: (source: RandomSource) => {
+                    let pool = new RandomnessPool(pub);
+                    pool.fill(1, source);
+                    return [pool.take(pub), pool.take(pub, source)];
+                },
+            },
+            {
+                name: "a shuffle",
+                run: (source: RandomSource) => Mixnet.shuffle([c, commitment.a[0]], pub, "ctx", 4, undefined, source),
+            },
+            {
+                name: "a blind signature key pair",
+                run: (source: RandomSource) => BlindSignature.generateKeyPair(512, source),
+            },
+            {
+                name: "a blinded message",
+                run: (source: RandomSource) => BlindSignature.blind("token", signerPub, "ctx", source),
+            },
+            {
+                name: "a threshold key pair",
+                run: (source: RandomSource) => ThresholdPaillier.generateKeyPair(256, 2, 3, source),
+            },
+            {
+                name: "a partial decryption",
+                run: (source: RandomSource) =>
+                    ThresholdPaillier.decryptShare(thresholdC, thresholdPub, shares[0], keys, source),
+            },
+            {
+                name: "a ring signature key pair",
+                run: (source: RandomSource) => LinkableRingSignature.generateKeyPair(source),
+            },
+            {
+                name: "a ring signature",
+                run: (source: RandomSource) => LinkableRingSignature.sign("ballot", ring, voters[1][1], "ctx", source),
+            },
+        ].forEach((test) => {
+            it(`should replay ${test.name} without the default source`, () => {
+                let first = stringify(test.run(new SeededRandomSource("per call")));
+                BigMath.useRandomSource({
+                    randomBytes: (length: number) => {
+                        throw new Error("The default source is used");
+                    },
+                });
+                expect(stringify(test.run(new SeededRandomSource("per call")))).to.equals(first);
+            });
+        });
+    });
+
+    it(`should reject a source returning a wrong number of bytes`, () => {
+        BigMath.useRandomSource({ randomBytes: (length: number) => new Uint8Array(length - 1) });
+        expect(() => BigMath.generateRandom(64)).to.throw(Error);
+    });
+});
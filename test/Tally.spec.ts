@@ -0,0 +1,236 @@
+import "mocha";
+import { assert, expect } from "chai";
+import { BigInteger, default as bigInt } from "big-integer";
+
+import Tally from "../src/Tally";
+import BallotSpec from "../src/BallotSpec";
+import ElectionParameters from "../src/ElectionParameters";
+import VoteEncoder from "../src/VoteEncoder";
+import PublicKey from "../src/PublicKey";
+import PrivateKey from "../src/PrivateKey";
+import Paillier from "../src/Paillier";
+import ZkpCommitment from "../src/ZkpCommitment";
+import CastBallot from "../src/CastBallot";
+import LinkableRingSignature from "../src/LinkableRingSignature";
+import BlindSignature from "../src/BlindSignature";
+import EligibilityToken from "../src/EligibilityToken";
+import TokenLedger from "../src/TokenLedger";
+
+describe("Testing Tally", () => {
+    let params = new ElectionParameters(3, 100);
+    let context = "election-2024";
+    let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+    let spec = BallotSpec.singleChoice(params, context);
+
+    let vote = (choice: number): [BigInteger, ZkpCommitment] => {
+        return Paillier.encryptWithZkp(VoteEncoder.encodeSingle(choice, params), spec.valid, pub, context);
+    };
+
+    it(`should aggregate valid ballots`, () => {
+        let tally = new Tally(pub, spec);
+        let realVotes = new Array<number>(params.numChoices).fill(0);
+        for (let i = 0; i < 10; i++) {
+            let choice = Math.floor(Math.random() * params.numChoices);
+            let [c, commitment] = vote(choice);
+            expect(tally.add(`voter-${i}`, c, commitment)).to.be.true;
+            realVotes[choice]++;
+        }
+
+        expect(tally.accepted).to.equals(10);
+        expect(tally.rejected).to.equals(0);
+        let decoded = VoteEncoder.decode(Paillier.decrypt(tally.encryptedSum, pub, priv), params);
+        assert.deepEqual(decoded, realVotes);
+    });
+
+    it(`should reject duplicate ballot ids and ciphertexts`, () => {
+        let tally = new Tally(pub, spec);
+        let [c, commitment] = vote(1);
+        expect(tally.add("voter-1", c, commitment)).to.be.true;
+        expect(tally.add("voter-2", c, commitment)).to.be.false;
+
+        let [other, otherCommitment] = vote(2);
+        expect(tally.add("voter-1", other, otherCommitment)).to.be.false;
+        expect(tally.hasBallot("voter-1")).to.be.true;
+        expect(tally.hasBallot("voter-2")).to.be.false;
+        expect(tally.hasCiphertext(c)).to.be.true;
+        expect(tally.hasCiphertext(other)).to.be.false;
+
+        expect(tally.accepted).to.equals(1);
+        expect(tally.rejected).to.equals(2);
+        let decoded = VoteEncoder.decode(Paillier.decrypt(tally.encryptedSum, pub, priv), params);
+        assert.deepEqual(decoded, [0, 1, 0]);
+    });
+
+    it(`should reject ballots with invalid proofs`, () => {
+        let tally = new Tally(pub, spec);
+        let [c, commitment] = vote(0);
+        // Double vote with the proof of a single one
+        let cheatC = Paillier.addEncrypted(c, Paillier.encrypt(VoteEncoder.encodeSingle(0, params), pub), pub);
+        expect(tally.add("voter-1", cheatC, commitment)).to.be.false;
+        // Proof bound to another election
+        let [other, otherCommitment] = Paillier.encryptWithZkp(spec.valid[1], spec.valid, pub, "other-election");
+        expect(tally.add("voter-2", other, otherCommitment)).to.be.false;
+        // Proof for another list of valid messages
+        let [short, shortCommitment] = Paillier.encryptWithZkp(spec.valid[0], spec.valid.slice(0, 2), pub, context);
+        expect(tally.add("voter-3", short, shortCommitment)).to.be.false;
+        // Ciphertext out of range
+        expect(tally.add("voter-4", c.plus(pub.nSquared), commitment)).to.be.false;
+
+        expect(tally.accepted).to.equals(0);
+        expect(tally.rejected).to.equals(4);
+        // The ids of rejected ballots can be used again
+        expect(tally.add("voter-1", c, commitment)).to.be.true;
+    });
+
+    it(`should accept one anonymous ballot per voter of the ring`, () => {
+        let voters = [0, 1, 2].map(() => LinkableRingSignature.generateKeyPair());
+        let ring = voters.map(([pub]) => pub);
+        let cast = (priv: BigInteger, choice: number) => {
+            let [c, commitment] = vote(choice);
+            let message = LinkableRingSignature.ballotMessage(c, commitment);
+            return { c, commitment, signature: LinkableRingSignature.sign(message, ring, priv, context) };
+        };
+
+        let tally = new Tally(pub, spec, ring);
+        let first = cast(voters[0][1], 1);
+        expect(tally.addSigned(first.c, first.commitment, first.signature)).to.be.true;
+        let second = cast(voters[0][1], 2);
+        expect(tally.addSigned(second.c, second.commitment, second.signature)).to.be.false;
+        let other = cast(voters[1][1], 2);
+        expect(tally.addSigned(other.c, other.commitment, second.signature)).to.be.false;
+        expect(tally.addSigned(other.c, other.commitment, other.signature)).to.be.true;
+
+        // A ring chosen by the signer isn't accepted
+        let [outsiderPub, outsiderPriv] = LinkableRingSignature.generateKeyPair();
+        let [c, commitment] = vote(0);
+        let message = LinkableRingSignature.ballotMessage(c, commitment);
+        let outsider = LinkableRingSignature.sign(message, [ring[0], ring[1], outsiderPub], outsiderPriv, context);
+        expect(tally.addSigned(c, commitment, outsider)).to.be.false;
+        // The ids of the anonymous ballots are reserved
+        expect(tally.add("link:voter-3", c, commitment)).to.be.false;
+
+        expect(tally.accepted).to.equals(2);
+        expect(tally.rejected).to.equals(4);
+        let decoded = VoteEncoder.decode(Paillier.decrypt(tally.encryptedSum, pub, priv), params);
+        assert.deepEqual(decoded, [0, 1, 1]);
+
+        let checkpoint = JSON.parse(JSON.stringify(tally));
+        expect(() => Tally.from({ ...checkpoint, ring: [] })).to.throw(RangeError);
+        let restored = Tally.from(checkpoint);
+        let last = cast(voters[2][1], 0);
+        expect(restored.addSigned(second.c, second.commitment, second.signature)).to.be.false;
+        expect(restored.addSigned(last.c, last.commitment, last.signature)).to.be.true;
+        expect(() => new Tally(pub, spec).addSigned(last.c, last.commitment, last.signature)).to.throw(Error);
+    });
+
+    it(`should accept an anonymous ballot with the token issued for it only`, () => {
+        let [signerPub, signerPriv] = BlindSignature.generateKeyPair(512);
+        let issue = (c: BigInteger, commitment: ZkpCommitment): EligibilityToken => {
+            let tokenId = BlindSignature.ballotTokenId(c, commitment);
+            let [blinded, r] = BlindSignature.blind(tokenId, signerPub, context);
+            let blindSignature = BlindSignature.sign(blinded, signerPub, signerPriv);
+            return new EligibilityToken(
+                tokenId,
+                BlindSignature.unblind(blindSignature, r, tokenId, signerPub, context),
+            );
+        };
+
+        let tally = new Tally(pub, spec);
+        let ledger = new TokenLedger(signerPub, context);
+        let [c1, commitment1] = vote(1);
+        let [c2, commitment2] = vote(2);
+        let token1 = issue(c1, commitment1);
+        let token2 = issue(c2, commitment2);
+        // The token of another ballot
+        expect(tally.addWithToken(c2, commitment2, token1, ledger)).to.be.false;
+        expect(ledger.isSpent(token1.tokenId)).to.be.false;
+        expect(tally.addWithToken(c1, commitment1, token1, ledger)).to.be.true;
+        expect(ledger.isSpent(token1.tokenId)).to.be.true;
+        expect(tally.addWithToken(c1, commitment1, token1, ledger)).to.be.false;
+
+        // A rejected ballot doesn't spend its token
+        let [forged, forgedCommitment] = vote(0);
+        forgedCommitment.z[0] = forgedCommitment.z[0].plus(1);
+        let forgedToken = issue(forged, forgedCommitment);
+        expect(tally.addWithToken(forged, forgedCommitment, forgedToken, ledger)).to.be.false;
+        expect(ledger.isSpent(forgedToken.tokenId)).to.be.false;
+
+        // The ids of the anonymous ballots are reserved
+        expect(tally.add("token:" + token2.tokenId, c2, commitment2)).to.be.false;
+        // The signature of the token is verified once
+        let verifyToken = BlindSignature.verifyToken;
+        let verified = 0;
+        BlindSignature.verifyToken = (token, pub, context) => {
+            verified++;
+            return verifyToken.call(BlindSignature, token, pub, context);
+        };
+        try {
+            expect(tally.addWithToken(c2, commitment2, token2, ledger)).to.be.true;
+        } finally {
+            BlindSignature.verifyToken = verifyToken;
+        }
+        expect(verified).to.equals(1);
+        expect(ledger.isSpent(token2.tokenId)).to.be.true;
+        expect(() => tally.addWithToken(c2, commitment2, token2, new TokenLedger(signerPub))).to.throw(Error);
+
+        expect(tally.accepted).to.equals(2);
+        expect(tally.rejected).to.equals(4);
+        let decoded = VoteEncoder.decode(Paillier.decrypt(tally.encryptedSum, pub, priv), params);
+        assert.deepEqual(decoded, [0, 1, 1]);
+    });
+
+    it(`should restore the tally from a JSON checkpoint`, () => {
+        let tally = new Tally(pub, spec);
+        let [c1, commitment1] = vote(0);
+        let [c2, commitment2] = vote(2);
+        tally.add("voter-1", c1, commitment1);
+        tally.add("voter-1", c2, commitment2);
+
+        let restored = Tally.from(JSON.parse(JSON.stringify(tally)));
+        expect(restored.accepted).to.equals(1);
+        expect(restored.rejected).to.equals(1);
+        expect(restored.spec.context).to.equals(context);
+        expect(restored.add("voter-1", c2, commitment2)).to.be.false;
+        expect(restored.add("voter-2", c1, commitment1)).to.be.false;
+        expect(restored.add("voter-2", c2, commitment2)).to.be.true;
+
+        let decoded = VoteEncoder.decode(Paillier.decrypt(restored.encryptedSum, pub, priv), params);
+        assert.deepEqual(decoded, [1, 0, 1]);
+    });
+
+    it(`should NOT restore a checkpoint with the ids as object keys`, () => {
+        let tally = new Tally(pub, spec);
+        tally.add("voter-1", ...vote(0));
+        let checkpoint = JSON.parse(JSON.stringify(tally));
+        expect(() => Tally.from({ ...checkpoint, ballotIds: { "voter-1": true } })).to.throw(TypeError);
+        expect(() => Tally.from({ ...checkpoint, ciphertexts: { [checkpoint.ciphertexts[0]]: true } })).to.throw(
+            TypeError,
+        );
+        expect(() => Tally.from({ ...checkpoint, ballotIds: [1] })).to.throw(TypeError);
+    });
+
+    it(`should NOT restore a checkpoint without type tag or ring`, () => {
+        let checkpoint = JSON.parse(JSON.stringify(new Tally(pub, spec)));
+        expect(() => Tally.from({ ...checkpoint, type: undefined, format: undefined })).to.throw(TypeError);
+        expect(() => Tally.from({ ...checkpoint, format: 2 })).to.throw(RangeError);
+        expect(() => Tally.from({ ...checkpoint, ring: undefined })).to.throw(TypeError);
+    });
+
+    it(`should aggregate a batch of ballots and reject the invalid ones`, () => {
+        let tally = new Tally(pub, spec);
+        let ballots = [0, 1, 2, 1, 0].map((choice, i) => new CastBallot(`voter-${i}`, ...vote(choice)));
+        let forged = vote(2);
+        forged[1].z[0] = forged[1].z[0].plus(1);
+        ballots.push(new CastBallot("voter-5", ...forged));
+        ballots.push(new CastBallot("voter-0", ...vote(2)));
+        ballots.push(new CastBallot("voter-6", ballots[1].c, ballots[1].commitment));
+
+        let result = tally.addBatch(ballots);
+        expect(result).to.deep.equal([true, true, true, true, true, false, false, false]);
+        expect(tally.accepted).to.equals(5);
+        expect(tally.rejected).to.equals(3);
+        let decoded = VoteEncoder.decode(Paillier.decrypt(tally.encryptedSum, pub, priv), params);
+        assert.deepEqual(decoded, [2, 2, 1]);
+        expect(tally.addBatch([ballots[0]])).to.deep.equal([false]);
+    });
+});
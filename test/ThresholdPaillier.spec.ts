@@ -0,0 +1,179 @@
+import "mocha";
+import { assert, expect } from "chai";
+import { default as bigInt } from "big-integer";
+
+import PublicKey from "../src/PublicKey";
+import KeyShare from "../src/KeyShare";
+import PartialDecryption from "../src/PartialDecryption";
+import VerificationKeys from "../src/VerificationKeys";
+import EqualityProof from "../src/EqualityProof";
+import Paillier from "../src/Paillier";
+import ThresholdPaillier from "../src/ThresholdPaillier";
+
+describe("Testing threshold Paillier cryptosystem", () => {
+    [
+        { keySize: 256, threshold: 1, numShares: 1, input: "12345" },
+        { keySize: 256, threshold: 2, numShares: 3, input: "0" },
+        { keySize: 256, threshold: 3, numShares: 5, input: "95477148500050043847142" },
+        { keySize: 512, threshold: 4, numShares: 4, input: "93875198749187950505012983050847247412455461" },
+    ].forEach((test) => {
+        it(`should decrypt with ${test.threshold} of ${test.numShares} shares: ${test.input}`, () => {
+            let [pub, shares, keys]: [PublicKey, KeyShare[], VerificationKeys] = ThresholdPaillier.generateKeyPair(
+                test.keySize,
+                test.threshold,
+                test.numShares,
+            );
+            let m = bigInt(test.input);
+            let c = Paillier.encrypt(m, pub);
+            let partials = shares
+                .slice(test.numShares - test.threshold)
+                .map((share) => ThresholdPaillier.decryptShare(c, pub, share, keys));
+            let d = ThresholdPaillier.combine(c, partials, pub, keys);
+            assert(d.equals(m));
+        });
+    });
+
+    it(`should decrypt aggregated ciphertexts with any subset of t shares`, () => {
+        let [pub, shares, keys]: [PublicKey, KeyShare[], VerificationKeys] = ThresholdPaillier.generateKeyPair(
+            256,
+            3,
+            5,
+        );
+        let sum = bigInt.zero;
+        let encryptedSum = Paillier.encrypt(bigInt.zero, pub);
+        for (let i = 0; i < 10; i++) {
+            sum = sum.plus(i);
+            encryptedSum = Paillier.addEncrypted(encryptedSum, Paillier.encrypt(bigInt(i), pub), pub);
+        }
+
+        let partials = shares.map((share) => ThresholdPaillier.decryptShare(encryptedSum, pub, share, keys));
+        for (let subset of [
+            [0, 1, 2],
+            [4, 2, 0],
+            [1, 3, 4],
+            [0, 1, 2, 3, 4],
+        ]) {
+            let d = ThresholdPaillier.combine(
+                encryptedSum,
+                subset.map((i) => partials[i]),
+                pub,
+                keys,
+            );
+            assert(d.equals(sum));
+        }
+    });
+
+    it(`should restore key shares, verification keys and partial decryptions from JSON`, () => {
+        let [pub, shares, keys]: [PublicKey, KeyShare[], VerificationKeys] = ThresholdPaillier.generateKeyPair(
+            256,
+            2,
+            3,
+        );
+        let m = bigInt(4242);
+        let c = Paillier.encrypt(m, pub);
+        let restoredPub = PublicKey.from(JSON.parse(JSON.stringify(pub)));
+        let restoredKeys = VerificationKeys.from(JSON.parse(JSON.stringify(keys)));
+        let partials = shares.map((share) => {
+            let restoredShare = KeyShare.from(JSON.parse(JSON.stringify(share)));
+            let partial = ThresholdPaillier.decryptShare(c, restoredPub, restoredShare, restoredKeys);
+            return PartialDecryption.from(JSON.parse(JSON.stringify(partial)));
+        });
+        let d = ThresholdPaillier.combine(c, partials.slice(1), restoredPub, restoredKeys);
+        assert(d.equals(m));
+    });
+
+    describe("with a dishonest trustee", () => {
+        let [pub, shares, keys]: [PublicKey, KeyShare[], VerificationKeys] = ThresholdPaillier.generateKeyPair(
+            256,
+            2,
+            3,
+        );
+        let c = Paillier.encrypt(bigInt(7), pub);
+        let other = Paillier.encrypt(bigInt(8), pub);
+
+        [
+            {
+                name: "changed partial decryption",
+                forge: () => {
+                    let partial = ThresholdPaillier.decryptShare(c, pub, shares[0], keys);
+                    partial.ci = partial.ci.multiply(pub.g).mod(pub.nSquared);
+                    return partial;
+                },
+            },
+            {
+                name: "partial decryption of another ciphertext",
+                forge: () => ThresholdPaillier.decryptShare(other, pub, shares[0], keys),
+            },
+            {
+                name: "partial decryption with another share",
+                forge: () => {
+                    let partial = ThresholdPaillier.decryptShare(c, pub, shares[2], keys);
+                    partial.index = 1;
+                    return partial;
+                },
+            },
+            {
+                name: "changed threshold",
+                forge: () => {
+                    let partial = ThresholdPaillier.decryptShare(c, pub, shares[0], keys);
+                    partial.threshold = 1;
+                    return partial;
+                },
+            },
+            {
+                name: "missing proof",
+                forge: () => {
+                    let partial = ThresholdPaillier.decryptShare(c, pub, shares[0], keys);
+                    partial.proof = new EqualityProof(bigInt.one, bigInt.one, bigInt.zero, bigInt.zero);
+                    return partial;
+                },
+            },
+        ].forEach((test) => {
+            it(`should NOT combine a forged partial decryption: ${test.name}`, () => {
+                let forged = test.forge();
+                let honest = ThresholdPaillier.decryptShare(c, pub, shares[1], keys);
+                expect(ThresholdPaillier.verifyShare(c, forged, pub, keys)).to.be.false;
+                expect(ThresholdPaillier.verifyShare(c, honest, pub, keys)).to.be.true;
+                expect(() => ThresholdPaillier.combine(c, [forged, honest], pub, keys)).to.throw(Error);
+            });
+        });
+
+        it(`should NOT decrypt with a share that doesn't match the verification keys`, () => {
+            let share = new KeyShare(1, shares[0].s.plus(1), 2, 3);
+            expect(() => ThresholdPaillier.decryptShare(c, pub, share, keys)).to.throw(Error);
+        });
+    });
+
+    it(`should NOT combine less than t partial decryptions`, () => {
+        let [pub, shares, keys]: [PublicKey, KeyShare[], VerificationKeys] = ThresholdPaillier.generateKeyPair(
+            256,
+            3,
+            5,
+        );
+        let c = Paillier.encrypt(bigInt(7), pub);
+        let partials = shares.slice(0, 2).map((share) => ThresholdPaillier.decryptShare(c, pub, share, keys));
+        let shouldThrow = () => {
+            ThresholdPaillier.combine(c, partials, pub, keys);
+        };
+        assert.throws(shouldThrow, RangeError);
+    });
+
+    it(`should NOT combine duplicate partial decryptions`, () => {
+        let [pub, shares, keys]: [PublicKey, KeyShare[], VerificationKeys] = ThresholdPaillier.generateKeyPair(
+            256,
+            2,
+            3,
+        );
+        let c = Paillier.encrypt(bigInt(7), pub);
+        let partial = ThresholdPaillier.decryptShare(c, pub, shares[0], keys);
+        let shouldThrow = () => {
+            ThresholdPaillier.combine(c, [partial, partial], pub, keys);
+        };
+        assert.throws(shouldThrow, Error);
+    });
+
+    it(`should NOT generate key shares with invalid threshold`, () => {
+        expect(() => ThresholdPaillier.generateKeyPair(256, 0, 3)).to.throw(RangeError);
+        expect(() => ThresholdPaillier.generateKeyPair(256, 4, 3)).to.throw(RangeError);
+    });
+});
@@ -86,6 +86,130 @@ describe("Testing VoteEncoder", () => {
         });
     });
 
+    [
+        { ranking: [0, 1, 2], numChoices: 3, bitsPerChoice: 8, expected: [2, 1, 0] },
+        { ranking: [2, 0, 1], numChoices: 3, bitsPerChoice: 8, expected: [1, 0, 2] },
+        { ranking: [3, 1, 0, 2], numChoices: 4, bitsPerChoice: 4, expected: [1, 2, 0, 3] },
+    ].forEach((test) => {
+        it(`should encode Borda count of ranking [${test.ranking}]`, () => {
+            let encoded = VoteEncoder.encodeBorda(test.ranking, test.numChoices, test.bitsPerChoice);
+            let decoded = VoteEncoder.decodeBorda(encoded, test.numChoices, test.bitsPerChoice);
+            expect(decoded).to.deep.equal(test.expected);
+        });
+    });
+
+    [
+        {
+            ranking: [0, 1, 2],
+            numChoices: 3,
+            bitsPerChoice: 4,
+            expected: [
+                [0, 1, 1],
+                [0, 0, 1],
+                [0, 0, 0],
+            ],
+        },
+        {
+            ranking: [2, 0, 1],
+            numChoices: 3,
+            bitsPerChoice: 4,
+            expected: [
+                [0, 1, 0],
+                [0, 0, 0],
+                [1, 1, 0],
+            ],
+        },
+    ].forEach((test) => {
+        it(`should encode pairwise preferences of ranking [${test.ranking}]`, () => {
+            let encoded = VoteEncoder.encodeCondorcet(test.ranking, test.numChoices, test.bitsPerChoice);
+            let decoded = VoteEncoder.decodeCondorcet(encoded, test.numChoices, test.bitsPerChoice);
+            expect(decoded).to.deep.equal(test.expected);
+        });
+    });
+
+    [
+        { ranking: [0, 1], numChoices: 3 },
+        { ranking: [0, 1, 1], numChoices: 3 },
+        { ranking: [0, 1, 3], numChoices: 3 },
+    ].forEach((test) => {
+        it(`should NOT encode invalid ranking [${test.ranking}]`, () => {
+            expect(() => VoteEncoder.encodeBorda(test.ranking, test.numChoices, 8)).to.throw(RangeError);
+            expect(() => VoteEncoder.encodeCondorcet(test.ranking, test.numChoices, 8)).to.throw(RangeError);
+        });
+    });
+
+    [
+        { maxVotes: 0, expected: 2 },
+        { maxVotes: 1, expected: 2 },
+        { maxVotes: 127, expected: 8 },
+        { maxVotes: 128, expected: 9 },
+    ].forEach((test) => {
+        it(`should calculate the bits per choice needed for ${test.maxVotes} votes`, () => {
+            expect(VoteEncoder.getBitsPerChoice(test.maxVotes)).to.equals(test.expected);
+        });
+    });
+
+    it(`should calculate the bits needed for ranked votes`, () => {
+        expect(VoteEncoder.getBordaBitsPerChoice(5, 100)).to.equals(10);
+        expect(VoteEncoder.getCondorcetTotalVotesBits(5, 2, 8)).to.equals(400);
+    });
+
+    [
+        { choice: 0, weight: 1, numChoices: 3, bitsPerChoice: 8, expected: "1" },
+        { choice: 1, weight: 100, numChoices: 3, bitsPerChoice: 8, expected: "25600" },
+        { choice: 2, weight: 5, numChoices: 3, bitsPerChoice: 8, expected: "327680" },
+    ].forEach((test) => {
+        it(`should encode weighted choice ${test.choice} with weight ${test.weight} to ${test.expected}`, () => {
+            let encoded = VoteEncoder.encodeWeighted(
+                test.choice,
+                bigInt(test.weight),
+                test.numChoices,
+                test.bitsPerChoice,
+            );
+            expect(encoded.equals(bigInt(test.expected))).to.be.true;
+            let decoded = VoteEncoder.decode(encoded, test.numChoices, test.bitsPerChoice);
+            expect(decoded[test.choice]).to.equals(test.weight);
+        });
+    });
+
+    [
+        { weight: 0, bitsPerChoice: 8 },
+        { weight: 128, bitsPerChoice: 8 },
+    ].forEach((test) => {
+        it(`should NOT encode weighted choice with weight ${test.weight}`, () => {
+            expect(() => VoteEncoder.encodeWeighted(0, bigInt(test.weight), 3, test.bitsPerChoice)).to.throw(
+                RangeError,
+            );
+        });
+    });
+
+    [
+        { numChoices: 2, numBins: 2, bitsPerChoice: 8, totalWeight: 100, expected: 32 },
+        { numChoices: 2, numBins: 2, bitsPerChoice: 11, totalWeight: 1000, expected: 44 },
+        { numChoices: 3, numBins: 0, bitsPerChoice: 21, totalWeight: 1000000, expected: 63 },
+    ].forEach((test) => {
+        it(`should calculate the number of bits needed to encode total weight ${test.totalWeight}`, () => {
+            let bits = VoteEncoder.getTotalVotesBits(
+                test.numChoices,
+                test.numBins,
+                test.bitsPerChoice,
+                test.totalWeight,
+            );
+            expect(bits).to.equals(test.expected);
+        });
+    });
+
+    [
+        { bitsPerChoice: 7, totalWeight: 100 },
+        { bitsPerChoice: 8, totalWeight: 1000 },
+    ].forEach((test) => {
+        it(`should NOT calculate the bits for total weight ${test.totalWeight} in ${test.bitsPerChoice} bits`, () => {
+            expect(() => VoteEncoder.getTotalVotesBits(2, 0, test.bitsPerChoice, test.totalWeight)).to.throw(
+                RangeError,
+            );
+        });
+    });
+
     [
         { numChoices: 10, numBins: 10, bitsPerChoice: 8, expected: 800 },
         { numChoices: 2, numBins: 2, bitsPerChoice: 32, expected: 128 },
@@ -178,4 +302,142 @@ describe("Testing VoteEncoder", () => {
             for (let i = 0; i < decodedSum.length; i++) assert.equal(decodedSum[test.bin][i], realVotes[i]);
         });
     });
+
+    [
+        { numChoices: 4, numVotes: 20, min: 1, max: 3, keySize: 256, bitsPerChoice: 8 },
+        { numChoices: 6, numVotes: 10, min: 0, max: 6, keySize: 256, bitsPerChoice: 8 },
+    ].forEach((test) => {
+        it(`should encrypt aggregation of multiple choice ballots`, () => {
+            // Key generation
+            let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(test.keySize);
+
+            let realVotes = new Array<number>(test.numChoices).fill(0);
+            let encryptedSum = Paillier.encrypt(bigInt.zero, pub);
+
+            for (let i = 0; i < test.numVotes; i++) {
+                // Choose random selections
+                let choices = new Array<number>();
+                let count = test.min + Math.floor(Math.random() * (test.max - test.min + 1));
+                while (choices.length < count) {
+                    let choice = Math.floor(Math.random() * test.numChoices);
+                    if (choices.indexOf(choice) < 0) choices.push(choice);
+                }
+                // Encrypt ballot
+                let ballot = Paillier.encryptMultiChoice(choices, test.numChoices, test.min, test.max, pub);
+
+                // Check ballot validity
+                let valid = Paillier.verifyMultiChoice(ballot, test.numChoices, test.min, test.max, pub);
+                expect(valid).to.be.true;
+                // Aggregate votes
+                for (let choice of choices) realVotes[choice]++;
+                let encryptedVote = Paillier.packMultiChoice(ballot, test.bitsPerChoice, pub);
+                encryptedSum = Paillier.addEncrypted(encryptedSum, encryptedVote, pub);
+            }
+
+            let decryptedSum = Paillier.decrypt(encryptedSum, pub, priv);
+            let decodedSum = VoteEncoder.decode(decryptedSum, test.numChoices, test.bitsPerChoice);
+            for (let i = 0; i < decodedSum.length; i++) assert.equal(decodedSum[i], realVotes[i]);
+        });
+    });
+
+    [
+        { numChoices: 3, numVotes: 6, keySize: 256 },
+        { numChoices: 4, numVotes: 3, keySize: 256 },
+    ].forEach((test) => {
+        it(`should encrypt aggregation of ranked ballots`, () => {
+            // Key generation
+            let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(test.keySize);
+            let bordaBits = VoteEncoder.getBordaBitsPerChoice(test.numChoices, test.numVotes);
+            let condorcetBits = VoteEncoder.getBitsPerChoice(test.numVotes);
+
+            let sum = bigInt.zero;
+            let pairwiseSum = bigInt.zero;
+            let encryptedSum = Paillier.encrypt(bigInt.zero, pub);
+            let encryptedPairwiseSum = Paillier.encrypt(bigInt.zero, pub);
+
+            for (let i = 0; i < test.numVotes; i++) {
+                // Choose random ranking
+                let ranking = new Array<number>();
+                while (ranking.length < test.numChoices) {
+                    let choice = Math.floor(Math.random() * test.numChoices);
+                    if (ranking.indexOf(choice) < 0) ranking.push(choice);
+                }
+                // Encrypt ballot
+                let ballot = Paillier.encryptRanking(ranking, test.numChoices, pub, "", true);
+
+                // Check ballot validity
+                let valid = Paillier.verifyRanking(ballot, test.numChoices, pub, "", true);
+                expect(valid).to.be.true;
+                // Aggregate votes
+                sum = sum.plus(VoteEncoder.encodeBorda(ranking, test.numChoices, bordaBits));
+                pairwiseSum = pairwiseSum.plus(VoteEncoder.encodeCondorcet(ranking, test.numChoices, condorcetBits));
+                encryptedSum = Paillier.addEncrypted(encryptedSum, Paillier.packBorda(ballot, bordaBits, pub), pub);
+                encryptedPairwiseSum = Paillier.addEncrypted(
+                    encryptedPairwiseSum,
+                    Paillier.packCondorcet(ballot, condorcetBits, pub),
+                    pub,
+                );
+            }
+
+            let decryptedSum = Paillier.decrypt(encryptedSum, pub, priv);
+            expect(VoteEncoder.decodeBorda(decryptedSum, test.numChoices, bordaBits)).to.deep.equal(
+                VoteEncoder.decodeBorda(sum, test.numChoices, bordaBits),
+            );
+            let decryptedPairwiseSum = Paillier.decrypt(encryptedPairwiseSum, pub, priv);
+            expect(VoteEncoder.decodeCondorcet(decryptedPairwiseSum, test.numChoices, condorcetBits)).to.deep.equal(
+                VoteEncoder.decodeCondorcet(pairwiseSum, test.numChoices, condorcetBits),
+            );
+        });
+    });
+
+    it(`should encrypt aggregation of weighted votes`, () => {
+        let numChoices = 3;
+        let weights = [1000, 250, 1, 4000, 75];
+        let totalWeight = weights.reduce((a, b) => a + b);
+        let bitsPerChoice = VoteEncoder.getBitsPerChoice(totalWeight);
+        let context = "shareholders-2024";
+
+        // Key generation
+        let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+        expect(VoteEncoder.getTotalVotesBits(numChoices, 0, bitsPerChoice, totalWeight)).to.be.lessThan(256);
+
+        let realVotes = new Array<number>(numChoices).fill(0);
+        let encryptedSum = Paillier.encrypt(bigInt.zero, pub);
+
+        for (let i = 0; i < weights.length; i++) {
+            // Organizer certifies the weight
+            let cert = Paillier.createWeightCertificate(`voter-${i}`, bigInt(weights[i]), pub, priv);
+            // Choose random vote
+            let vote = Math.floor(Math.random() * numChoices);
+            // Encrypt vote
+            let [encryptedVote, commitment] = Paillier.encryptWeighted(
+                vote,
+                cert,
+                numChoices,
+                bitsPerChoice,
+                pub,
+                context,
+            );
+
+            // Check vote validity
+            let valid = Paillier.verifyWeighted(
+                encryptedVote,
+                commitment,
+                cert,
+                `voter-${i}`,
+                numChoices,
+                bitsPerChoice,
+                pub,
+                context,
+            );
+            expect(valid).to.be.true;
+            // Aggregate votes
+            realVotes[vote] += weights[i];
+            encryptedSum = Paillier.addEncrypted(encryptedSum, encryptedVote, pub);
+        }
+
+        let decryptedSum = Paillier.decrypt(encryptedSum, pub, priv);
+        let decodedSum = VoteEncoder.decode(decryptedSum, numChoices, bitsPerChoice);
+        for (let i = 0; i < decodedSum.length; i++) assert.equal(decodedSum[i], realVotes[i]);
+    });
 });
@@ -0,0 +1,124 @@
+import "mocha";
+import { assert, expect } from "chai";
+import { BigInteger, default as bigInt } from "big-integer";
+
+import WireFormat from "../src/WireFormat";
+import PublicKey from "../src/PublicKey";
+import PrivateKey from "../src/PrivateKey";
+import Signature from "../src/Signature";
+import ZkpCommitment from "../src/ZkpCommitment";
+import CastBallot from "../src/CastBallot";
+import BulletinBoard from "../src/BulletinBoard";
+import Paillier from "../src/Paillier";
+import VoteEncoder from "../src/VoteEncoder";
+
+describe("Testing WireFormat", () => {
+    let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(256);
+    let valid = VoteEncoder.getSingleChoicePermutations(3, 8);
+    let [c, commitment]: [BigInteger, ZkpCommitment] = Paillier.encryptWithZkp(valid[1], valid, pub);
+    let sig = Paillier.createSignature(bigInt(42), pub, priv);
+    let restore = (o: any) => JSON.parse(JSON.stringify(o));
+
+    [
+        { type: "PublicKey", value: pub, from: (o: any) => PublicKey.from(o) },
+        { type: "PrivateKey", value: priv, from: (o: any) => PrivateKey.from(o) },
+        { type: "Signature", value: sig, from: (o: any) => Signature.from(o) },
+        { type: "ZkpCommitment", value: commitment, from: (o: any) => ZkpCommitment.from(o) },
+        { type: "CastBallot", value: new CastBallot("voter-1", c, commitment), from: (o: any) => CastBallot.from(o) },
+    ].forEach((test) => {
+        it(`should serialize ${test.type} with type tag and format`, () => {
+            let o = restore(test.value);
+            expect(o.type).to.equals(test.type);
+            expect(o.format).to.equals(WireFormat.FORMAT);
+            assert.deepEqual(restore(test.from(o)), o);
+        });
+
+        it(`should NOT deserialize ${test.type} with wrong type tag or format`, () => {
+            let o = restore(test.value);
+            expect(() => test.from({ ...o, type: "Other" })).to.throw(TypeError);
+            expect(() => test.from({ ...o, format: WireFormat.FORMAT + 1 })).to.throw(RangeError);
+            expect(() => test.from(null)).to.throw(TypeError);
+            expect(() => test.from("string")).to.throw(TypeError);
+        });
+    });
+
+    it(`should serialize ciphertexts the same way regardless of how they are produced`, () => {
+        let sum = Paillier.addEncrypted(c, Paillier.encrypt(bigInt.one, pub), pub);
+        let product = Paillier.mulScalar(c, bigInt(2), pub);
+        for (let value of [c, sum, product]) {
+            let o = restore(WireFormat.encodeCiphertext(value));
+            expect(o.type).to.equals("Ciphertext");
+            expect(o.c).to.equals(WireFormat.encodeBigInt(value));
+            assert(WireFormat.decodeCiphertext(o, pub).equals(value));
+        }
+        expect(JSON.stringify(sum)).to.equals(JSON.stringify(sum.toString()));
+    });
+
+    it(`should NOT deserialize invalid ciphertexts`, () => {
+        let o = restore(WireFormat.encodeCiphertext(c));
+        expect(() => WireFormat.decodeCiphertext({ ...o, c: 12345 })).to.throw(TypeError);
+        expect(() => WireFormat.decodeCiphertext({ ...o, c: "not base64!" })).to.throw(TypeError);
+        expect(() => WireFormat.decodeCiphertext({ ...o, type: "PublicKey" })).to.throw(TypeError);
+        let outOfRange = WireFormat.encodeCiphertext(c.plus(pub.nSquared));
+        expect(() => WireFormat.decodeCiphertext(outOfRange, pub)).to.throw(RangeError);
+        expect(() => WireFormat.decodeCiphertext(outOfRange)).to.not.throw();
+    });
+
+    [
+        { name: "missing list", tamper: (o: any) => delete o.z },
+        { name: "list of different length", tamper: (o: any) => o.e.pop() },
+        { name: "empty lists", tamper: (o: any) => (o.a = o.e = o.z = []) },
+        { name: "non-string value", tamper: (o: any) => (o.a[0] = 1) },
+        { name: "unsupported version", tamper: (o: any) => (o.version = 3) },
+    ].forEach((test) => {
+        it(`should NOT deserialize ZkpCommitment with ${test.name}`, () => {
+            let o = restore(commitment);
+            test.tamper(o);
+            expect(() => ZkpCommitment.from(o)).to.throw(Error);
+        });
+    });
+
+    it(`should deserialize objects in the legacy format without type tag`, () => {
+        let legacyPub = { n: WireFormat.encodeBigInt(pub.n), g: WireFormat.encodeBigInt(pub.g) };
+        assert(PublicKey.from(legacyPub).n.equals(pub.n));
+        let legacyCommitment = restore(commitment);
+        delete legacyCommitment.type;
+        delete legacyCommitment.format;
+        delete legacyCommitment.version;
+        expect(ZkpCommitment.from(legacyCommitment).isLegacy()).to.be.true;
+    });
+
+    [
+        { type: "PublicKey", value: pub, from: (b: Uint8Array) => PublicKey.fromBytes(b) },
+        { type: "PrivateKey", value: priv, from: (b: Uint8Array) => PrivateKey.fromBytes(b) },
+        { type: "Signature", value: sig, from: (b: Uint8Array) => Signature.fromBytes(b) },
+        { type: "ZkpCommitment", value: commitment, from: (b: Uint8Array) => ZkpCommitment.fromBytes(b) },
+        {
+            type: "CastBallot",
+            value: new CastBallot("voter-1", c, commitment),
+            from: (b: Uint8Array) => CastBallot.fromBytes(b),
+        },
+    ].forEach((test) => {
+        it(`should encode ${test.type} in the binary format`, () => {
+            let bytes = test.value.toBytes();
+            expect(bytes.length).to.be.lessThan(JSON.stringify(test.value).length);
+            assert.deepEqual(restore(test.from(bytes)), restore(test.value));
+            expect(() => test.from(bytes.slice(0, bytes.length - 1))).to.throw(RangeError);
+            expect(() => test.from(Buffer.concat([bytes, Buffer.from([0])]))).to.throw(RangeError);
+            expect(() => test.from(WireFormat.ciphertextToBytes(c))).to.throw(TypeError);
+        });
+    });
+
+    it(`should encode ciphertexts and bulletin boards in the binary format`, () => {
+        assert(WireFormat.ciphertextFromBytes(WireFormat.ciphertextToBytes(c), pub).equals(c));
+
+        let board = new BulletinBoard(pub, priv);
+        for (let i = 0; i < 5; i++) {
+            let [vote, proof] = Paillier.encryptWithZkp(valid[i % valid.length], valid, pub);
+            board.append(new CastBallot(`voter-${i}`, vote, proof));
+        }
+        let restored = BulletinBoard.fromBytes(board.toBytes(), pub, priv);
+        expect(restored.ballots.length).to.equals(5);
+        expect(restored.getTreeHead().rootHash).to.equals(board.getTreeHead().rootHash);
+    });
+});
@@ -0,0 +1,83 @@
+import "mocha";
+import { expect } from "chai";
+import * as path from "path";
+import { BigInteger, default as bigInt } from "big-integer";
+
+import WorkerPool from "../src/WorkerPool";
+import Paillier from "../src/Paillier";
+import PublicKey from "../src/PublicKey";
+import PrivateKey from "../src/PrivateKey";
+import ZkpCommitment from "../src/ZkpCommitment";
+
+describe("Testing WorkerPool", function () {
+    // Every worker compiles the sources when running under ts-node
+    this.timeout(60000);
+
+    let [pub, priv]: [PublicKey, PrivateKey] = Paillier.generateKeyPair(512);
+    let valid = [0, 1, 2].map((m) => bigInt(m));
+    let script = path.join(__dirname, "worker.ts");
+    let pool: WorkerPool;
+
+    before(() => {
+        pool = new WorkerPool({ script, size: 2 });
+    });
+
+    after(() => pool.terminate());
+
+    it(`should encrypt with a ZKP that verifies in sync`, async () => {
+        let [c, commitment]: [BigInteger, ZkpCommitment] = await pool.encryptWithZkp(bigInt(1), valid, pub, "ctx");
+        expect(Paillier.verifyZkp(c, valid, commitment, pub, "ctx")).to.be.true;
+        expect(Paillier.decrypt(c, pub, priv).equals(1)).to.be.true;
+    });
+
+    it(`should verify ZKPs like the sync version`, async () => {
+        let [c, commitment] = Paillier.encryptWithZkp(bigInt(2), valid, pub, "ctx");
+        let results = await Promise.all([
+            pool.verifyZkp(c, valid, commitment, pub, "ctx"),
+            pool.verifyZkp(c, valid, commitment, pub, "other"),
+            pool.verifyZkp(Paillier.encrypt(bigInt(2), pub), valid, commitment, pub, "ctx"),
+        ]);
+        expect(results).to.deep.equal([true, false, false]);
+    });
+
+    it(`should decrypt like the sync version`, async () => {
+        let messages = [0, 7, 42, 1000].map((m) => bigInt(m));
+        let ciphertexts = messages.map((m) => Paillier.encrypt(m, pub));
+        let decrypted = await Promise.all(ciphertexts.map((c) => pool.decrypt(c, pub, priv)));
+        decrypted.forEach((m, i) => expect(m.equals(Paillier.decrypt(ciphertexts[i], pub, priv))).to.be.true);
+    });
+
+    it(`should generate a key pair`, async () => {
+        let [pub2, priv2]: [PublicKey, PrivateKey] = await pool.generateKeyPair(256);
+        expect(pub2.n.bitLength().toJSNumber()).to.be.at.least(255);
+        expect(priv2.hasPrimes()).to.be.true;
+        let c = Paillier.encrypt(bigInt(5), pub2);
+        expect(Paillier.decrypt(c, pub2, priv2).equals(5)).to.be.true;
+    });
+
+    it(`should reject with the error of the worker`, async () => {
+        let error: any;
+        await pool.generateKeyPair(100).catch((e) => (error = e));
+        expect(error).to.be.instanceOf(RangeError);
+    });
+
+    it(`should reject tasks after terminate`, async () => {
+        let other = new WorkerPool({ script, size: 1 });
+        expect(other.size()).to.equals(1);
+        await other.terminate();
+        let error: any;
+        await other.decrypt(bigInt(1), pub, priv).catch((e) => (error = e));
+        expect(error).to.be.an("error");
+    });
+
+    it(`should reject the running tasks on terminate`, async () => {
+        let other = new WorkerPool({ script, size: 1 });
+        let error: any;
+        let keyPair = other.generateKeyPair(2048, true).catch((e) => (error = e));
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        await other.terminate();
+        await keyPair;
+        expect(error).to.be.an("error");
+        expect(error.message).to.equals("Worker pool is terminated");
+    });
+});
@@ -0,0 +1,4 @@
+import WorkerPool from "../src/WorkerPool";
+
+// The script of the workers in the tests
+WorkerPool.startWorker();